@@ -0,0 +1,83 @@
+import { getFileVersionUrl } from './api';
+import useSignedUrls from './hooks/useSignedUrls';
+import { type FileMetadata } from './types';
+
+type FileHistoryProps = {
+    file: FileMetadata;
+    // Whether an action is running on the file, restoring is disabled meanwhile
+    isPending: boolean;
+    onRestore: (version: number) => void;
+    onClose: () => void;
+};
+
+// Every version the server keeps of a file, newest first, to download or restore them
+const FileHistory = ({ file, isPending, onRestore, onClose }: FileHistoryProps) => {
+    const versions = [file, ...file.previousVersions];
+    const getDownloadUrl = (version: number) => getFileVersionUrl(file.name, version, { download: true });
+    // Links cannot send the token along, they use signed URLs
+    const signed = useSignedUrls(versions.map(({ version }) => getDownloadUrl(version)));
+
+    return (
+        <section className="flex flex-col gap-y-2 border border-gray-300 p-2" aria-label={`History of ${file.name}`}>
+            <div className="flex items-center justify-between">
+                <h2 className="font-bold">History of {file.name}</h2>
+                <button type="button" className="text-blue-700 hover:underline" onClick={onClose}>
+                    Close
+                </button>
+            </div>
+            <table className="text-sm">
+                <thead>
+                    <tr>
+                        <th className="border border-gray-300 text-left p-2">Version</th>
+                        <th className="border border-gray-300 text-left p-2">Size</th>
+                        <th className="border border-gray-300 text-left p-2">Uploaded</th>
+                        <th className="border border-gray-300 text-left p-2">Uploaded as</th>
+                        <th className="border border-gray-300 text-left p-2">
+                            <span className="sr-only">Actions</span>
+                        </th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {versions.map(({ version, size, uploadedAt, originalName }) => (
+                        <tr key={version}>
+                            <td className="border border-gray-300 p-2">
+                                {version}
+                                {version === file.version ? ' (current)' : null}
+                            </td>
+                            <td className="border border-gray-300 p-2">{size}</td>
+                            <td className="border border-gray-300 p-2">
+                                <time dateTime={uploadedAt}>{new Date(uploadedAt).toLocaleString()}</time>
+                            </td>
+                            <td className="border border-gray-300 p-2">{originalName}</td>
+                            <td className="border border-gray-300 p-2">
+                                <div className="flex gap-x-3">
+                                    <a
+                                        href={signed(getDownloadUrl(version))}
+                                        className="text-blue-700 hover:underline"
+                                        download={file.name}
+                                        aria-label={`Download version ${version}`}
+                                    >
+                                        Download
+                                    </a>
+                                    {version === file.version ? null : (
+                                        <button
+                                            type="button"
+                                            className="text-blue-700 hover:underline disabled:text-gray-400"
+                                            aria-label={`Restore version ${version}`}
+                                            disabled={isPending}
+                                            onClick={() => onRestore(version)}
+                                        >
+                                            Restore
+                                        </button>
+                                    )}
+                                </div>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </section>
+    );
+};
+
+export default FileHistory;
@@ -1,20 +1,70 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 
 import FileList from './FileList';
+import {
+    createShareLink,
+    deleteFile,
+    fetchFileText,
+    fetchShareLinks,
+    renameFile,
+    restoreFileVersion,
+    revokeShareLink,
+    signUrls,
+} from './api';
 import useFetchFiles from './hooks/useFetchFiles';
+import { type FileMetadata } from './types';
+import { setToken } from './utils/token';
 const mockedUseFetchFiles = useFetchFiles as unknown as ReturnType<typeof vi.fn>;
+const updateQuery = vi.fn();
+
+const createFile = (name: string, size: number, metadata: Partial<FileMetadata> = {}): FileMetadata => ({
+    name,
+    size,
+    mimeType: 'text/plain',
+    uploadedAt: '2024-01-01T12:00:00.000Z',
+    originalName: name,
+    tags: [],
+    description: '',
+    version: 1,
+    previousVersions: [],
+    ...metadata,
+});
+
+const page = (files: FileMetadata[]) => ({ files, directories: [], total: files.length, offset: 0, limit: 20 });
 
 describe('FileList component', () => {
     vi.mock('./hooks/useFetchFiles', () => ({ default: vi.fn() }));
+    vi.mock('./api', async (importOriginal) => ({
+        ...(await importOriginal<Record<string, unknown>>()),
+        deleteFile: vi.fn(),
+        renameFile: vi.fn(),
+        copyFile: vi.fn(),
+        restoreFileVersion: vi.fn(),
+        createShareLink: vi.fn(),
+        fetchShareLinks: vi.fn(),
+        revokeShareLink: vi.fn(),
+        fetchFileText: vi.fn(),
+        signUrls: vi.fn(),
+    }));
 
     beforeEach(() => {
         mockedUseFetchFiles.mockReset();
+        updateQuery.mockReset();
+        vi.mocked(deleteFile).mockReset().mockResolvedValue();
+        vi.mocked(renameFile).mockReset().mockResolvedValue();
+        vi.mocked(restoreFileVersion).mockReset().mockResolvedValue();
+        vi.mocked(signUrls)
+            .mockReset()
+            .mockImplementation((urls) => Promise.resolve({ urls, expiresAt: null }));
     });
     test('should match snapshot', () => {
         mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
             isFetching: false,
-            data: { files: [] },
+            uploads: [],
+            data: page([]),
             error: null,
         });
 
@@ -24,8 +74,11 @@ describe('FileList component', () => {
 
     test('returns null when no files are present', () => {
         mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
             isFetching: false,
-            data: { files: [] },
+            uploads: [],
+            data: page([]),
             error: null,
         });
 
@@ -35,13 +88,11 @@ describe('FileList component', () => {
 
     test('renders table with files, header and sizes', () => {
         mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
             isFetching: false,
-            data: {
-                files: [
-                    { name: 'a.txt', size: 1000 },
-                    { name: 'b.png', size: 2048 },
-                ],
-            },
+            uploads: [],
+            data: page([createFile('a.txt', 1000), createFile('b.png', 2048)]),
             error: null,
         });
 
@@ -54,10 +105,318 @@ describe('FileList component', () => {
         expect(screen.getByText('2048')).toBeTruthy();
     });
 
+    test('renders the metadata of every file', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([
+                createFile('logo (1).png', 2048, {
+                    mimeType: 'image/png',
+                    originalName: 'logo.png',
+                    uploadMethod: 'chunked',
+                    tags: ['brand', 'dark'],
+                    description: 'The dark logo',
+                }),
+            ]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByText('image/png')).toBeTruthy();
+        expect(screen.getByText('Uploaded as logo.png')).toBeTruthy();
+        expect(screen.getByText('chunked')).toBeTruthy();
+        expect(screen.getByText('brand')).toBeTruthy();
+        expect(screen.getByText('dark')).toBeTruthy();
+        expect(screen.getByText('The dark logo')).toBeTruthy();
+        expect(document.querySelector('time')).toHaveAttribute('dateTime', '2024-01-01T12:00:00.000Z');
+    });
+
+    test('shows the processing status and what the processors found out', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([
+                createFile('a.txt', 1000, { processing: { status: 'pending', results: {}, errors: {} } }),
+                createFile('b.jpg', 2048, {
+                    processing: {
+                        status: 'done',
+                        results: { 'image-size': { width: 800, height: 600 }, 'exif-gps': { removed: true } },
+                        errors: {},
+                    },
+                }),
+                createFile('c.txt', 10, {
+                    processing: {
+                        status: 'failed',
+                        results: { 'line-count': { lines: 1 } },
+                        errors: { hash: 'The content is gone' },
+                    },
+                }),
+            ]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByText('Processing…')).toBeTruthy();
+        expect(screen.getByText('Processed')).toBeTruthy();
+        expect(screen.getByText('800 × 600 px')).toBeTruthy();
+        expect(screen.getByText('Location removed')).toBeTruthy();
+        expect(screen.getByText('Processing failed')).toBeTruthy();
+        expect(screen.getByText('1 line')).toBeTruthy();
+        expect(screen.getByText('hash: The content is gone')).toBeTruthy();
+    });
+
+    test('previews the clicked file in a drawer', async () => {
+        vi.mocked(fetchFileText).mockResolvedValue('{"name":"logo","sizes":[16,32]}');
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([
+                createFile('logo.png', 2048, { mimeType: 'image/png', sha256: 'abc' }),
+                createFile('logo.json', 31, { mimeType: 'application/json' }),
+            ]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        // Anywhere in the row but its links and buttons
+        fireEvent.click(screen.getByText('2048'));
+        const preview = screen.getByRole('complementary', { name: 'Preview of logo.png' });
+        expect(preview.querySelector('img')).toHaveAttribute('src', '/api/files/logo.png');
+        expect(preview).toHaveTextContent('SHA-256abc');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Preview logo.json' }));
+        expect(fetchFileText).toHaveBeenCalledWith('logo.json', 64 * 1024);
+        await waitFor(() =>
+            expect(screen.getByLabelText('Content')).toHaveTextContent('{ "name": "logo", "sizes": [ 16, 32 ] }')
+        );
+
+        fireEvent.keyDown(window, { key: 'Escape' });
+        expect(screen.queryByRole('complementary')).toBeNull();
+    });
+
+    test('reads the previewed text again only once its content changed', async () => {
+        vi.mocked(fetchFileText).mockReset().mockResolvedValue('Hello');
+        const withFiles = (file: FileMetadata) => ({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([file]),
+            error: null,
+        });
+        mockedUseFetchFiles.mockReturnValue(withFiles(createFile('notes.txt', 5, { sha256: 'abc' })));
+        const { rerender } = render(<FileList />);
+        fireEvent.click(screen.getByRole('button', { name: 'Preview notes.txt' }));
+        await waitFor(() => expect(screen.getByLabelText('Content')).toHaveTextContent('Hello'));
+
+        // Events and fetches of the list bring new objects for the same file
+        mockedUseFetchFiles.mockReturnValue(withFiles(createFile('notes.txt', 5, { sha256: 'abc', tags: ['draft'] })));
+        rerender(<FileList />);
+        expect(screen.getByRole('complementary')).toHaveTextContent('Tagsdraft');
+        expect(fetchFileText).toHaveBeenCalledTimes(1);
+
+        mockedUseFetchFiles.mockReturnValue(withFiles(createFile('notes.txt', 5, { sha256: 'def', version: 2 })));
+        rerender(<FileList />);
+        await waitFor(() => expect(fetchFileText).toHaveBeenCalledTimes(2));
+    });
+
+    test('sorts by the clicked column and flips the order on a second click', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByRole('columnheader', { name: /File Name/ })).toHaveAttribute('aria-sort', 'ascending');
+        fireEvent.click(screen.getByRole('button', { name: /File Name/ }));
+        expect(updateQuery).toHaveBeenCalledWith({ sort: 'name', order: 'desc' });
+        fireEvent.click(screen.getByRole('button', { name: /File Size/ }));
+        expect(updateQuery).toHaveBeenCalledWith({ sort: 'size', order: 'asc' });
+    });
+
+    test('applies the filters once submitted', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'report' } });
+        fireEvent.change(screen.getByLabelText('Extensions'), { target: { value: 'pdf' } });
+        fireEvent.change(screen.getByLabelText('Min size (bytes)'), { target: { value: '100' } });
+        expect(updateQuery).not.toHaveBeenCalled();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Filter' }));
+        expect(updateQuery).toHaveBeenCalledWith({ q: 'report', ext: 'pdf', minSize: 100, maxSize: undefined });
+    });
+
+    test('keeps the filters visible when nothing matches', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc', q: 'missing' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByText('No files match the filters.')).toBeTruthy();
+        fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+        expect(updateQuery).toHaveBeenCalledWith({ q: '', ext: '', minSize: undefined, maxSize: undefined });
+    });
+
+    test('pages through the files', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc', offset: 20 },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: { files: [createFile('a.txt', 1000)], directories: [], total: 41, offset: 20, limit: 20 },
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByText('21-21 of 41')).toBeTruthy();
+        fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+        expect(updateQuery).toHaveBeenCalledWith({ offset: 40 });
+        fireEvent.click(screen.getByRole('button', { name: 'Previous' }));
+        expect(updateQuery).toHaveBeenCalledWith({ offset: 0 });
+    });
+
+    test('links every file to its download endpoint', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('my file.txt', 1000)]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByRole('link', { name: 'my file.txt' })).toHaveAttribute('href', '/api/files/my%20file.txt');
+        expect(screen.getByRole('link', { name: 'Download my file.txt' })).toHaveAttribute(
+            'href',
+            '/api/files/my%20file.txt?download'
+        );
+    });
+
+    test('posts the selected files to the archive endpoint', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000), createFile('b.png', 2048)]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        const form = screen.getByRole('form', { name: 'Download selected files' });
+        expect(form).toHaveAttribute('action', '/api/archive');
+        expect(form).toHaveAttribute('method', 'post');
+        expect(screen.getByRole('button', { name: 'Download selected (0)' })).toBeDisabled();
+
+        fireEvent.click(screen.getByRole('checkbox', { name: 'Select b.png' }));
+        expect(new FormData(form as HTMLFormElement).getAll('files')).toEqual(['b.png']);
+
+        fireEvent.click(screen.getByRole('checkbox', { name: 'Select all files on this page' }));
+        expect(new FormData(form as HTMLFormElement).getAll('files')).toEqual(['b.png', 'a.txt']);
+        expect(screen.getByRole('button', { name: 'Download selected (2)' })).toBeEnabled();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Clear selection' }));
+        expect(screen.getByRole('checkbox', { name: 'Select a.txt' })).not.toBeChecked();
+    });
+
+    test('signs the links and the archive form once a token was entered', async () => {
+        vi.mocked(signUrls).mockImplementation((urls, { method = 'GET' } = {}) =>
+            Promise.resolve({
+                urls: urls.map((url) => `${url}${url.includes('?') ? '&' : '?'}signature=${method}`),
+                expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+            })
+        );
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+        });
+
+        setToken('secret-token');
+        try {
+            render(<FileList />);
+
+            await waitFor(() =>
+                expect(screen.getByRole('link', { name: 'a.txt' })).toHaveAttribute(
+                    'href',
+                    '/api/files/a.txt?signature=GET'
+                )
+            );
+            expect(screen.getByRole('link', { name: 'Download a.txt' })).toHaveAttribute(
+                'href',
+                '/api/files/a.txt?download&signature=GET'
+            );
+            expect(screen.getByRole('form', { name: 'Download selected files' })).toHaveAttribute(
+                'action',
+                '/api/archive?signature=POST'
+            );
+            expect(document.body.innerHTML).not.toContain('secret-token');
+        } finally {
+            setToken(null);
+        }
+    });
+
+    test('links every folder to its archive', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc', dir: 'photos' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: { ...page([createFile('photos/2024/beach.jpg', 1000)]), directories: ['2024'] },
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByRole('link', { name: 'Download photos/2024 as ZIP' })).toHaveAttribute(
+            'href',
+            '/api/archive?dir=photos%2F2024'
+        );
+    });
+
     test('shows loading state when fetching', () => {
         mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
             isFetching: true,
-            data: { files: [{ name: 'a.txt', size: 1000 }] },
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
             error: null,
         });
 
@@ -66,11 +425,51 @@ describe('FileList component', () => {
         expect(screen.getByText('Loading...')).toBeTruthy();
     });
 
+    test('shows the chunked uploads in progress', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [{ uploadId: 'upload-1', fileName: 'big.bin', receivedChunks: 3, totalChunks: 4 }],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        const uploads = screen.getByRole('region', { name: 'Uploads in progress' });
+        expect(uploads.textContent).toContain('big.bin');
+        expect(uploads.textContent).toContain('3/4 chunks');
+    });
+
+    test('shows how much of the storage the files take up', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: {
+                ...page([createFile('a.txt', 1000), createFile('a-copy.txt', 1000)]),
+                usage: { logicalSize: 2000, diskUsage: 1000 },
+            },
+            error: null,
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByLabelText('Storage usage').textContent).toBe(
+            '2000 bytes in all files, 1000 bytes on disk with duplicates stored once'
+        );
+    });
+
     test('displays error when present', () => {
         const error = { message: 'boom' };
         mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
             isFetching: false,
-            data: { files: [{ name: 'a.txt', size: 1000 }] },
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
             error,
         });
 
@@ -78,4 +477,145 @@ describe('FileList component', () => {
 
         expect(screen.getByText(JSON.stringify(error))).toBeTruthy();
     });
+
+    test('asks for a token instead of listing files when the server refuses', () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([]),
+            error: { error: 'A valid token is required', code: 'UNAUTHORIZED', status: 401 },
+        });
+
+        render(<FileList />);
+
+        expect(screen.getByRole('alert').textContent).toContain('Your API token is missing or no longer valid');
+        expect(screen.queryByRole('table')).toBeNull();
+        fireEvent.change(screen.getByLabelText('Token'), { target: { value: 'secret' } });
+        fireEvent.keyDown(screen.getByLabelText('Token'), { key: 'Enter' });
+        expect(localStorage.getItem('api-token')).toBe('secret');
+        localStorage.clear();
+    });
+
+    test('deletes a file after confirmation and refetches', async () => {
+        const refetch = vi.fn();
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+            refetch,
+        });
+        const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+
+        render(<FileList />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Delete a.txt' }));
+        expect(deleteFile).not.toHaveBeenCalled();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Delete a.txt' }));
+        expect(deleteFile).toHaveBeenCalledWith('a.txt');
+        await waitFor(() => expect(refetch).toHaveBeenCalled());
+
+        confirm.mockRestore();
+    });
+
+    test('shows the error of a failed rename', async () => {
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+            refetch: vi.fn(),
+        });
+        vi.mocked(renameFile).mockRejectedValue({ error: 'A file named "b.txt" already exists', code: 'FILE_EXISTS' });
+        const prompt = vi.spyOn(window, 'prompt').mockReturnValue('b.txt');
+
+        render(<FileList />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Rename a.txt' }));
+        expect(renameFile).toHaveBeenCalledWith('a.txt', 'b.txt');
+        expect(await screen.findByText('A file named "b.txt" already exists')).toBeTruthy();
+
+        prompt.mockRestore();
+    });
+
+    test('shows the versions of a file and restores one', async () => {
+        const refetch = vi.fn();
+        const previous = { ...createFile('a.txt', 500), version: 1, uploadedAt: '2023-12-31T12:00:00.000Z' };
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000, { version: 2, previousVersions: [previous] })]),
+            error: null,
+            refetch,
+        });
+
+        render(<FileList />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'History of a.txt' }));
+        const history = screen.getByRole('region', { name: 'History of a.txt' });
+        expect(history.textContent).toContain('2 (current)');
+        expect(screen.getByRole('link', { name: 'Download version 1' })).toHaveAttribute(
+            'href',
+            '/api/files/a.txt/versions/1?download'
+        );
+        expect(screen.queryByRole('button', { name: 'Restore version 2' })).toBeNull();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Restore version 1' }));
+        expect(restoreFileVersion).toHaveBeenCalledWith('a.txt', 1);
+        await waitFor(() => expect(refetch).toHaveBeenCalled());
+    });
+
+    test('copies a share link with the picked expiry and revokes links', async () => {
+        const link = {
+            id: 'link-1',
+            fileName: 'a.txt',
+            url: '/api/shared/signed',
+            expiresAt: '2024-01-08T12:00:00.000Z',
+            createdAt: '2024-01-01T12:00:00.000Z',
+            maxDownloads: 3,
+            downloads: 1,
+        };
+        vi.mocked(fetchShareLinks).mockReset().mockResolvedValue([link]);
+        vi.mocked(createShareLink).mockReset().mockResolvedValue(link);
+        vi.mocked(revokeShareLink).mockReset().mockResolvedValue();
+        const writeText = vi.fn().mockResolvedValue(undefined);
+        Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+        mockedUseFetchFiles.mockReturnValue({
+            query: { sort: 'name', order: 'asc' },
+            updateQuery,
+            isFetching: false,
+            uploads: [],
+            data: page([createFile('a.txt', 1000)]),
+            error: null,
+        });
+
+        render(<FileList />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Copy share link of a.txt' }));
+        const panel = screen.getByRole('region', { name: 'Share a.txt' });
+        expect(fetchShareLinks).toHaveBeenCalledWith('a.txt');
+        await waitFor(() => expect(panel.textContent).toContain('1 of 3'));
+
+        fireEvent.change(screen.getByLabelText('Expires in'), { target: { value: String(7 * 24 * 60 * 60) } });
+        fireEvent.change(screen.getByLabelText('Max downloads'), { target: { value: '3' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Copy share link' }));
+        await waitFor(() => expect(writeText).toHaveBeenCalledWith(`${window.location.origin}/api/shared/signed`));
+        expect(createShareLink).toHaveBeenCalledWith('a.txt', { expiresIn: 7 * 24 * 60 * 60, maxDownloads: 3 });
+        expect(await screen.findByLabelText('Copied to the clipboard:')).toHaveValue(
+            `${window.location.origin}/api/shared/signed`
+        );
+
+        fireEvent.click(screen.getByRole('button', { name: /^Revoke the link/ }));
+        expect(revokeShareLink).toHaveBeenCalledWith('link-1');
+        await waitFor(() => expect(fetchShareLinks).toHaveBeenCalledTimes(3));
+    });
 });
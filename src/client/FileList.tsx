@@ -1,43 +1,472 @@
-import { forwardRef } from 'react';
+import { forwardRef, useCallback, useState, type FormEvent, type MouseEvent } from 'react';
 
+import FileHistory from './FileHistory';
+import FilePreview, { type PreviewSource } from './FilePreview';
+import ProcessingStatus from './ProcessingStatus';
+import ShareLinks from './ShareLinks';
+import TokenPrompt from './TokenPrompt';
+import { fetchFileText, getArchiveUrl, getFileUrl } from './api';
 import useFetchFiles from './hooks/useFetchFiles';
+import useFileActions from './hooks/useFileActions';
+import useSignedUrls from './hooks/useSignedUrls';
+import { type APIError, type FileMetadata, type FileSortField } from './types';
+import { isAuthError } from './utils/token';
 
 export type FileListRef = {
     refetch: () => void;
 };
 
+const EMPTY_FILTERS = { q: '', ext: '', minSize: '', maxSize: '' };
+
+const parseSize = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// What the preview lists besides the size and type of a stored file
+const getProperties = (file: FileMetadata) => {
+    const { width, height } = file.processing?.results['image-size'] ?? {};
+    return [
+        { label: 'Uploaded', value: new Date(file.uploadedAt).toLocaleString() },
+        { label: 'Version', value: String(file.version) },
+        ...(typeof width === 'number' && typeof height === 'number'
+            ? [{ label: 'Dimensions', value: `${width} × ${height} px` }]
+            : []),
+        ...(file.sha256 ? [{ label: 'SHA-256', value: file.sha256 }] : []),
+        ...(file.tags.length > 0 ? [{ label: 'Tags', value: file.tags.join(', ') }] : []),
+        ...(file.description ? [{ label: 'Description', value: file.description }] : []),
+    ];
+};
+
+const toPreviewSource = (file: FileMetadata, url: string, readText: PreviewSource['readText']): PreviewSource => ({
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.size,
+    url,
+    readText,
+    properties: getProperties(file),
+});
+
+// Clicks on the links, buttons and checkboxes of a row do what they say, clicks anywhere else preview the file
+const isInteractive = (target: EventTarget) =>
+    target instanceof Element && target.closest('a, button, input, label') !== null;
+
 const FileList = forwardRef<FileListRef>((_, ref) => {
     const {
         isFetching,
-        data: { files },
+        data: { files, directories, total, offset, limit, usage },
         error,
+        refetch,
+        query,
+        updateQuery,
+        uploads,
     } = useFetchFiles(ref);
+    const { remove, rename, copy, restore, error: actionError, pendingFile } = useFileActions(refetch);
+    // The filters being edited, only applied to the query once submitted
+    const [filters, setFilters] = useState(EMPTY_FILTERS);
+    // Names of the files to download as an archive, kept across pages
+    const [selected, setSelected] = useState<string[]>([]);
+    // Name of the file whose versions are shown
+    const [historyFileName, setHistoryFileName] = useState<string | null>(null);
+    // Name of the file whose share links are shown
+    const [shareFileName, setShareFileName] = useState<string | null>(null);
+    // Name of the file shown in the preview drawer
+    const [previewFileName, setPreviewFileName] = useState<string | null>(null);
+    const previewFile = files.find((file) => file.name === previewFileName);
+    // Kept across events and fetches of the list, the preview is keyed by the content to read its text again
+    const readPreviewText = useCallback(
+        (maxBytes: number) => fetchFileText(previewFileName ?? '', maxBytes),
+        [previewFileName]
+    );
+    const getDirectoryPath = (directory: string) => (query.dir ? `${query.dir}/${directory}` : directory);
+    // Links, the preview and the archive form cannot send the token along, they use signed URLs
+    const signed = useSignedUrls([
+        ...files.flatMap((file) => [getFileUrl(file.name), getFileUrl(file.name, { download: true })]),
+        ...directories.map((directory) => getArchiveUrl({ dir: getDirectoryPath(directory) })),
+    ]);
+    const signedForPost = useSignedUrls([getArchiveUrl()], 'POST');
+
+    const toggleSelected = (names: string[], isSelected: boolean) =>
+        setSelected((current) =>
+            isSelected
+                ? [...current, ...names.filter((name) => !current.includes(name))]
+                : current.filter((name) => !names.includes(name))
+        );
+
+    const onDelete = (name: string) => {
+        if (window.confirm(`Delete "${name}"? This cannot be undone.`)) {
+            toggleSelected([name], false);
+            remove(name);
+        }
+    };
+
+    const onRename = (name: string) => {
+        const newName = window.prompt(`Rename "${name}" to:`, name);
+        if (newName && newName !== name) {
+            rename(name, newName);
+        }
+    };
+
+    const onCopy = (name: string) => {
+        const newName = window.prompt(`Copy "${name}" as:`, `Copy of ${name}`);
+        if (newName) {
+            copy(name, newName);
+        }
+    };
+
+    const togglePreview = (name: string) => setPreviewFileName(previewFileName === name ? null : name);
 
-    if (files.length === 0) {
+    const onRowClick = (event: MouseEvent<HTMLTableRowElement>, name: string) => {
+        if (!isInteractive(event.target)) {
+            togglePreview(name);
+        }
+    };
+
+    const onSort = (field: FileSortField) => {
+        // Clicking the sorted column again flips the order
+        const order = query.sort === field && query.order === 'asc' ? 'desc' : 'asc';
+        updateQuery({ sort: field, order });
+    };
+
+    const getAriaSort = (field: FileSortField) => {
+        if (query.sort !== field) {
+            return undefined;
+        }
+        return query.order === 'desc' ? 'descending' : 'ascending';
+    };
+
+    const onFilter = (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        updateQuery({
+            q: filters.q,
+            ext: filters.ext,
+            minSize: parseSize(filters.minSize),
+            maxSize: parseSize(filters.maxSize),
+        });
+    };
+
+    const onClearFilters = () => {
+        setFilters(EMPTY_FILTERS);
+        updateQuery({ q: '', ext: '', minSize: undefined, maxSize: undefined });
+    };
+
+    const filterInput = (name: keyof typeof EMPTY_FILTERS, label: string, type = 'text', placeholder?: string) => (
+        <label className="flex flex-col text-sm">
+            {label}
+            <input
+                name={name}
+                type={type}
+                min={type === 'number' ? 0 : undefined}
+                className="border border-gray-300 p-1"
+                placeholder={placeholder}
+                value={filters[name]}
+                onChange={(event) => setFilters((current) => ({ ...current, [name]: event.target.value }))}
+            />
+        </label>
+    );
+
+    // Nothing can be listed without a valid token
+    if (isAuthError(error)) {
+        return <TokenPrompt error={error} />;
+    }
+
+    const isFiltered = Boolean(query.q || query.ext || query.minSize !== undefined || query.maxSize !== undefined);
+    if (total === 0 && !isFiltered) {
         return null;
     }
 
+    const sortableHeader = (field: FileSortField, label: string) => (
+        <th className="border border-gray-300 text-left p-2" aria-sort={getAriaSort(field)}>
+            <button type="button" className="font-bold hover:underline" onClick={() => onSort(field)}>
+                {label}
+                {query.sort === field ? <span aria-hidden="true">{query.order === 'desc' ? ' ▼' : ' ▲'}</span> : null}
+            </button>
+        </th>
+    );
+
+    const firstIndex = total === 0 ? 0 : offset + 1;
+    const lastIndex = offset + files.length;
+    // Gone once the file is deleted or renamed, or on another page
+    const historyFile = files.find((file) => file.name === historyFileName);
+    const shareFile = files.find((file) => file.name === shareFileName);
+    const isPageSelected = files.length > 0 && files.every((file) => selected.includes(file.name));
+
     return (
         <div className="flex flex-col gap-y-4">
             {isFetching ? <p>Loading...</p> : null}
             {error ? <p className="text-red-500 text-sm">{JSON.stringify(error)}</p> : null}
+            {isAuthError(actionError) ? <TokenPrompt error={actionError} /> : null}
+            {actionError && !isAuthError(actionError) ? (
+                <p className="text-red-500 text-sm">{(actionError as APIError).error}</p>
+            ) : null}
             <h1>Inside folder ${'{projectRoot}/uploads:'}</h1>
+            {usage ? (
+                <p className="text-sm" aria-label="Storage usage">
+                    {usage.logicalSize} bytes in all files, {usage.diskUsage} bytes on disk with duplicates stored once
+                </p>
+            ) : null}
+            {uploads.length > 0 ? (
+                <section aria-label="Uploads in progress">
+                    <h2 className="font-bold">Uploads in progress</h2>
+                    <ul className="text-sm">
+                        {uploads.map((upload) => (
+                            <li key={upload.uploadId} className="flex items-center gap-x-2">
+                                {upload.fileName}
+                                <progress max={upload.totalChunks} value={upload.receivedChunks} />
+                                {upload.receivedChunks}/{upload.totalChunks} chunks
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            ) : null}
+            {directories.length > 0 ? (
+                <section aria-label="Folders">
+                    <h2 className="font-bold">Folders</h2>
+                    <ul className="text-sm">
+                        {directories.map((directory) => {
+                            const path = getDirectoryPath(directory);
+                            return (
+                                <li key={directory} className="flex items-center gap-x-2">
+                                    {directory}/
+                                    <a
+                                        href={signed(getArchiveUrl({ dir: path }))}
+                                        className="text-blue-700 hover:underline"
+                                        aria-label={`Download ${path} as ZIP`}
+                                    >
+                                        Download as ZIP
+                                    </a>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </section>
+            ) : null}
+            <form className="flex flex-wrap items-end gap-2" aria-label="Filter files" onSubmit={onFilter}>
+                {filterInput('q', 'Name', 'search')}
+                {filterInput('ext', 'Extensions', 'text', 'png,jpg')}
+                {filterInput('minSize', 'Min size (bytes)', 'number')}
+                {filterInput('maxSize', 'Max size (bytes)', 'number')}
+                <button type="submit" className="border border-gray-300 px-2 py-1">
+                    Filter
+                </button>
+                <button type="button" className="border border-gray-300 px-2 py-1" onClick={onClearFilters}>
+                    Clear
+                </button>
+            </form>
+            {/* A plain form, so the browser streams the archive to disk instead of holding it in memory */}
+            <form
+                method="post"
+                action={signedForPost(getArchiveUrl())}
+                className="flex items-center gap-x-2"
+                aria-label="Download selected files"
+            >
+                {selected.map((name) => (
+                    <input key={name} type="hidden" name="files" value={name} />
+                ))}
+                <button
+                    type="submit"
+                    className="border border-gray-300 px-2 py-1 disabled:text-gray-400"
+                    disabled={selected.length === 0}
+                >
+                    Download selected ({selected.length})
+                </button>
+                {selected.length > 0 ? (
+                    <button type="button" className="text-blue-700 hover:underline" onClick={() => setSelected([])}>
+                        Clear selection
+                    </button>
+                ) : null}
+            </form>
+            {historyFile ? (
+                <FileHistory
+                    file={historyFile}
+                    isPending={pendingFile === historyFile.name}
+                    onRestore={(version) => restore(historyFile.name, version)}
+                    onClose={() => setHistoryFileName(null)}
+                />
+            ) : null}
+            {shareFile ? <ShareLinks file={shareFile} onClose={() => setShareFileName(null)} /> : null}
+            {previewFile ? (
+                <FilePreview
+                    key={`${previewFile.name}:${previewFile.sha256}:${previewFile.version}`}
+                    source={toPreviewSource(previewFile, signed(getFileUrl(previewFile.name)), readPreviewText)}
+                    onClose={() => setPreviewFileName(null)}
+                />
+            ) : null}
             <table>
                 <thead>
                     <tr>
-                        <th className="border border-gray-300 text-left p-2">File Name</th>
-                        <th className="border border-gray-300 text-left p-2">File Size</th>
+                        <th className="border border-gray-300 p-2">
+                            <input
+                                type="checkbox"
+                                aria-label="Select all files on this page"
+                                checked={isPageSelected}
+                                disabled={files.length === 0}
+                                onChange={(event) =>
+                                    toggleSelected(
+                                        files.map((file) => file.name),
+                                        event.target.checked
+                                    )
+                                }
+                            />
+                        </th>
+                        {sortableHeader('name', 'File Name')}
+                        {sortableHeader('size', 'File Size')}
+                        <th className="border border-gray-300 text-left p-2">Type</th>
+                        {sortableHeader('date', 'Uploaded')}
+                        <th className="border border-gray-300 text-left p-2">Method</th>
+                        <th className="border border-gray-300 text-left p-2">Processing</th>
+                        <th className="border border-gray-300 text-left p-2">Versions</th>
+                        <th className="border border-gray-300 text-left p-2">Tags</th>
+                        <th className="border border-gray-300 text-left p-2">Description</th>
+                        <th className="border border-gray-300 text-left p-2">
+                            <span className="sr-only">Actions</span>
+                        </th>
                     </tr>
                 </thead>
                 <tbody>
+                    {files.length === 0 ? (
+                        <tr>
+                            <td className="border border-gray-300 p-2" colSpan={11}>
+                                No files match the filters.
+                            </td>
+                        </tr>
+                    ) : null}
                     {files.map((f) => (
-                        <tr key={f.name}>
-                            <td className="border border-gray-300 p-2">{f.name}</td>
+                        <tr
+                            key={f.name}
+                            className={`cursor-pointer hover:bg-gray-50${previewFileName === f.name ? ' bg-blue-50' : ''}`}
+                            onClick={(event) => onRowClick(event, f.name)}
+                        >
+                            <td className="border border-gray-300 p-2">
+                                <input
+                                    type="checkbox"
+                                    aria-label={`Select ${f.name}`}
+                                    checked={selected.includes(f.name)}
+                                    onChange={(event) => toggleSelected([f.name], event.target.checked)}
+                                />
+                            </td>
+                            <td className="border border-gray-300 p-2">
+                                <a
+                                    href={signed(getFileUrl(f.name))}
+                                    className="text-blue-700 hover:underline"
+                                    target="_blank"
+                                    rel="noreferrer"
+                                >
+                                    {f.name}
+                                </a>
+                                {f.originalName === f.name ? null : (
+                                    <p className="text-gray-500 text-xs">Uploaded as {f.originalName}</p>
+                                )}
+                            </td>
                             <td className="border border-gray-300 p-2">{f.size}</td>
+                            <td className="border border-gray-300 p-2">{f.mimeType}</td>
+                            <td className="border border-gray-300 p-2">
+                                <time dateTime={f.uploadedAt}>{new Date(f.uploadedAt).toLocaleString()}</time>
+                            </td>
+                            <td className="border border-gray-300 p-2">{f.uploadMethod ?? '-'}</td>
+                            <td className="border border-gray-300 p-2">
+                                <ProcessingStatus processing={f.processing} />
+                            </td>
+                            <td className="border border-gray-300 p-2">
+                                <button
+                                    type="button"
+                                    className="text-blue-700 hover:underline"
+                                    aria-label={`History of ${f.name}`}
+                                    aria-pressed={historyFileName === f.name}
+                                    onClick={() => setHistoryFileName(historyFileName === f.name ? null : f.name)}
+                                >
+                                    {f.previousVersions.length + 1}
+                                </button>
+                            </td>
+                            <td className="border border-gray-300 p-2">
+                                <ul className="flex flex-wrap gap-1">
+                                    {f.tags.map((tag) => (
+                                        <li key={tag} className="bg-gray-100 rounded px-1 text-xs">
+                                            {tag}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </td>
+                            <td className="border border-gray-300 p-2">{f.description}</td>
+                            <td className="border border-gray-300 p-2">
+                                <div className="flex gap-x-3">
+                                    <button
+                                        type="button"
+                                        className="text-blue-700 hover:underline"
+                                        aria-label={`Preview ${f.name}`}
+                                        aria-pressed={previewFileName === f.name}
+                                        onClick={() => togglePreview(f.name)}
+                                    >
+                                        Preview
+                                    </button>
+                                    <a
+                                        href={signed(getFileUrl(f.name, { download: true }))}
+                                        className="text-blue-700 hover:underline"
+                                        download={f.name}
+                                        aria-label={`Download ${f.name}`}
+                                    >
+                                        Download
+                                    </a>
+                                    <button
+                                        type="button"
+                                        className="text-blue-700 hover:underline disabled:text-gray-400"
+                                        aria-label={`Rename ${f.name}`}
+                                        disabled={pendingFile === f.name}
+                                        onClick={() => onRename(f.name)}
+                                    >
+                                        Rename
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="text-blue-700 hover:underline disabled:text-gray-400"
+                                        aria-label={`Copy ${f.name}`}
+                                        disabled={pendingFile === f.name}
+                                        onClick={() => onCopy(f.name)}
+                                    >
+                                        Copy
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="text-blue-700 hover:underline"
+                                        aria-label={`Copy share link of ${f.name}`}
+                                        aria-pressed={shareFileName === f.name}
+                                        onClick={() => setShareFileName(shareFileName === f.name ? null : f.name)}
+                                    >
+                                        Share
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="text-red-600 hover:underline disabled:text-gray-400"
+                                        aria-label={`Delete ${f.name}`}
+                                        disabled={pendingFile === f.name}
+                                        onClick={() => onDelete(f.name)}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </td>
                         </tr>
                     ))}
                 </tbody>
             </table>
+            <nav className="flex items-center gap-x-4" aria-label="Pagination">
+                <button
+                    type="button"
+                    className="border border-gray-300 px-2 py-1 disabled:text-gray-400"
+                    disabled={offset === 0}
+                    onClick={() => updateQuery({ offset: Math.max(0, offset - limit) })}
+                >
+                    Previous
+                </button>
+                <span className="text-sm">
+                    {firstIndex}-{lastIndex} of {total}
+                </span>
+                <button
+                    type="button"
+                    className="border border-gray-300 px-2 py-1 disabled:text-gray-400"
+                    disabled={lastIndex >= total}
+                    onClick={() => updateQuery({ offset: offset + limit })}
+                >
+                    Next
+                </button>
+            </nav>
         </div>
     );
 });
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+
+import { type APIError } from './types';
+import {
+    TEXT_PREVIEW_MAX_BYTES,
+    getPreviewKind,
+    highlightJson,
+    parseCsv,
+    type JsonTokenType,
+    type PreviewKind,
+} from './utils/preview';
+
+export type PreviewSource = {
+    name: string;
+    mimeType: string;
+    size: number;
+    // Where images, videos and sounds are loaded from: a file URL of the server, or an object URL of a picked file
+    url: string | null;
+    // Resolves with the first `maxBytes` of the content as text
+    readText: (maxBytes: number) => Promise<string>;
+    // Listed along with the name, size and type, e.g. when the file was uploaded
+    properties?: { label: string; value: string }[];
+};
+
+type FilePreviewProps = {
+    source: PreviewSource;
+    onClose: () => void;
+};
+
+const TEXT_KINDS: PreviewKind[] = ['json', 'csv', 'text'];
+
+const JSON_TOKEN_CLASSES: Record<JsonTokenType, string | undefined> = {
+    key: 'text-purple-700',
+    string: 'text-green-700',
+    number: 'text-blue-700',
+    literal: 'text-orange-700',
+    punctuation: undefined,
+};
+
+// The start of a text file, `text` stays `null` until it is read
+const useText = (source: PreviewSource, isText: boolean) => {
+    const [text, setText] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const { readText, size } = source;
+
+    useEffect(() => {
+        setText(null);
+        setError(null);
+        if (!isText) {
+            return;
+        }
+        // Empty files have no range to read
+        if (size === 0) {
+            setText('');
+            return;
+        }
+        let isCurrent = true;
+        readText(TEXT_PREVIEW_MAX_BYTES)
+            .then((read) => {
+                if (isCurrent) {
+                    setText(read);
+                }
+            })
+            .catch((error: unknown) => {
+                if (isCurrent) {
+                    setError(error);
+                }
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [readText, size, isText]);
+
+    return { text, error };
+};
+
+const CsvTable = ({ text, isTruncated }: { text: string; isTruncated: boolean }) => {
+    const { rows, isCut } = parseCsv(text, { isTruncated });
+    const [header = [], ...body] = rows;
+    return (
+        <>
+            <table className="text-xs">
+                <thead>
+                    <tr>
+                        {header.map((cell, index) => (
+                            <th key={index} className="border border-gray-300 text-left p-1">
+                                {cell}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {body.map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                            {row.map((cell, index) => (
+                                <td key={index} className="border border-gray-300 p-1">
+                                    {cell}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {isCut ? <p className="text-gray-500 text-xs">Only the first rows are shown.</p> : null}
+        </>
+    );
+};
+
+const TextContent = ({ kind, text, isTruncated }: { kind: PreviewKind; text: string; isTruncated: boolean }) => {
+    if (kind === 'csv') {
+        return <CsvTable text={text} isTruncated={isTruncated} />;
+    }
+    return (
+        <pre className="text-xs whitespace-pre-wrap break-all bg-gray-50 p-2" aria-label="Content">
+            {kind === 'json'
+                ? highlightJson(text).map((token, index) => (
+                      <span key={index} className={JSON_TOKEN_CLASSES[token.type]}>
+                          {token.text}
+                      </span>
+                  ))
+                : text}
+        </pre>
+    );
+};
+
+/**
+ * Shows a file without downloading it: images, videos and sounds with the browser's own elements, text files
+ * formatted up to a size cap, and the properties of every file. Works for stored files and picked ones alike.
+ */
+const FilePreview = ({ source, onClose }: FilePreviewProps) => {
+    const kind = getPreviewKind(source);
+    const { text, error } = useText(source, TEXT_KINDS.includes(kind));
+    const isTruncated = source.size > TEXT_PREVIEW_MAX_BYTES;
+
+    useEffect(() => {
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    const properties = [
+        { label: 'Size', value: `${source.size} bytes` },
+        { label: 'Type', value: source.mimeType || 'Unknown' },
+        ...(source.properties ?? []),
+    ];
+
+    return (
+        <aside
+            className="fixed inset-y-0 right-0 z-10 flex w-full max-w-lg flex-col gap-y-3 overflow-auto border-l border-gray-300 bg-white p-4 shadow-lg"
+            aria-label={`Preview of ${source.name}`}
+        >
+            <div className="flex items-center justify-between gap-x-2">
+                <h2 className="font-bold break-all">{source.name}</h2>
+                <button type="button" className="text-blue-700 hover:underline" onClick={onClose}>
+                    Close
+                </button>
+            </div>
+            {kind === 'image' && source.url ? (
+                <img src={source.url} alt={source.name} className="max-h-96 object-contain" />
+            ) : null}
+            {/* Uploaded videos and sounds come without captions */}
+            {kind === 'video' && source.url ? (
+                // eslint-disable-next-line jsx-a11y/media-has-caption
+                <video src={source.url} controls className="max-h-96" aria-label={source.name} />
+            ) : null}
+            {kind === 'audio' && source.url ? (
+                // eslint-disable-next-line jsx-a11y/media-has-caption
+                <audio src={source.url} controls aria-label={source.name} />
+            ) : null}
+            {error ? (
+                <p className="text-red-500 text-sm">
+                    {(error as Partial<APIError>).error ?? 'The file could not be read.'}
+                </p>
+            ) : null}
+            {text === null ? null : (
+                <>
+                    <TextContent kind={kind} text={text} isTruncated={isTruncated} />
+                    {isTruncated ? (
+                        <p className="text-gray-500 text-xs">
+                            Only the first {TEXT_PREVIEW_MAX_BYTES} of {source.size} bytes are shown.
+                        </p>
+                    ) : null}
+                </>
+            )}
+            {kind === 'none' ? <p className="text-gray-500 text-sm">This type of file cannot be previewed.</p> : null}
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                {properties.map(({ label, value }) => (
+                    <div key={label} className="contents">
+                        <dt className="text-gray-500">{label}</dt>
+                        <dd className="break-all">{value}</dd>
+                    </div>
+                ))}
+            </dl>
+        </aside>
+    );
+};
+
+export default FilePreview;
@@ -0,0 +1,55 @@
+import { type FileProcessing } from './types';
+
+type ProcessingStatusProps = {
+    processing?: FileProcessing;
+};
+
+const STATUS_LABELS: Record<FileProcessing['status'], string> = {
+    pending: 'Processing…',
+    done: 'Processed',
+    failed: 'Processing failed',
+};
+
+// What the built-in processors found out, in a few words. The results of other processors are left to the API.
+const describeResults = ({ results }: FileProcessing) => {
+    const details: string[] = [];
+    const { width, height } = results['image-size'] ?? {};
+    if (typeof width === 'number' && typeof height === 'number') {
+        details.push(`${width} × ${height} px`);
+    }
+    const { lines } = results['line-count'] ?? {};
+    if (typeof lines === 'number') {
+        details.push(`${lines} ${lines === 1 ? 'line' : 'lines'}`);
+    }
+    if (results['exif-gps']?.removed === true) {
+        details.push('Location removed');
+    }
+    return details;
+};
+
+// Files are processed after their upload was answered, the list shows their status until the server is done
+const ProcessingStatus = ({ processing }: ProcessingStatusProps) => {
+    if (!processing) {
+        return <>-</>;
+    }
+
+    return (
+        <div className="text-xs">
+            <p className={processing.status === 'failed' ? 'text-red-500' : undefined}>
+                {STATUS_LABELS[processing.status]}
+            </p>
+            <ul className="text-gray-500">
+                {describeResults(processing).map((detail) => (
+                    <li key={detail}>{detail}</li>
+                ))}
+                {Object.entries(processing.errors).map(([name, message]) => (
+                    <li key={name} className="text-red-500">
+                        {name}: {message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ProcessingStatus;
@@ -0,0 +1,156 @@
+import { useState, type FormEvent } from 'react';
+
+import useShareLinks from './hooks/useShareLinks';
+import { type APIError, type FileMetadata, type ShareLink } from './types';
+
+type ShareLinksProps = {
+    file: FileMetadata;
+    onClose: () => void;
+};
+
+// How long new links are valid, in seconds. The server allows 30 days at most.
+const EXPIRY_OPTIONS = [
+    { label: '1 hour', seconds: 60 * 60 },
+    { label: '1 day', seconds: 24 * 60 * 60 },
+    { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+    { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+];
+
+// Links are relative to the server, shared they have to work elsewhere
+const getAbsoluteUrl = (link: ShareLink) => new URL(link.url, window.location.origin).toString();
+
+// The clipboard is only there for secure pages, and the user may deny it. Resolves to whether the text was copied.
+const copyToClipboard = async (text: string) => {
+    try {
+        await navigator.clipboard.writeText(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Creates links to download a file without a token, e.g. for someone outside,
+ * and lists the links that did not expire yet to revoke them.
+ */
+const ShareLinks = ({ file, onClose }: ShareLinksProps) => {
+    const { links, error, isPending, create, revoke } = useShareLinks(file.name);
+    const [expiresIn, setExpiresIn] = useState(EXPIRY_OPTIONS[1].seconds);
+    const [maxDownloads, setMaxDownloads] = useState('');
+    // The link just created, shown in case it could not be copied
+    const [created, setCreated] = useState<{ url: string; isCopied: boolean } | null>(null);
+
+    const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const link = await create({
+            expiresIn,
+            maxDownloads: maxDownloads.trim() === '' ? null : Number(maxDownloads),
+        });
+        if (!link) {
+            return;
+        }
+
+        const url = getAbsoluteUrl(link);
+        setCreated({ url, isCopied: await copyToClipboard(url) });
+    };
+
+    return (
+        <section className="flex flex-col gap-y-2 border border-gray-300 p-2" aria-label={`Share ${file.name}`}>
+            <div className="flex items-center justify-between">
+                <h2 className="font-bold">Share {file.name}</h2>
+                <button type="button" className="text-blue-700 hover:underline" onClick={onClose}>
+                    Close
+                </button>
+            </div>
+            {error ? <p className="text-red-500 text-sm">{(error as APIError).error}</p> : null}
+            <form className="flex flex-wrap items-end gap-2 text-sm" onSubmit={onSubmit}>
+                <label className="flex flex-col">
+                    Expires in
+                    <select
+                        className="border border-gray-300 p-1"
+                        value={expiresIn}
+                        onChange={(event) => setExpiresIn(Number(event.target.value))}
+                    >
+                        {EXPIRY_OPTIONS.map(({ label, seconds }) => (
+                            <option key={seconds} value={seconds}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col">
+                    Max downloads
+                    <input
+                        type="number"
+                        min={1}
+                        className="border border-gray-300 p-1"
+                        placeholder="Unlimited"
+                        value={maxDownloads}
+                        onChange={(event) => setMaxDownloads(event.target.value)}
+                    />
+                </label>
+                <button
+                    type="submit"
+                    className="border border-gray-300 px-2 py-1 disabled:text-gray-400"
+                    disabled={isPending}
+                >
+                    Copy share link
+                </button>
+            </form>
+            {created ? (
+                <label className="flex flex-col text-sm">
+                    {created.isCopied ? 'Copied to the clipboard:' : 'Copy this link:'}
+                    <input
+                        readOnly
+                        className="border border-gray-300 p-1"
+                        value={created.url}
+                        onFocus={(event) => event.target.select()}
+                    />
+                </label>
+            ) : null}
+            {links.length > 0 ? (
+                <table className="text-sm">
+                    <thead>
+                        <tr>
+                            <th className="border border-gray-300 text-left p-2">Created</th>
+                            <th className="border border-gray-300 text-left p-2">Expires</th>
+                            <th className="border border-gray-300 text-left p-2">Downloads</th>
+                            <th className="border border-gray-300 text-left p-2">
+                                <span className="sr-only">Actions</span>
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {links.map((link) => (
+                            <tr key={link.id}>
+                                <td className="border border-gray-300 p-2">
+                                    <time dateTime={link.createdAt}>{new Date(link.createdAt).toLocaleString()}</time>
+                                </td>
+                                <td className="border border-gray-300 p-2">
+                                    <time dateTime={link.expiresAt}>{new Date(link.expiresAt).toLocaleString()}</time>
+                                </td>
+                                <td className="border border-gray-300 p-2">
+                                    {link.downloads}
+                                    {link.maxDownloads === null ? null : ` of ${link.maxDownloads}`}
+                                </td>
+                                <td className="border border-gray-300 p-2">
+                                    <button
+                                        type="button"
+                                        className="text-red-600 hover:underline disabled:text-gray-400"
+                                        aria-label={`Revoke the link created ${new Date(link.createdAt).toLocaleString()}`}
+                                        disabled={isPending}
+                                        onClick={() => revoke(link.id)}
+                                    >
+                                        Revoke
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : null}
+        </section>
+    );
+};
+
+export default ShareLinks;
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+
+import { isForbidden, setToken } from './utils/token';
+
+type TokenPromptProps = {
+    // The error of the refused request, a `403` keeps the token but asks for another one
+    error: unknown;
+};
+
+/**
+ * Asks for an API token when the server refused a request, everything is fetched again with the new one.
+ * Not a form of its own, so it can be shown within the upload form.
+ */
+const TokenPrompt = ({ error }: TokenPromptProps) => {
+    const [value, setValue] = useState('');
+
+    const onSubmit = () => {
+        if (value.trim() !== '') {
+            setToken(value.trim());
+            setValue('');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-y-2 text-sm" role="group" aria-label="API token">
+            <p className="text-red-500" role="alert">
+                {isForbidden(error)
+                    ? 'Your API token does not allow this. Enter another token to continue.'
+                    : 'Your API token is missing or no longer valid. Enter a token to continue.'}
+            </p>
+            <div className="flex items-center gap-x-2">
+                <label className="flex items-center gap-x-2">
+                    Token
+                    <input
+                        type="password"
+                        name="token"
+                        autoComplete="off"
+                        className="border border-gray-300 p-1"
+                        value={value}
+                        onChange={(event) => setValue(event.target.value)}
+                        onKeyDown={(event) => {
+                            // Instead of submitting the surrounding form
+                            if (event.key === 'Enter') {
+                                event.preventDefault();
+                                onSubmit();
+                            }
+                        }}
+                    />
+                </label>
+                <button
+                    type="button"
+                    className="border border-gray-300 px-2 py-1 disabled:text-gray-400"
+                    disabled={value.trim() === ''}
+                    onClick={onSubmit}
+                >
+                    Use token
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TokenPrompt;
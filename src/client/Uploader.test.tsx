@@ -1,8 +1,19 @@
-import { render } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { forwardRef } from 'react';
 import { describe, expect, test, vi } from 'vitest';
 
 import Uploader from './Uploader';
+import {
+    createUploadSession,
+    fetchConfig,
+    fetchUsage,
+    subscribeToEvents,
+    uploadByHash,
+    uploadChunk,
+    uploadSingle,
+} from './api';
+import { type UsageResponse } from './types';
+import { getRelativePath } from './utils/files';
 
 // Mock FileList component (optional if not testing it directly)
 vi.mock('./FileList', () => ({
@@ -11,9 +22,41 @@ vi.mock('./FileList', () => ({
     default: forwardRef(() => <div data-testid="file-list" />),
 }));
 
+const createUsage = (availableBytes: number | null): UsageResponse => {
+    const quotaUsage = { usedBytes: 0, reservedBytes: 0, quotaBytes: availableBytes, availableBytes, fileCount: 0 };
+    return { availableBytes, namespace: quotaUsage, total: quotaUsage, largestFiles: [] };
+};
+
 // Mock fetchFiles import
 vi.mock('./api', () => ({
     fetchFiles: vi.fn(),
+    fetchConfig: vi.fn().mockResolvedValue({
+        uploadPolicy: {
+            allowedMimeTypes: [],
+            allowedExtensions: [],
+            maxFileSize: null,
+            maxTotalSize: null,
+            maxFileCount: null,
+        },
+    }),
+    // Without quotas, like `createUsage(null)`
+    fetchUsage: vi.fn().mockResolvedValue({
+        availableBytes: null,
+        namespace: { usedBytes: 0, reservedBytes: 0, quotaBytes: null, availableBytes: null, fileCount: 0 },
+        total: { usedBytes: 0, reservedBytes: 0, quotaBytes: null, availableBytes: null, fileCount: 0 },
+        largestFiles: [],
+    }),
+    uploadSingle: vi.fn(),
+    createUploadSession: vi.fn(),
+    fetchUploadSession: vi.fn(),
+    uploadByHash: vi.fn().mockResolvedValue(null),
+    uploadChunk: vi.fn(),
+    subscribeToEvents: vi.fn().mockReturnValue(vi.fn()),
+}));
+
+vi.mock('./utils/sha256', async (importOriginal) => ({
+    ...(await importOriginal<Record<string, unknown>>()),
+    sha256: vi.fn().mockResolvedValue('digest'),
 }));
 
 describe('Uploader component', () => {
@@ -22,11 +65,406 @@ describe('Uploader component', () => {
             const { asFragment } = render(<Uploader />);
             expect(asFragment()).toMatchSnapshot();
         });
+
+        test('shows the names the files were stored under', async () => {
+            vi.mocked(uploadSingle).mockResolvedValue({
+                message: 'File uploaded successfully',
+                fileName: 'hello (1).txt',
+                sha256: 'digest',
+            });
+            const onSuccess = vi.fn();
+            render(<Uploader onSuccess={onSuccess} onConflict="rename" />);
+
+            fireEvent.change(screen.getByTestId('file-input'), {
+                target: { files: [new File(['Hello'], 'hello.txt', { type: 'text/plain' })] },
+            });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+            expect(await screen.findByText(/hello \(1\)\.txt/)).toBeTruthy();
+            expect(uploadSingle).toHaveBeenCalledWith(
+                expect.any(File),
+                expect.objectContaining({ onConflict: 'rename' })
+            );
+            expect(onSuccess).toHaveBeenCalled();
+        });
+
+        test('uploads at most `concurrency` files at once and reports their progress', async () => {
+            vi.mocked(uploadSingle).mockReset();
+            const uploads: { resolve: () => void; onProgress?: (bytes: number) => void }[] = [];
+            vi.mocked(uploadSingle).mockImplementation(
+                (file, { onProgress } = {}) =>
+                    new Promise((resolve) => {
+                        uploads.push({
+                            resolve: () => resolve({ message: 'ok', fileName: file.name, sha256: 'digest' }),
+                            onProgress,
+                        });
+                    })
+            );
+            render(<Uploader concurrency={2} />);
+
+            fireEvent.change(screen.getByTestId('file-input'), {
+                target: {
+                    files: ['a.txt', 'b.txt', 'c.txt'].map((name) => new File(['0123456789'], name)),
+                },
+            });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(2));
+            expect(screen.getAllByText('Uploading')).toHaveLength(2);
+            expect(screen.getByText('Queued')).toBeTruthy();
+
+            act(() => uploads[0].onProgress?.(5));
+            expect(screen.getByRole('progressbar', { name: 'Progress of a.txt' })).toHaveAttribute(
+                'aria-valuenow',
+                '50'
+            );
+
+            act(() => uploads[0].resolve());
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(3));
+            expect(await screen.findByText('✅ Stored as a.txt')).toBeTruthy();
+        });
+
+        test('pauses, resumes and cancels uploads', async () => {
+            vi.mocked(uploadSingle).mockReset();
+            const signals: AbortSignal[] = [];
+            vi.mocked(uploadSingle).mockImplementation(
+                (_file, { signal } = {}) =>
+                    new Promise((_resolve, reject) => {
+                        signals.push(signal as AbortSignal);
+                        signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+                    })
+            );
+            const onSuccess = vi.fn();
+            render(<Uploader onSuccess={onSuccess} />);
+
+            fireEvent.change(screen.getByTestId('file-input'), {
+                target: { files: [new File(['Hello'], 'hello.txt')] },
+            });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(1));
+
+            fireEvent.click(screen.getByRole('button', { name: 'Pause hello.txt' }));
+            expect(signals[0].aborted).toBe(true);
+            expect(await screen.findByText('Paused')).toBeTruthy();
+
+            fireEvent.click(screen.getByRole('button', { name: 'Resume hello.txt' }));
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(2));
+
+            fireEvent.click(screen.getByRole('button', { name: 'Cancel hello.txt' }));
+            expect(signals[1].aborted).toBe(true);
+            expect(await screen.findByText('Cancelled')).toBeTruthy();
+            await waitFor(() => expect(screen.queryByText('Uploading files...')).toBeNull());
+            expect(onSuccess).not.toHaveBeenCalled();
+        });
+
+        test('keeps the relative paths of dropped folders', async () => {
+            vi.mocked(uploadSingle).mockClear();
+            // The entries API is not implemented by jsdom
+            const fileEntry = (file: File, fullPath: string) => ({
+                isFile: true,
+                isDirectory: false,
+                fullPath,
+                file: (resolve: (file: File) => void) => resolve(file),
+            });
+            const directoryEntry = (fullPath: string, entries: unknown[]) => {
+                let isRead = false;
+                return {
+                    isFile: false,
+                    isDirectory: true,
+                    fullPath,
+                    createReader: () => ({
+                        readEntries: (resolve: (entries: unknown[]) => void) => {
+                            resolve(isRead ? [] : entries);
+                            isRead = true;
+                        },
+                    }),
+                };
+            };
+            const photos = directoryEntry('/photos', [
+                fileEntry(new File(['Beach'], 'beach.jpg'), '/photos/beach.jpg'),
+                directoryEntry('/photos/2024', [fileEntry(new File(['City'], 'city.jpg'), '/photos/2024/city.jpg')]),
+            ]);
+            const notes = new File(['Notes'], 'notes.txt');
+
+            render(<Uploader />);
+
+            fireEvent.drop(screen.getByTestId('drop-zone'), {
+                dataTransfer: {
+                    files: [notes],
+                    items: [
+                        { kind: 'file', webkitGetAsEntry: () => fileEntry(notes, '/notes.txt') },
+                        { kind: 'file', webkitGetAsEntry: () => photos },
+                    ],
+                },
+            });
+
+            await waitFor(() => expect(screen.getByText(/photos\/2024\/city\.jpg/)).toBeTruthy());
+            expect(screen.getByText(/photos\/beach\.jpg/)).toBeTruthy();
+            expect(screen.getByText(/notes\.txt/)).toBeTruthy();
+
+            vi.mocked(uploadSingle).mockResolvedValue({ message: 'ok', fileName: 'stored', sha256: 'digest' });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(3));
+            const uploadedFiles = vi.mocked(uploadSingle).mock.calls.map(([file]) => getRelativePath(file));
+            expect(uploadedFiles).toEqual(['notes.txt', 'photos/beach.jpg', 'photos/2024/city.jpg']);
+        });
+
+        test('leaves out the files the upload policy refuses', async () => {
+            vi.mocked(fetchConfig).mockResolvedValueOnce({
+                uploadPolicy: {
+                    allowedMimeTypes: ['image/*'],
+                    allowedExtensions: ['.png', '.jpg'],
+                    maxFileSize: 10,
+                    maxTotalSize: null,
+                    maxFileCount: 2,
+                },
+            });
+            vi.mocked(uploadSingle).mockReset();
+            vi.mocked(uploadSingle).mockResolvedValue({ message: 'ok', fileName: 'a.png', sha256: 'digest' });
+            render(<Uploader />);
+            await waitFor(() =>
+                expect(screen.getByTestId('file-input')).toHaveAttribute('accept', '.png,.jpg,image/*')
+            );
+
+            fireEvent.change(screen.getByTestId('file-input'), {
+                target: {
+                    files: [
+                        new File(['PNG'], 'a.png', { type: 'image/png' }),
+                        new File(['MZ'], 'setup.exe', { type: 'application/x-msdownload' }),
+                        new File(['A huge picture'], 'huge.png', { type: 'image/png' }),
+                        new File(['PDF'], 'fake.png', { type: 'application/pdf' }),
+                        new File(['JPG'], 'b.jpg', { type: 'image/jpeg' }),
+                        new File(['JPG'], 'c.jpg', { type: 'image/jpeg' }),
+                    ],
+                },
+            });
+
+            const rejected = screen.getByRole('list', { name: 'Rejected files' });
+            expect(rejected).toHaveTextContent('setup.exe: Files ending with .exe are not allowed.');
+            expect(rejected).toHaveTextContent('huge.png: Files may not exceed 10 bytes.');
+            expect(rejected).toHaveTextContent('fake.png: Files of type application/pdf are not allowed.');
+            expect(rejected).toHaveTextContent('c.jpg: No more than 2 files can be stored.');
+
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(2));
+            const uploadedFiles = vi.mocked(uploadSingle).mock.calls.map(([file]) => file.name);
+            expect(uploadedFiles).toEqual(['a.png', 'b.jpg']);
+        });
+
+        test('shows the remaining quota and leaves out the files that do not fit', async () => {
+            vi.mocked(fetchUsage).mockResolvedValueOnce(createUsage(10));
+            vi.mocked(uploadSingle).mockReset();
+            vi.mocked(uploadSingle).mockResolvedValue({ message: 'ok', fileName: 'a.txt', sha256: 'digest' });
+            render(<Uploader />);
+            expect(await screen.findByLabelText('Remaining quota')).toHaveTextContent(
+                '10 bytes left of your storage quota'
+            );
+
+            fireEvent.change(screen.getByTestId('file-input'), {
+                target: {
+                    files: [
+                        new File(['Hello!'], 'a.txt', { type: 'text/plain' }),
+                        new File(['Too much'], 'b.txt', { type: 'text/plain' }),
+                        new File(['Fits'], 'c.txt', { type: 'text/plain' }),
+                    ],
+                },
+            });
+            expect(screen.getByRole('list', { name: 'Rejected files' })).toHaveTextContent(
+                'b.txt: Only 4 bytes are left of your storage quota.'
+            );
+
+            const usageCalls = vi.mocked(fetchUsage).mock.calls.length;
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            await waitFor(() => expect(uploadSingle).toHaveBeenCalledTimes(2));
+            expect(vi.mocked(uploadSingle).mock.calls.map(([file]) => file.name)).toEqual(['a.txt', 'c.txt']);
+            // The quota left is fetched again for every stored file
+            await waitFor(() => expect(fetchUsage).toHaveBeenCalledTimes(usageCalls + 2));
+        });
+
+        test('fetches the remaining quota again when files change elsewhere', async () => {
+            vi.mocked(fetchUsage).mockResolvedValueOnce(createUsage(10));
+            render(<Uploader />);
+            expect(await screen.findByLabelText('Remaining quota')).toHaveTextContent(
+                '10 bytes left of your storage quota'
+            );
+
+            vi.mocked(fetchUsage).mockResolvedValueOnce(createUsage(4));
+            const [[onEvent]] = vi.mocked(subscribeToEvents).mock.calls.slice(-1);
+            act(() => onEvent({ type: 'file-deleted', data: { name: 'a.txt' } }));
+            expect(await screen.findByText('4 bytes left of your storage quota')).toBeInTheDocument();
+        });
+
+        test('retries transient failures only', async () => {
+            vi.mocked(uploadSingle).mockReset();
+            vi.mocked(uploadSingle)
+                .mockRejectedValueOnce(new TypeError('Network request failed'))
+                .mockRejectedValueOnce({ error: 'Too many requests', status: 429, retryAfter: 0 })
+                .mockResolvedValueOnce({ message: 'ok', fileName: 'hello.txt', sha256: 'digest' })
+                .mockRejectedValueOnce({ error: 'The file name is not valid.', status: 400 });
+            const onSuccess = vi.fn();
+            const onFail = vi.fn();
+            render(<Uploader retry={{ baseDelay: 0 }} onSuccess={onSuccess} onFail={onFail} />);
+
+            const hello = new File(['Hello'], 'hello.txt');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [hello] } });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ file: hello, fileName: 'hello.txt' }));
+            expect(uploadSingle).toHaveBeenCalledTimes(3);
+
+            const invalid = new File(['Hello'], 'invalid.txt');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [invalid] } });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            await waitFor(() => expect(onFail).toHaveBeenCalledWith(expect.objectContaining({ status: 400 }), invalid));
+            expect(uploadSingle).toHaveBeenCalledTimes(4);
+        });
+
+        test('previews picked files before they are uploaded', async () => {
+            vi.mocked(uploadSingle).mockClear();
+            const createObjectURL = vi.fn().mockReturnValue('blob:photo');
+            const revokeObjectURL = vi.fn();
+            Object.assign(URL, { createObjectURL, revokeObjectURL });
+            render(<Uploader />);
+
+            const photo = new File(['png'], 'photo.png', { type: 'image/png' });
+            const notes = new File(['{"a":1}'], 'notes.json');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [photo, notes] } });
+
+            fireEvent.click(screen.getByRole('button', { name: 'Preview photo.png' }));
+            expect(await screen.findByRole('img', { name: 'photo.png' })).toHaveAttribute('src', 'blob:photo');
+            expect(createObjectURL).toHaveBeenCalledWith(photo);
+
+            // Read from the file itself, nothing is sent
+            fireEvent.click(screen.getByRole('button', { name: 'Preview notes.json' }));
+            await waitFor(() => expect(screen.getByLabelText('Content')).toHaveTextContent('{ "a": 1 }'));
+            expect(revokeObjectURL).toHaveBeenCalledWith('blob:photo');
+            expect(uploadSingle).not.toHaveBeenCalled();
+
+            fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+            expect(screen.queryByRole('complementary')).toBeNull();
+        });
+
+        test('asks for a token when the server refuses the upload', async () => {
+            vi.mocked(uploadSingle).mockReset();
+            vi.mocked(uploadSingle)
+                .mockRejectedValueOnce({ error: 'A valid token is required', code: 'UNAUTHORIZED', status: 401 })
+                .mockResolvedValueOnce({ message: 'ok', fileName: 'hello.txt', sha256: 'digest' });
+            const onSuccess = vi.fn();
+            render(<Uploader onSuccess={onSuccess} />);
+
+            const hello = new File(['Hello'], 'hello.txt');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [hello] } });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+            expect(await screen.findByText(/Your API token is missing or no longer valid/)).toBeTruthy();
+
+            fireEvent.change(screen.getByLabelText('Token'), { target: { value: 'secret' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Use token' }));
+            expect(localStorage.getItem('api-token')).toBe('secret');
+
+            fireEvent.click(screen.getByRole('button', { name: 'Retry hello.txt' }));
+            await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ file: hello, fileName: 'hello.txt' }));
+            expect(screen.queryByRole('group', { name: 'API token' })).toBeNull();
+            localStorage.clear();
+        });
     });
     describe('Chunked', () => {
         test('should match snapshot', () => {
             const { asFragment } = render(<Uploader chunked />);
             expect(asFragment()).toMatchSnapshot();
         });
+
+        test('uploads every file through its own chunks and reports each result', async () => {
+            vi.mocked(createUploadSession).mockImplementation(({ fileName, totalChunks }) =>
+                Promise.resolve({ uploadId: `id-${fileName}`, fileName, totalChunks, receivedChunks: [] })
+            );
+            vi.mocked(uploadChunk).mockImplementation((formData) => {
+                if (formData.get('uploadId') === 'id-broken.bin') {
+                    return Promise.reject({ error: 'Disk full' });
+                }
+                const complete = formData.get('currentChunkIndex') === '1';
+                return Promise.resolve({
+                    message: 'ok',
+                    complete,
+                    fileName: complete ? 'stored.bin' : undefined,
+                });
+            });
+            const onSuccess = vi.fn();
+            const onFail = vi.fn();
+            render(<Uploader chunked chunkSize={4} concurrency={1} onSuccess={onSuccess} onFail={onFail} />);
+
+            const file = new File(['01234567'], 'file.bin');
+            const broken = new File(['01234567'], 'broken.bin');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [file, broken] } });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+            await waitFor(() => expect(onFail).toHaveBeenCalledWith({ error: 'Disk full' }, broken));
+            await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ file, fileName: 'stored.bin' }));
+            expect(uploadChunk).toHaveBeenCalledTimes(3);
+            expect(screen.getByText('Done')).toBeTruthy();
+            expect(screen.getByText('Failed')).toBeTruthy();
+            expect(screen.getByRole('progressbar', { name: 'Total progress' })).toHaveAttribute('aria-valuenow', '50');
+        });
+
+        test('sends no chunk when the server stores the same content already', async () => {
+            vi.mocked(createUploadSession).mockReset();
+            vi.mocked(uploadChunk).mockReset();
+            vi.mocked(uploadByHash).mockResolvedValueOnce({
+                message: 'ok',
+                fileName: 'known (1).bin',
+                sha256: 'digest',
+            });
+            const onSuccess = vi.fn();
+            render(<Uploader chunked chunkSize={4} onSuccess={onSuccess} />);
+
+            const file = new File(['01234567'], 'known.bin');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [file] } });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+            await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ file, fileName: 'known (1).bin' }));
+            expect(uploadByHash).toHaveBeenCalledWith(file, 'digest', expect.anything());
+            expect(createUploadSession).not.toHaveBeenCalled();
+            expect(uploadChunk).not.toHaveBeenCalled();
+            expect(screen.getByRole('progressbar', { name: 'Total progress' })).toHaveAttribute('aria-valuenow', '100');
+        });
+
+        test('grows the chunks with the throughput and retries failed ones', async () => {
+            vi.mocked(createUploadSession).mockImplementation(({ fileName, totalChunks }) =>
+                Promise.resolve({ uploadId: `id-${fileName}`, fileName, totalChunks, receivedChunks: [] })
+            );
+            vi.mocked(uploadChunk).mockReset();
+            vi.mocked(uploadChunk)
+                .mockRejectedValueOnce({ error: 'Service unavailable', status: 503 })
+                .mockImplementation((formData) => {
+                    const complete = formData.get('currentChunkIndex') === '3';
+                    return Promise.resolve({ message: 'ok', complete, fileName: complete ? 'big.bin' : undefined });
+                });
+            const onSuccess = vi.fn();
+            render(
+                <Uploader
+                    chunked
+                    chunkSize={4}
+                    maxChunkSize={16}
+                    concurrency={1}
+                    retry={{ baseDelay: 0 }}
+                    onSuccess={onSuccess}
+                />
+            );
+
+            const file = new File(['0123456789abcdef'], 'big.bin');
+            fireEvent.change(screen.getByTestId('file-input'), { target: { files: [file] } });
+            fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+            await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ file, fileName: 'big.bin' }));
+            // The session counts 4 byte chunks, every chunk may cover twice as many of them as the one before
+            expect(createUploadSession).toHaveBeenLastCalledWith(expect.objectContaining({ totalChunks: 4 }));
+            const chunks = vi
+                .mocked(uploadChunk)
+                .mock.calls.map(([formData]) => [formData.get('currentChunkIndex'), formData.get('chunkCount')]);
+            expect(chunks).toEqual([
+                ['0', '1'],
+                ['0', '1'],
+                ['1', '2'],
+                ['3', '1'],
+            ]);
+        });
     });
 });
@@ -1,23 +1,159 @@
-import React, { useRef, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 
 import FileList, { type FileListRef } from './FileList';
+import FilePreview, { type PreviewSource } from './FilePreview';
+import TokenPrompt from './TokenPrompt';
 import useChunkedUpload from './hooks/useChunkedUpload';
+import useObjectUrl from './hooks/useObjectUrl';
 import useUpload from './hooks/useUpload';
-import { type APIError } from './types';
+import useUploadPolicy from './hooks/useUploadPolicy';
+import useUsage from './hooks/useUsage';
+import { type APIError, type CollisionPolicy } from './types';
+import { collectDroppedFiles, getRelativePath, readFileText } from './utils/files';
+import { type RetryPolicy } from './utils/retry';
+import { isAuthError } from './utils/token';
+import { checkFiles, getAcceptAttribute, type RejectedFile } from './utils/uploadPolicy';
+import { type UploadItem, type UploadStatus } from './utils/uploadQueue';
 
 export type Props = {
     withList?: boolean;
     chunked?: boolean;
+    // Size of the first chunk, the next ones adapt to the throughput between `minChunkSize` and `maxChunkSize`
     chunkSize?: number;
-    onSuccess?: () => void;
-    onFail?: (error: unknown) => void;
+    minChunkSize?: number;
+    maxChunkSize?: number;
+    // How failed uploads are retried: network errors, server errors and rate limiting (honoring `Retry-After`)
+    retry?: Partial<RetryPolicy>;
+    // Number of files uploaded in parallel, or of chunks of a file for chunked uploads
+    concurrency?: number;
+    // Number of files uploaded in parallel by chunked uploads
+    fileConcurrency?: number;
+    // What the server does when a file with the same name exists, defaults to the server configuration
+    onConflict?: CollisionPolicy;
+    // Called once per file, as soon as the server stored it
+    onSuccess?: (result: UploadResult) => void;
+    // Called once per file that failed, the other files keep uploading
+    onFail?: (error: unknown, file: File) => void;
 };
 
-const CHUNK_SIZE = 1024 * 50; // 50 KB per chunk
+export type UploadResult = {
+    file: File;
+    // The name the server stored the file under
+    fileName: string;
+};
+
+const CHUNK_SIZE = 1024 * 50; // 50 KB for the first chunk
+
+// Not part of React's input attributes, it makes the file input pick a whole folder
+const FOLDER_INPUT_ATTRIBUTES = { webkitdirectory: '' };
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+    queued: 'Queued',
+    uploading: 'Uploading',
+    paused: 'Paused',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+// Picked files are read by the browser, nothing is sent before the upload
+const toPreviewSource = (file: File, url: string | null): PreviewSource => ({
+    name: getRelativePath(file),
+    mimeType: file.type,
+    size: file.size,
+    url,
+    readText: (maxBytes) => readFileText(file, maxBytes),
+    properties: [{ label: 'Modified', value: new Date(file.lastModified).toLocaleString() }],
+});
+
+const getErrorMessage = (error: unknown) =>
+    (error as Partial<APIError> | null)?.error ?? (error instanceof Error ? error.message : String(error));
+
+const UploadRows = ({
+    items,
+    onPause,
+    onResume,
+    onCancel,
+}: {
+    items: UploadItem[];
+    onPause: (id: string) => void;
+    onResume: (id: string) => void;
+    onCancel: (id: string) => void;
+}) => (
+    <ul className="text-sm text-gray-700 space-y-2 max-h-64 overflow-auto" aria-label="Uploads">
+        {items.map((item) => {
+            const name = getRelativePath(item.file);
+            const progress = Math.round((item.uploadedBytes / Math.max(1, item.file.size)) * 100);
+            return (
+                <li key={item.id} className="flex flex-col gap-y-1">
+                    <div className="flex items-center gap-x-2">
+                        <span className="truncate flex-1">📄 {name}</span>
+                        <span className="text-gray-500">{STATUS_LABELS[item.status]}</span>
+                        {item.status === 'queued' || item.status === 'uploading' ? (
+                            <button
+                                type="button"
+                                className="text-blue-700 hover:underline"
+                                aria-label={`Pause ${name}`}
+                                onClick={() => onPause(item.id)}
+                            >
+                                Pause
+                            </button>
+                        ) : null}
+                        {item.status === 'paused' || item.status === 'failed' ? (
+                            <button
+                                type="button"
+                                className="text-blue-700 hover:underline"
+                                aria-label={`${item.status === 'failed' ? 'Retry' : 'Resume'} ${name}`}
+                                onClick={() => onResume(item.id)}
+                            >
+                                {item.status === 'failed' ? 'Retry' : 'Resume'}
+                            </button>
+                        ) : null}
+                        {item.status === 'queued' || item.status === 'uploading' || item.status === 'paused' ? (
+                            <button
+                                type="button"
+                                className="text-red-600 hover:underline"
+                                aria-label={`Cancel ${name}`}
+                                onClick={() => onCancel(item.id)}
+                            >
+                                Cancel
+                            </button>
+                        ) : null}
+                    </div>
+                    <div
+                        className="h-2 bg-gray-200 rounded-full"
+                        role="progressbar"
+                        aria-label={`Progress of ${name}`}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={progress}
+                    >
+                        <div
+                            className="h-2 bg-blue-600 rounded-full transition-all"
+                            style={{ width: `${progress}%` }}
+                        />
+                    </div>
+                    {item.status === 'done' && item.fileName ? (
+                        <p className="text-gray-500 text-xs">✅ Stored as {item.fileName}</p>
+                    ) : null}
+                    {item.status === 'failed' ? (
+                        <p className="text-red-500 text-xs">{getErrorMessage(item.error)}</p>
+                    ) : null}
+                </li>
+            );
+        })}
+    </ul>
+);
 
 const Uploader = ({
     chunked = false,
     chunkSize = CHUNK_SIZE,
+    minChunkSize,
+    maxChunkSize,
+    retry,
+    concurrency,
+    fileConcurrency,
+    onConflict,
     withList = false,
     onSuccess = () => {},
     onFail = () => {},
@@ -26,63 +162,142 @@ const Uploader = ({
     const fileListRef = useRef<FileListRef>(null);
 
     const [files, setFiles] = useState<File[]>([]);
+    // Files the server's upload policy or quotas would refuse, they are left out of the upload
+    const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+    // The picked file shown in the preview drawer, until it is uploaded or other files are picked
+    const [previewFile, setPreviewFile] = useState<File | null>(null);
+    const shownPreviewFile = previewFile && files.includes(previewFile) ? previewFile : null;
+    const previewUrl = useObjectUrl(shownPreviewFile);
+    const previewSource = useMemo(
+        () => (shownPreviewFile ? toPreviewSource(shownPreviewFile, previewUrl) : null),
+        [shownPreviewFile, previewUrl]
+    );
+    const policy = useUploadPolicy();
+    const { usage, refetch: refetchUsage } = useUsage();
+    const availableBytes = usage?.availableBytes ?? null;
+
+    const selectFiles = (selectedFiles: File[]) => {
+        const { accepted, rejected } = checkFiles(policy, selectedFiles, availableBytes);
+        setFiles(accepted);
+        setRejectedFiles(rejected);
+    };
 
-    const { upload: startUpload, isUploading, error: uploadError } = useUpload(files);
+    const callbacks = {
+        onFileSuccess: (item: UploadItem) => {
+            fileListRef.current?.refetch();
+            refetchUsage();
+            onSuccess({ file: item.file, fileName: item.fileName ?? item.file.name });
+        },
+        onFileFail: (item: UploadItem) => onFail(item.error, item.file),
+    };
+    const singleUpload = useUpload(files, { onConflict, concurrency, retry, ...callbacks });
+    const chunkedUpload = useChunkedUpload({
+        files,
+        chunkSize,
+        minChunkSize,
+        maxChunkSize,
+        retry,
+        concurrency,
+        fileConcurrency,
+        onConflict,
+        ...callbacks,
+    });
+    const { chunksProgress } = chunkedUpload;
     const {
-        upload: startChunkedUpload,
-        isUploading: isUploadingChunks,
-        chunksProgress,
-        error: uploadChunksError,
-    } = useChunkedUpload({ files, chunkSize });
+        upload: startUpload,
+        items,
+        pause,
+        resume,
+        cancel,
+        isUploading,
+        error,
+    } = chunked ? chunkedUpload : singleUpload;
+
+    // Failed uploads can be retried once another token is entered
+    const authError = items.find((item) => item.status === 'failed' && isAuthError(item.error))?.error;
 
     const inputRef = useRef<HTMLInputElement | null>(null);
+    const folderInputRef = useRef<HTMLInputElement | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
 
     const onChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
-            setFiles(Array.from(e.target.files));
+            selectFiles(Array.from(e.target.files));
         }
     };
 
-    const onSubmit = async (e: React.FormEvent) => {
+    const onDragOver = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDragging(true);
+    };
+
+    const onDrop = (e: React.DragEvent) => {
         e.preventDefault();
+        setIsDragging(false);
 
-        try {
-            chunked ? await startChunkedUpload() : await startUpload();
-            setFiles([]);
-            fileListRef.current?.refetch();
-            onSuccess();
-        } catch (error) {
-            onFail(JSON.stringify(error));
-        }
+        // Taken before the drop event is over, when the browser empties the data transfer
+        const droppedFiles = Array.from(e.dataTransfer.files);
+        collectDroppedFiles(e.dataTransfer)
+            .then((files) => selectFiles(files))
+            // Reading a directory may fail, e.g. when it is not readable, so fall back to the plain dropped files
+            .catch(() => selectFiles(droppedFiles));
     };
 
-    const getError = () => {
-        const error = (uploadError || uploadChunksError) as APIError;
-        return error.error;
+    const onSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // The files are queued right away, so they can be picked again while uploading.
+        // Each file reports its own result through `onSuccess` and `onFail`.
+        const uploading = startUpload();
+        setFiles([]);
+        await uploading;
     };
 
     return (
         <>
             <form onSubmit={onSubmit} className="p-6 rounded-lg shadow border flex flex-col gap-y-4">
                 <h2 className="text-xl font-semibold text-center">
-                    {chunked ? 'Upload a file in chunks' : 'Upload files'}
+                    {chunked ? 'Upload files in chunks' : 'Upload files'}
                 </h2>
-                {isUploading || isUploadingChunks ? <p>Uploading files...</p> : null}
-                {uploadError || uploadChunksError ? <p className="text-red-500 text-sm">{getError()}</p> : null}
+                {authError ? <TokenPrompt error={authError} /> : null}
+                {availableBytes === null ? null : (
+                    <p className="text-sm text-gray-600 text-center" aria-label="Remaining quota">
+                        {availableBytes} bytes left of your storage quota
+                    </p>
+                )}
+                {isUploading ? <p>Uploading files...</p> : null}
+                {error ? <p className="text-red-500 text-sm">{getErrorMessage(error)}</p> : null}
+                {items.length > 0 ? (
+                    <UploadRows items={items} onPause={pause} onResume={resume} onCancel={cancel} />
+                ) : null}
+                {rejectedFiles.length > 0 ? (
+                    <ul className="text-sm text-red-500 space-y-1" aria-label="Rejected files">
+                        {rejectedFiles.map(({ file, reason }, index) => (
+                            <li key={`${getRelativePath(file)}-${index}`}>
+                                ⛔ {getRelativePath(file)}: {reason}
+                            </li>
+                        ))}
+                    </ul>
+                ) : null}
                 {!chunked ? (
                     <>
                         {/* Single/Multiple uploader */}
                         <button
                             type="button"
-                            className="p-4 flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            className={`p-4 flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500${isDragging ? ' border-blue-500 bg-blue-50' : ''}`}
                             // Accessibility: ensure the solution meets accessibility standards
                             aria-describedby="file-upload-description"
+                            data-testid="drop-zone"
                             onClick={() => {
                                 inputRef.current?.click();
                             }}
+                            onDragOver={onDragOver}
+                            onDragLeave={() => setIsDragging(false)}
+                            onDrop={onDrop}
                         >
                             <span id="file-upload-description" className="text-gray-600 text-sm">
-                                Click or tab to select files
+                                Click or tab to select files, or drop files and folders here
                             </span>
                             <input
                                 id="file-input"
@@ -91,25 +306,35 @@ const Uploader = ({
                                 type="file"
                                 className="hidden"
                                 multiple
+                                accept={getAcceptAttribute(policy)}
                                 onChange={onChange}
                             />
                         </button>
-
-                        {files.length > 0 ? (
-                            <ul className="text-sm text-gray-700 space-y-2 max-h-32 overflow-auto">
-                                {files.map((file, index) => (
-                                    <li key={`${file.name}-${index}`} className="truncate">
-                                        📄 {file.name}
-                                    </li>
-                                ))}
-                            </ul>
-                        ) : null}
+                        <button
+                            type="button"
+                            className="text-sm text-blue-700 hover:underline"
+                            onClick={() => {
+                                folderInputRef.current?.click();
+                            }}
+                        >
+                            Select a folder
+                        </button>
+                        <input
+                            data-testid="folder-input"
+                            ref={folderInputRef}
+                            type="file"
+                            className="hidden"
+                            {...FOLDER_INPUT_ATTRIBUTES}
+                            onChange={onChange}
+                        />
                     </>
                 ) : (
                     <>
-                        {/* Chunked single-file uploader */}
+                        {/* Chunked uploader, every file goes through its own sequence of chunks */}
                         <input
                             type="file"
+                            multiple
+                            accept={getAcceptAttribute(policy)}
                             onChange={onChange}
                             className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-md
                    file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700
@@ -119,10 +344,17 @@ const Uploader = ({
                             data-testid="file-input"
                         />
                         <span id="file-upload" className="sr-only">
-                            Click to select a file
+                            Click to select files
                         </span>
                         <div className="mt-4">
-                            <div className="h-3 bg-gray-200 rounded-full">
+                            <div
+                                className="h-3 bg-gray-200 rounded-full"
+                                role="progressbar"
+                                aria-label="Total progress"
+                                aria-valuemin={0}
+                                aria-valuemax={100}
+                                aria-valuenow={chunksProgress}
+                            >
                                 <div
                                     className="h-3 bg-blue-600 rounded-full transition-all"
                                     style={{ width: `${chunksProgress}%` }}
@@ -132,6 +364,24 @@ const Uploader = ({
                         </div>
                     </>
                 )}
+                {files.length > 0 ? (
+                    <ul className="text-sm text-gray-700 space-y-2 max-h-32 overflow-auto" aria-label="Selected files">
+                        {files.map((file, index) => (
+                            <li key={`${getRelativePath(file)}-${index}`} className="flex items-center gap-x-2">
+                                <span className="truncate flex-1">📄 {getRelativePath(file)}</span>
+                                <button
+                                    type="button"
+                                    className="text-blue-700 hover:underline"
+                                    aria-label={`Preview ${getRelativePath(file)}`}
+                                    aria-pressed={shownPreviewFile === file}
+                                    onClick={() => setPreviewFile(shownPreviewFile === file ? null : file)}
+                                >
+                                    Preview
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : null}
                 <button
                     type="submit"
                     className="w-full bg-blue-600 text-white font-medium py-2 rounded-lg hover:bg-blue-700 transition disabled:cursor-not-allowed disabled:bg-blue-400"
@@ -140,6 +390,7 @@ const Uploader = ({
                     Upload
                 </button>
             </form>
+            {previewSource ? <FilePreview source={previewSource} onClose={() => setPreviewFile(null)} /> : null}
             {withList ? <FileList ref={fileListRef} /> : null}
         </>
     );
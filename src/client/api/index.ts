@@ -1,14 +1,78 @@
 import {
+    configResponseSchema,
+    createUploadSessionInputSchema,
     fetchResponseSchema,
+    serverEventSchema,
+    shareLinkSchema,
+    shareLinksResponseSchema,
+    signedUrlsResponseSchema,
     uploadChunkInputSchema,
+    uploadChunkResponseSchema,
+    uploadResponseSchema,
+    uploadSessionSchema,
     uploadSingleInputSchema,
+    usageResponseSchema,
+    BLOB_NOT_FOUND,
+    SERVER_EVENT_TYPES,
+    type APIError,
+    type CollisionPolicy,
+    type ConfigResponse,
+    type CreateUploadSessionInput,
+    type FetchFilesQuery,
     type FetchFilesResponse,
+    type ServerEvent,
+    type ShareLink,
+    type SignedUrlsResponse,
+    type UploadChunkResponse,
+    type UploadResponse,
+    type UploadSession,
+    type UsageResponse,
 } from '../types';
+import { sha256, WHOLE_FILE_CHECKSUM_LIMIT } from '../utils/sha256';
+import { getAuthHeaders, getToken } from '../utils/token';
 
-export const fetchFiles = async (): Promise<FetchFilesResponse> => {
-    const res = await fetch('/api/files');
+// `Retry-After` holds either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = /^\d+$/.test(value.trim()) ? Number(value) : (Date.parse(value) - Date.now()) / 1000;
+    return Number.isNaN(seconds) ? undefined : Math.max(0, seconds);
+};
+
+const toAPIError = async (res: Response): Promise<APIError> => {
+    const retryAfter = parseRetryAfter(res.headers.get('Retry-After'));
+    const details = { status: res.status, ...(retryAfter === undefined ? {} : { retryAfter }) };
+    try {
+        const data = (await res.json()) as Partial<APIError>;
+        if (typeof data.error === 'string') {
+            return typeof data.code === 'string'
+                ? { error: data.error, code: data.code, ...details }
+                : { error: data.error, ...details };
+        }
+    } catch {
+        // The body is not JSON, fall back to the status line below
+    }
+
+    return { error: `${res.status} ${res.statusText}`, ...details };
+};
+
+// Every request carries the API token, when one was entered
+const apiFetch = (url: string, init: RequestInit = {}) =>
+    fetch(url, { ...init, headers: { ...getAuthHeaders(), ...(init.headers as Record<string, string> | undefined) } });
+
+export const fetchFiles = async (query: FetchFilesQuery = {}): Promise<FetchFilesResponse> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== '') {
+            params.set(key, String(value));
+        }
+    }
+
+    const search = params.toString();
+    const res = await apiFetch(search ? `/api/files?${search}` : '/api/files');
     if (!res.ok) {
-        throw new Error(`Failed to fetch files: ${res.status} ${res.statusText}`);
+        throw await toAPIError(res);
     }
 
     const data: unknown = await res.json();
@@ -21,27 +85,440 @@ export const fetchFiles = async (): Promise<FetchFilesResponse> => {
     return parsed.data;
 };
 
-export const uploadSingle = async (file: File): Promise<Response> => {
+// Links to files need a signature when a token was entered, see `signUrls`
+export const getFileUrl = (name: string, { download = false }: { download?: boolean } = {}) =>
+    `/api/files/${encodeURIComponent(name)}${download ? '?download' : ''}`;
+
+// The first `maxBytes` of a file as text, to preview it without downloading all of it
+export const fetchFileText = async (name: string, maxBytes: number) => {
+    const res = await apiFetch(`/api/files/${encodeURIComponent(name)}`, {
+        headers: { Range: `bytes=0-${maxBytes - 1}` },
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+    return res.text();
+};
+
+export const getFileVersionUrl = (name: string, version: number, { download = false }: { download?: boolean } = {}) =>
+    `/api/files/${encodeURIComponent(name)}/versions/${version}${download ? '?download' : ''}`;
+
+// The restored content becomes a new version, the current one is kept as well
+export const restoreFileVersion = async (name: string, version: number) => {
+    const res = await apiFetch(`/api/files/${encodeURIComponent(name)}/versions/${version}/restore`, {
+        method: 'POST',
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+};
+
+// A ZIP archive of a whole directory, without one the selected files are posted to it as `files`
+export const getArchiveUrl = ({ dir }: { dir?: string } = {}) =>
+    `/api/archive${dir ? `?dir=${encodeURIComponent(dir)}` : ''}`;
+
+export const deleteFile = async (name: string) => {
+    const res = await apiFetch(`/api/files/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+};
+
+export const renameFile = async (name: string, newName: string) => {
+    const res = await apiFetch(`/api/files/${encodeURIComponent(name)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+};
+
+export const copyFile = async (name: string, newName: string) => {
+    const res = await apiFetch(`/api/files/${encodeURIComponent(name)}/copy`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+};
+
+// The link expires after `expiresIn` seconds, or once downloaded `maxDownloads` times
+export const createShareLink = async (
+    name: string,
+    { expiresIn, maxDownloads = null }: { expiresIn: number; maxDownloads?: number | null }
+): Promise<ShareLink> => {
+    const res = await apiFetch(`/api/files/${encodeURIComponent(name)}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresIn, maxDownloads }),
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = shareLinkSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+// The links of a file that did not expire yet, oldest first
+export const fetchShareLinks = async (name: string): Promise<ShareLink[]> => {
+    const res = await apiFetch(`/api/shares?file=${encodeURIComponent(name)}`);
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = shareLinksResponseSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data.shares;
+};
+
+export const revokeShareLink = async (id: string) => {
+    const res = await apiFetch(`/api/shares/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+};
+
+// `fetch` cannot report the progress of a request body, so uploads reporting progress go through XHR
+const postWithProgress = (
+    url: string,
+    body: FormData,
+    { signal, onProgress }: { signal?: AbortSignal; onProgress?: (loaded: number, total: number) => void }
+) =>
+    new Promise<Response>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        const onAbort = () => xhr.abort();
+
+        xhr.upload.addEventListener('progress', (event) => {
+            if (event.lengthComputable) {
+                onProgress?.(event.loaded, event.total);
+            }
+        });
+        xhr.addEventListener('load', () => {
+            signal?.removeEventListener('abort', onAbort);
+            const retryAfter = xhr.getResponseHeader('Retry-After');
+            resolve(
+                new Response(xhr.responseText, {
+                    status: xhr.status,
+                    statusText: xhr.statusText,
+                    headers: {
+                        'Content-Type': xhr.getResponseHeader('Content-Type') ?? 'text/plain',
+                        ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+                    },
+                })
+            );
+        });
+        // The same errors `fetch` rejects with
+        xhr.addEventListener('error', () => reject(new TypeError('Network request failed')));
+        xhr.addEventListener('abort', () => reject(new DOMException('The upload was aborted', 'AbortError')));
+
+        if (signal?.aborted) {
+            reject(new DOMException('The upload was aborted', 'AbortError'));
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        xhr.open('POST', url);
+        for (const [name, value] of Object.entries(getAuthHeaders())) {
+            xhr.setRequestHeader(name, value);
+        }
+        xhr.send(body);
+    });
+
+/**
+ * Adds the file by its digest alone, when the server stores the same content already.
+ * Resolves with `null` when it does not, the file has to be uploaded then.
+ */
+export const uploadByHash = async (
+    file: File,
+    checksum: string,
+    { onConflict, signal }: { onConflict?: CollisionPolicy; signal?: AbortSignal } = {}
+): Promise<UploadResponse | null> => {
+    const res = await apiFetch('/api/upload-by-hash', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            sha256: checksum,
+            fileName: file.name,
+            relativePath: file.webkitRelativePath || undefined,
+            onConflict,
+        }),
+        signal,
+    });
+    if (!res.ok) {
+        const error = await toAPIError(res);
+        if (error.code === BLOB_NOT_FOUND) {
+            return null;
+        }
+        throw error;
+    }
+
+    const parsed = uploadResponseSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+export const uploadSingle = async (
+    file: File,
+    {
+        onConflict,
+        signal,
+        onProgress,
+    }: {
+        onConflict?: CollisionPolicy;
+        signal?: AbortSignal;
+        // Receives the number of bytes of the file sent so far
+        onProgress?: (uploadedBytes: number) => void;
+    } = {}
+): Promise<UploadResponse> => {
     const parsed = uploadSingleInputSchema.safeParse(file);
     if (!parsed.success) {
         throw new Error('Failed parsing');
     }
 
+    // Files too big to hold in memory are sent without looking them up or verifying them
+    const checksum = file.size <= WHOLE_FILE_CHECKSUM_LIMIT ? await sha256(file) : undefined;
+    // Nothing is sent when the server stores the same content already
+    const existing = checksum ? await uploadByHash(file, checksum, { onConflict, signal }) : null;
+    if (existing) {
+        onProgress?.(file.size);
+        return existing;
+    }
+
     const body = new FormData();
+    if (checksum) {
+        body.append('checksum', checksum);
+    }
+    if (onConflict) {
+        body.append('onConflict', onConflict);
+    }
+    // Keeps the directories of files picked or dropped within a folder
+    if (file.webkitRelativePath) {
+        body.append('relativePath', file.webkitRelativePath);
+    }
     body.append('file', file);
-    return fetch('/api/upload-single', {
-        method: 'POST',
-        body,
+    const res = await postWithProgress('/api/upload-single', body, {
+        signal,
+        // The request also carries the other form fields, so its size is a bit bigger than the file's
+        onProgress: (loaded, total) => onProgress?.(Math.min(file.size, Math.round((loaded / total) * file.size))),
     });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsedResponse = uploadResponseSchema.safeParse(await res.json());
+    if (!parsedResponse.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsedResponse.data;
 };
 
-export const uploadChunk = async (body: FormData) => {
+export const uploadChunk = async (
+    body: FormData,
+    { signal }: { signal?: AbortSignal } = {}
+): Promise<UploadChunkResponse> => {
     const parsed = uploadChunkInputSchema.safeParse(body);
     if (!parsed.success) {
         throw new Error('Failed parsing');
     }
-    return fetch('/api/upload-chunk', {
+    const res = await apiFetch('/api/upload-chunk', {
         method: 'POST',
         body,
+        signal,
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsedResponse = uploadChunkResponseSchema.safeParse(await res.json());
+    if (!parsedResponse.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsedResponse.data;
+};
+
+export const createUploadSession = async (input: CreateUploadSessionInput): Promise<UploadSession> => {
+    const parsedInput = createUploadSessionInputSchema.safeParse(input);
+    if (!parsedInput.success) {
+        throw new Error('Failed parsing');
+    }
+
+    const res = await apiFetch('/api/upload-sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parsedInput.data),
+    });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = uploadSessionSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+// Resolves with `null` when the server does not know the session (anymore), e.g. because it was already merged
+export const fetchUploadSession = async (uploadId: string): Promise<UploadSession | null> => {
+    const res = await apiFetch(`/api/upload-sessions/${encodeURIComponent(uploadId)}`);
+    if (res.status === 404) {
+        return null;
+    }
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = uploadSessionSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+export const fetchConfig = async (): Promise<ConfigResponse> => {
+    const res = await apiFetch('/api/config');
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = configResponseSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+export const fetchUsage = async (): Promise<UsageResponse> => {
+    const res = await apiFetch('/api/usage');
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = usageResponseSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+/**
+ * Links, media, forms and `EventSource` cannot send the token along, they use URLs signed by the server for a while
+ * instead. `method` is `POST` for forms. Without a token the URLs are used as they are.
+ */
+export const signUrls = async (
+    urls: string[],
+    { method = 'GET' }: { method?: 'GET' | 'POST' } = {}
+): Promise<SignedUrlsResponse> => {
+    if (!getToken() || urls.length === 0) {
+        return { urls, expiresAt: null };
+    }
+
+    const res = await apiFetch('/api/signed-urls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls, method }),
     });
+    if (!res.ok) {
+        throw await toAPIError(res);
+    }
+
+    const parsed = signedUrlsResponseSchema.safeParse(await res.json());
+    if (!parsed.success) {
+        throw new Error('Failed parsing');
+    }
+
+    return parsed.data;
+};
+
+// How long to wait before connecting again when the browser gave up on the event stream, in milliseconds
+const EVENTS_RETRY_DELAY = 5000;
+
+/**
+ * Subscribes to the events of `GET /api/events`, returns a function to unsubscribe.
+ * Browsers reconnect on their own with `Last-Event-ID` after a drop. When they give up, e.g. because the server
+ * responded with an error, a new connection is opened after a while, continuing from the last received event.
+ */
+export const subscribeToEvents = (onEvent: (event: ServerEvent) => void) => {
+    let source: EventSource | undefined;
+    let lastEventId: string | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let isUnsubscribed = false;
+
+    const onMessage = (message: MessageEvent<string>) => {
+        if (message.lastEventId) {
+            lastEventId = message.lastEventId;
+        }
+
+        let data: unknown;
+        try {
+            data = JSON.parse(message.data);
+        } catch {
+            return;
+        }
+        const parsed = serverEventSchema.safeParse({ type: message.type, data });
+        if (parsed.success) {
+            onEvent(parsed.data);
+        }
+    };
+
+    const retry = () => {
+        if (!isUnsubscribed) {
+            timer = setTimeout(connect, EVENTS_RETRY_DELAY);
+        }
+    };
+
+    const open = (url: string) => {
+        source = new EventSource(url);
+        for (const type of SERVER_EVENT_TYPES) {
+            source.addEventListener(type, onMessage);
+        }
+        source.addEventListener('error', () => {
+            if (source?.readyState === EventSource.CLOSED) {
+                retry();
+            }
+        });
+    };
+
+    // Every connection gets a new signature, the one of the last connection may have expired
+    const connect = () => {
+        const url = lastEventId ? `/api/events?lastEventId=${encodeURIComponent(lastEventId)}` : '/api/events';
+        if (!getToken()) {
+            open(url);
+            return;
+        }
+        signUrls([url])
+            .then(({ urls: [signed] }) => {
+                if (!isUnsubscribed) {
+                    open(signed);
+                }
+            })
+            .catch(retry);
+    };
+
+    connect();
+    return () => {
+        isUnsubscribed = true;
+        clearTimeout(timer);
+        source?.close();
+    };
 };
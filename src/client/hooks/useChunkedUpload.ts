@@ -1,48 +1,263 @@
-import { useCallback, useState } from 'react';
-
-import { uploadChunk } from '../api';
-
-const useChunkedUpload = ({ files, chunkSize }: { files: File[]; chunkSize: number }) => {
-    const [isUploading, setIsUploading] = useState(false);
-    const [error, setError] = useState<unknown>();
-
-    // Following along with the chunk progress state
-    const [chunksProgress, setChunksProgress] = useState(0);
-
-    const chunkedUpload = useCallback(async () => {
-        if (files.length > 0) {
-            setIsUploading(true);
-            const file = files[0];
-            // Calculate number of chunks based on chunkSize
-            const totalChunks = Math.ceil(file.size / chunkSize);
-
-            for (let i = 0; i < totalChunks; i++) {
-                const start = i * chunkSize;
-                const end = Math.min(file.size, start + chunkSize);
-                // Slice a file in chunks of CHUNK_SIZE size
-                const chunk = file.slice(start, end);
-
-                const formData = new FormData();
-                formData.append('file', chunk, file.name);
-                formData.append('currentChunkIndex', i.toString());
-                formData.append('totalChunks', totalChunks.toString());
-
-                try {
-                    await uploadChunk(formData);
-                    // Update progress
-                    setChunksProgress(Math.round(((i + 1) / totalChunks) * 100));
-                } catch (error) {
-                    setError(error);
-                    // Exit immediately if one chunk is in error
-                    break;
-                } finally {
-                    setIsUploading(false);
+import { useCallback } from 'react';
+
+import { createUploadSession, fetchUploadSession, uploadByHash, uploadChunk } from '../api';
+import { CHECKSUM_MISMATCH, type APIError, type CollisionPolicy, type UploadSession } from '../types';
+import { createChunkSizer } from '../utils/chunkSize';
+import { getRelativePath } from '../utils/files';
+import { DEFAULT_RETRY_POLICY, isTransientError, withRetry, type RetryPolicy } from '../utils/retry';
+import { sha256, WHOLE_FILE_CHECKSUM_LIMIT } from '../utils/sha256';
+import { type UploadFile } from '../utils/uploadQueue';
+
+import useUploadQueue, { type UploadQueueOptions } from './useUploadQueue';
+
+// The same file picked again (e.g. after a reload) maps to the same key, so its upload session can be resumed
+const getSessionStorageKey = (file: File, chunkSize: number) =>
+    `chunked-upload:${getRelativePath(file)}:${file.size}:${file.lastModified}:${chunkSize}`;
+
+const isChecksumMismatch = (error: unknown) => (error as Partial<APIError> | null)?.code === CHECKSUM_MISMATCH;
+
+// The server dropped a chunk that got corrupted on the way, it is sent again just like after a transient failure
+const isRetryableChunkError = (error: unknown) => isChecksumMismatch(error) || isTransientError(error);
+
+// Resolves with `null` when there is no session to resume, or the server does not know it (anymore)
+const resumeSession = async (
+    totalChunks: number,
+    storageKey: string,
+    { retry, signal }: { retry: RetryPolicy; signal: AbortSignal }
+): Promise<UploadSession | null> => {
+    const storedUploadId = localStorage.getItem(storageKey);
+    if (!storedUploadId) {
+        return null;
+    }
+    const session = await withRetry(() => fetchUploadSession(storedUploadId), { policy: retry, signal });
+    return session && session.totalChunks === totalChunks ? session : null;
+};
+
+const createSession = async (
+    file: File,
+    totalChunks: number,
+    storageKey: string,
+    {
+        checksum,
+        onConflict,
+        retry,
+        signal,
+    }: { checksum?: string; onConflict?: CollisionPolicy; retry: RetryPolicy; signal: AbortSignal }
+): Promise<UploadSession> => {
+    const session = await withRetry(
+        () =>
+            createUploadSession({
+                fileName: file.name,
+                relativePath: file.webkitRelativePath || undefined,
+                totalChunks,
+                size: file.size,
+                checksum,
+                onConflict,
+            }),
+        { policy: retry, signal }
+    );
+    localStorage.setItem(storageKey, session.uploadId);
+    return session;
+};
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MIN_CHUNK_SIZE = 1024 * 50; // 50 KB
+const DEFAULT_MAX_CHUNK_SIZE = 1024 * 1024 * 8; // 8 MB
+
+/**
+ * Uploads the chunks the server is missing, `concurrency` of them in parallel. Resolves with the name the file was stored under.
+ * The session splits the file into chunk indexes of `minChunkSize` bytes, a chunk covers as many consecutive indexes
+ * as the measured throughput allows, up to `maxChunkSize`. Failed chunks are retried following `retry`.
+ * A paused upload keeps its session to resume later on, a cancelled one forgets it.
+ */
+const uploadChunkedFile = async (
+    file: File,
+    {
+        chunkSize,
+        minChunkSize,
+        maxChunkSize,
+        concurrency,
+        retry,
+        onConflict,
+        signal,
+        onProgress,
+    }: {
+        chunkSize: number;
+        minChunkSize: number;
+        maxChunkSize: number;
+        concurrency: number;
+        retry: RetryPolicy;
+        onConflict?: CollisionPolicy;
+        signal: AbortSignal;
+        onProgress: (uploadedBytes: number) => void;
+    }
+) => {
+    // The session counts chunks of the smallest size, bigger chunks cover several of them
+    const totalChunks = Math.max(1, Math.ceil(file.size / minChunkSize));
+    const storageKey = getSessionStorageKey(file, minChunkSize);
+    const getChunkStart = (i: number) => Math.min(file.size, i * minChunkSize);
+
+    const resumed = await resumeSession(totalChunks, storageKey, { retry, signal });
+    // The whole-file digest is skipped for files too big to hold in memory
+    const checksum = !resumed && file.size <= WHOLE_FILE_CHECKSUM_LIMIT ? await sha256(file) : undefined;
+    if (checksum) {
+        // No chunk is sent when the server stores the same content already
+        const existing = await withRetry(() => uploadByHash(file, checksum, { onConflict, signal }), {
+            policy: retry,
+            signal,
+        });
+        if (existing) {
+            onProgress(file.size);
+            return existing.fileName;
+        }
+    }
+    const session =
+        resumed ?? (await createSession(file, totalChunks, storageKey, { checksum, onConflict, retry, signal }));
+    // Skip the chunks the server already stored in a previous attempt
+    const receivedChunks = new Set(session.receivedChunks);
+    let uploadedBytes = [...receivedChunks].reduce((bytes, i) => bytes + getChunkStart(i + 1) - getChunkStart(i), 0);
+    onProgress(uploadedBytes);
+
+    const pendingChunks: number[] = [];
+    for (let i = 0; i < totalChunks; i++) {
+        if (!receivedChunks.has(i)) {
+            pendingChunks.push(i);
+        }
+    }
+
+    const sizer = createChunkSizer({ initialSize: chunkSize, minSize: minChunkSize, maxSize: maxChunkSize });
+    // Takes the next pending index along with the pending indexes right after it, as many as the next chunk can hold
+    const takeNextChunk = () => {
+        const index = pendingChunks.shift();
+        if (index === undefined) {
+            return undefined;
+        }
+        let count = 1;
+        while (count < sizer.getUnits() && pendingChunks[0] === index + count) {
+            pendingChunks.shift();
+            count++;
+        }
+        return { index, count };
+    };
+
+    let storedFileName: string | undefined;
+    let failed = false;
+    const uploadNextChunks = async () => {
+        // Each worker pulls the next pending chunk until none are left, another worker failed or the upload was stopped
+        let next = takeNextChunk();
+        while (next && !failed && !signal.aborted) {
+            const { index, count } = next;
+            const chunk = file.slice(getChunkStart(index), getChunkStart(index + count));
+
+            const formData = new FormData();
+            formData.append('file', chunk, file.name);
+            formData.append('currentChunkIndex', index.toString());
+            formData.append('chunkCount', count.toString());
+            formData.append('totalChunks', totalChunks.toString());
+            formData.append('uploadId', session.uploadId);
+
+            try {
+                formData.append('checksum', await sha256(chunk));
+                const startedAt = Date.now();
+                const response = await withRetry(() => uploadChunk(formData, { signal }), {
+                    policy: retry,
+                    signal,
+                    isRetryable: isRetryableChunkError,
+                });
+                sizer.record(chunk.size, Date.now() - startedAt);
+                if (response.complete && response.fileName) {
+                    storedFileName = response.fileName;
                 }
+            } catch (error) {
+                failed = true;
+                throw error;
             }
+            uploadedBytes += chunk.size;
+            onProgress(uploadedBytes);
+            next = takeNextChunk();
+        }
+    };
+
+    try {
+        const workers = Array.from({ length: Math.max(1, Math.min(concurrency, pendingChunks.length)) }, () =>
+            uploadNextChunks()
+        );
+        // Wait for in-flight chunks to settle before reporting, so no request outlives the upload
+        const results = await Promise.allSettled(workers);
+        if (signal.aborted) {
+            throw new DOMException('The upload was aborted', 'AbortError');
         }
-    }, [chunkSize, files]);
+        const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (rejected) {
+            throw rejected.reason;
+        }
+    } catch (error) {
+        // A failed or paused upload keeps its session, to be resumed later on
+        if (signal.reason === 'cancelled') {
+            localStorage.removeItem(storageKey);
+        }
+        throw error;
+    }
+
+    localStorage.removeItem(storageKey);
+    return storedFileName ?? session.fileName;
+};
+
+// Chunked files are big, uploading a couple of them at once already keeps the connection busy
+const DEFAULT_FILE_CONCURRENCY = 2;
+
+const useChunkedUpload = ({
+    files,
+    chunkSize,
+    minChunkSize = Math.min(chunkSize, DEFAULT_MIN_CHUNK_SIZE),
+    maxChunkSize = Math.max(chunkSize, DEFAULT_MAX_CHUNK_SIZE),
+    concurrency = DEFAULT_CONCURRENCY,
+    fileConcurrency = DEFAULT_FILE_CONCURRENCY,
+    retry,
+    onConflict,
+    ...options
+}: {
+    files: File[];
+    // Size of the first chunk, the next ones follow the throughput between `minChunkSize` and `maxChunkSize`
+    chunkSize: number;
+    minChunkSize?: number;
+    maxChunkSize?: number;
+    // Number of chunks of a file uploaded in parallel
+    concurrency?: number;
+    // Number of files uploaded in parallel, each through its own sequence of chunks
+    fileConcurrency?: number;
+    // How failed requests are retried, missing settings fall back to `DEFAULT_RETRY_POLICY`
+    retry?: Partial<RetryPolicy>;
+    onConflict?: CollisionPolicy;
+} & Omit<UploadQueueOptions, 'concurrency'>) => {
+    const { maxAttempts, baseDelay, maxDelay } = { ...DEFAULT_RETRY_POLICY, ...retry };
+    const uploadFile = useCallback<UploadFile>(
+        (file, { signal, onProgress }) =>
+            uploadChunkedFile(file, {
+                chunkSize,
+                minChunkSize,
+                maxChunkSize,
+                concurrency,
+                retry: { maxAttempts, baseDelay, maxDelay },
+                onConflict,
+                signal,
+                onProgress,
+            }),
+        [chunkSize, minChunkSize, maxChunkSize, concurrency, maxAttempts, baseDelay, maxDelay, onConflict]
+    );
+    const {
+        upload: enqueue,
+        progress,
+        ...queue
+    } = useUploadQueue(uploadFile, {
+        ...options,
+        concurrency: fileConcurrency,
+    });
+
+    const chunkedUpload = useCallback(() => enqueue(files), [enqueue, files]);
 
-    return { error, isUploading, upload: chunkedUpload, chunksProgress };
+    // Progress of all the files together, each file reports its own `uploadedBytes`
+    return { upload: chunkedUpload, chunksProgress: progress, ...queue };
 };
 
 export default useChunkedUpload;
@@ -0,0 +1,166 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { fetchFiles } from '../api';
+import { type FileMetadata } from '../types';
+import { setToken } from '../utils/token';
+
+import useFetchFiles from './useFetchFiles';
+
+vi.mock('../api', async (importOriginal) => ({
+    ...(await importOriginal<Record<string, unknown>>()),
+    fetchFiles: vi.fn(),
+}));
+
+// Just enough of `EventSource` to send events from the tests
+class FakeEventSource extends EventTarget {
+    static readonly CLOSED = 2;
+    static instances: FakeEventSource[] = [];
+
+    readyState = 1;
+
+    constructor(readonly url: string) {
+        super();
+        FakeEventSource.instances.push(this);
+    }
+
+    emit(type: string, data: unknown, lastEventId = '') {
+        act(() => {
+            this.dispatchEvent(new MessageEvent(type, { data: JSON.stringify(data), lastEventId }));
+        });
+    }
+
+    fail() {
+        this.readyState = FakeEventSource.CLOSED;
+        this.dispatchEvent(new Event('error'));
+    }
+
+    close() {
+        this.readyState = FakeEventSource.CLOSED;
+    }
+}
+
+const createFile = (name: string): FileMetadata => ({
+    name,
+    size: 10,
+    mimeType: 'text/plain',
+    uploadedAt: '2024-01-01T12:00:00.000Z',
+    originalName: name,
+    tags: [],
+    description: '',
+    version: 1,
+    previousVersions: [],
+});
+
+const page = (files: FileMetadata[]) => ({ files, directories: [], total: files.length, offset: 0, limit: 20 });
+
+const getSource = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+describe('useFetchFiles', () => {
+    beforeEach(() => {
+        FakeEventSource.instances = [];
+        vi.stubGlobal('EventSource', FakeEventSource);
+        vi.mocked(fetchFiles)
+            .mockReset()
+            .mockResolvedValue(page([createFile('b.txt')]));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    test('applies file events to the listed page', async () => {
+        const { result } = renderHook(() => useFetchFiles(null));
+        await waitFor(() => expect(result.current.data.total).toBe(1));
+
+        getSource().emit('file-added', { file: createFile('a.txt') });
+        getSource().emit('file-renamed', { from: 'b.txt', file: createFile('c.txt') });
+        expect(result.current.data.files.map((file) => file.name)).toEqual(['a.txt', 'c.txt']);
+
+        getSource().emit('file-deleted', { name: 'a.txt' });
+        expect(result.current.data.files.map((file) => file.name)).toEqual(['c.txt']);
+        expect(result.current.data.total).toBe(1);
+        expect(fetchFiles).toHaveBeenCalledTimes(1);
+    });
+
+    test('fetches the usage again after applying file events', async () => {
+        vi.mocked(fetchFiles).mockResolvedValue({
+            ...page([createFile('b.txt')]),
+            usage: { logicalSize: 10, diskUsage: 10 },
+        });
+        const { result } = renderHook(() => useFetchFiles(null));
+        await waitFor(() => expect(result.current.data.total).toBe(1));
+
+        vi.mocked(fetchFiles).mockResolvedValue({ ...page([]), usage: { logicalSize: 0, diskUsage: 0 } });
+        getSource().emit('file-deleted', { name: 'b.txt' });
+        expect(result.current.data.total).toBe(0);
+
+        await waitFor(() => expect(result.current.data.usage).toEqual({ logicalSize: 0, diskUsage: 0 }));
+        expect(fetchFiles).toHaveBeenCalledTimes(2);
+    });
+
+    test('fetches again when the page cannot tell the result', async () => {
+        const { result } = renderHook(() => useFetchFiles(null));
+        await waitFor(() => expect(result.current.data.total).toBe(1));
+
+        vi.mocked(fetchFiles).mockResolvedValue(page([]));
+        // The directory may be gone along with its last file
+        getSource().emit('file-deleted', { name: 'photos/beach.jpg' });
+
+        await waitFor(() => expect(fetchFiles).toHaveBeenCalledTimes(2));
+        await waitFor(() => expect(result.current.data.total).toBe(0));
+    });
+
+    test('tracks the chunked uploads in progress', async () => {
+        const { result } = renderHook(() => useFetchFiles(null));
+        await waitFor(() => expect(result.current.data.total).toBe(1));
+
+        const progress = { uploadId: 'upload-1', fileName: 'big.bin', receivedChunks: 1, totalChunks: 4 };
+        getSource().emit('upload-progress', progress);
+        getSource().emit('upload-progress', { ...progress, receivedChunks: 2 });
+        expect(result.current.uploads).toEqual([{ ...progress, receivedChunks: 2 }]);
+
+        getSource().emit('upload-ended', { uploadId: 'upload-1' });
+        expect(result.current.uploads).toEqual([]);
+    });
+
+    test('reconnects with the last event id when the browser gave up', async () => {
+        vi.useFakeTimers();
+        try {
+            const { unmount } = renderHook(() => useFetchFiles(null));
+            expect(getSource().url).toBe('/api/events');
+
+            getSource().emit('connected', {}, 'server:41');
+            getSource().fail();
+            await act(() => vi.advanceTimersByTimeAsync(5000));
+            expect(FakeEventSource.instances).toHaveLength(2);
+            expect(getSource().url).toBe('/api/events?lastEventId=server%3A41');
+
+            unmount();
+            expect(getSource().readyState).toBe(FakeEventSource.CLOSED);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    test('connects to a signed URL once a token was entered', async () => {
+        const signed = { urls: ['/api/events?signature=signed'], expiresAt: new Date().toISOString() };
+        const fetchSpy = vi.fn().mockResolvedValue(new Response(JSON.stringify(signed)));
+        vi.stubGlobal('fetch', fetchSpy);
+        setToken('secret-token');
+        try {
+            renderHook(() => useFetchFiles(null));
+
+            await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+            expect(getSource().url).toBe('/api/events?signature=signed');
+            expect(fetchSpy).toHaveBeenCalledWith(
+                '/api/signed-urls',
+                expect.objectContaining({
+                    headers: expect.objectContaining({ Authorization: 'Bearer secret-token' }) as unknown,
+                })
+            );
+        } finally {
+            setToken(null);
+        }
+    });
+});
@@ -1,34 +1,127 @@
-import { useCallback, useEffect, useImperativeHandle, useState } from 'react';
+import { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
 
 import { type FileListRef } from '../FileList';
-import { fetchFiles } from '../api';
-import { type FetchFilesResponse } from '../types';
+import { fetchFiles, subscribeToEvents } from '../api';
+import { type FetchFilesQuery, type FetchFilesResponse, type UploadProgress } from '../types';
+import { applyFileEvent, isFileEvent } from '../utils/fileEvents';
+
+import useToken from './useToken';
+
+export const PAGE_SIZE = 20;
+
+// Events that cannot be applied to the page are often followed by more, e.g. when a folder is uploaded
+const REFETCH_DELAY = 300;
 
 const useFetchFiles = (ref: React.ForwardedRef<FileListRef>) => {
-    const [data, setData] = useState<FetchFilesResponse>({ files: [] });
+    const [query, setQuery] = useState<FetchFilesQuery>({ sort: 'name', order: 'asc', offset: 0, limit: PAGE_SIZE });
+    const [data, setData] = useState<FetchFilesResponse>({
+        files: [],
+        directories: [],
+        total: 0,
+        offset: 0,
+        limit: PAGE_SIZE,
+    });
     const [isFetching, setIsFetching] = useState(false);
     const [error, setError] = useState<unknown>(null);
+    // Chunked uploads in progress, from this or any other client
+    const [uploads, setUploads] = useState<UploadProgress[]>([]);
+    // Another token may see other files
+    const token = useToken();
+
+    // Events are applied to the latest data, even when several arrive before the next render
+    const dataRef = useRef(data);
+    const updateData = useCallback((next: FetchFilesResponse) => {
+        dataRef.current = next;
+        setData(next);
+    }, []);
 
     const fetch = useCallback(() => {
         setIsFetching(true);
 
-        fetchFiles()
-            .then((resp) => setData(resp))
+        fetchFiles(query)
+            .then((resp) => {
+                updateData(resp);
+                setError(null);
+            })
             .catch((error) => setError(error))
             .finally(() => setIsFetching(false));
-    }, []);
+    }, [query, updateData]);
 
-    // fetch data when component mounts
+    // fetch data when component mounts and whenever the query or the token changes
     useEffect(() => {
         fetch();
-    }, [fetch]);
+    }, [fetch, token]);
+
+    // The subscription outlives query changes, so it reads the current query and fetch through refs
+    const queryRef = useRef(query);
+    const fetchRef = useRef(fetch);
+    useEffect(() => {
+        queryRef.current = query;
+        fetchRef.current = fetch;
+    }, [query, fetch]);
+
+    // Keep the list up to date with the changes of other tabs and clients
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const refetchSoon = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => fetchRef.current(), REFETCH_DELAY);
+        };
+        // Events tell which files changed but not how much storage they take, the usage is fetched again quietly
+        let usageTimer: ReturnType<typeof setTimeout> | undefined;
+        const refetchUsageSoon = () => {
+            clearTimeout(usageTimer);
+            usageTimer = setTimeout(() => {
+                fetchFiles(queryRef.current)
+                    .then(({ usage }) => updateData({ ...dataRef.current, usage }))
+                    .catch(() => {
+                        // The usage stays as it was until the next fetch
+                    });
+            }, REFETCH_DELAY);
+        };
+
+        const unsubscribe = subscribeToEvents((event) => {
+            if (isFileEvent(event)) {
+                const next = applyFileEvent(dataRef.current, event, queryRef.current);
+                if (next) {
+                    updateData(next);
+                    refetchUsageSoon();
+                } else {
+                    refetchSoon();
+                }
+            } else if (event.type === 'reset') {
+                setUploads([]);
+                refetchSoon();
+            } else if (event.type === 'upload-progress') {
+                setUploads((current) =>
+                    current.some((upload) => upload.uploadId === event.data.uploadId)
+                        ? current.map((upload) => (upload.uploadId === event.data.uploadId ? event.data : upload))
+                        : [...current, event.data]
+                );
+            } else if (event.type === 'upload-ended') {
+                setUploads((current) => current.filter((upload) => upload.uploadId !== event.data.uploadId));
+            }
+        });
+
+        return () => {
+            clearTimeout(timer);
+            clearTimeout(usageTimer);
+            unsubscribe();
+        };
+    }, [updateData, token]);
 
     // Refetch data when parent component trigger refetch
     useImperativeHandle(ref, () => ({
         refetch: fetch,
     }));
 
-    return { data, setData, refetch: fetch, error, isFetching };
+    // Changing the sorting or the filters starts over from the first page
+    const updateQuery = useCallback(
+        (changes: FetchFilesQuery) => setQuery((current) => ({ ...current, offset: 0, ...changes })),
+        []
+    );
+
+    return { data, setData: updateData, refetch: fetch, error, isFetching, query, updateQuery, uploads };
 };
 
 export default useFetchFiles;
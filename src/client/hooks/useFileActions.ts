@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+
+import { copyFile, deleteFile, renameFile, restoreFileVersion } from '../api';
+
+const useFileActions = (refetch: () => void) => {
+    const [error, setError] = useState<unknown>(null);
+    // Name of the file an action is running on, so its row can be disabled meanwhile
+    const [pendingFile, setPendingFile] = useState<string | null>(null);
+
+    const run = useCallback(
+        (name: string, action: () => Promise<void>) => {
+            setPendingFile(name);
+            setError(null);
+
+            action()
+                .then(() => refetch())
+                .catch((error) => setError(error))
+                .finally(() => setPendingFile(null));
+        },
+        [refetch]
+    );
+
+    const remove = useCallback((name: string) => run(name, () => deleteFile(name)), [run]);
+    const rename = useCallback((name: string, newName: string) => run(name, () => renameFile(name, newName)), [run]);
+    const copy = useCallback((name: string, newName: string) => run(name, () => copyFile(name, newName)), [run]);
+    const restore = useCallback(
+        (name: string, version: number) => run(name, () => restoreFileVersion(name, version)),
+        [run]
+    );
+
+    return { remove, rename, copy, restore, error, pendingFile };
+};
+
+export default useFileActions;
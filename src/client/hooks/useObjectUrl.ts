@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+// An object URL of a picked file, to show it before it is uploaded. It is revoked once the file changes or is gone.
+const useObjectUrl = (file: File | null) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!file) {
+            setUrl(null);
+            return;
+        }
+        const created = URL.createObjectURL(file);
+        setUrl(created);
+        return () => {
+            URL.revokeObjectURL(created);
+        };
+    }, [file]);
+
+    return url;
+};
+
+export default useObjectUrl;
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { createShareLink, fetchShareLinks, revokeShareLink } from '../api';
+import { type ShareLink } from '../types';
+
+import useToken from './useToken';
+
+// The share links of a file, to create and revoke them
+const useShareLinks = (fileName: string) => {
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [error, setError] = useState<unknown>(null);
+    const [isPending, setIsPending] = useState(false);
+    const token = useToken();
+    const isMounted = useRef(true);
+
+    const refetch = useCallback(() => {
+        fetchShareLinks(fileName)
+            .then((fetched) => {
+                if (isMounted.current) {
+                    setLinks(fetched);
+                }
+            })
+            .catch((error: unknown) => {
+                if (isMounted.current) {
+                    setError(error);
+                }
+            });
+    }, [fileName]);
+
+    useEffect(() => {
+        isMounted.current = true;
+        setLinks([]);
+        setError(null);
+        refetch();
+        return () => {
+            isMounted.current = false;
+        };
+    }, [refetch, token]);
+
+    // Resolves with the result of the action, or with `null` when it failed
+    const run = useCallback(
+        async <T>(action: () => Promise<T>) => {
+            setIsPending(true);
+            setError(null);
+            try {
+                const result = await action();
+                refetch();
+                return result;
+            } catch (error) {
+                if (isMounted.current) {
+                    setError(error);
+                }
+                return null;
+            } finally {
+                if (isMounted.current) {
+                    setIsPending(false);
+                }
+            }
+        },
+        [refetch]
+    );
+
+    const create = useCallback(
+        (options: { expiresIn: number; maxDownloads?: number | null }) => run(() => createShareLink(fileName, options)),
+        [fileName, run]
+    );
+    const revoke = useCallback((id: string) => run(() => revokeShareLink(id)), [run]);
+
+    return { links, error, isPending, create, revoke };
+};
+
+export default useShareLinks;
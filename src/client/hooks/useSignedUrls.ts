@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { signUrls } from '../api';
+
+import useToken from './useToken';
+
+// Signed again this long before they expire, so links never stop working while the page is open, in milliseconds
+const RESIGN_MARGIN = 60 * 1000;
+// How long to wait before signing again after it failed, in milliseconds
+const RETRY_DELAY = 5000;
+
+/**
+ * Signs URLs of the API for links, media and forms, which cannot send the token along, and signs them again before
+ * they expire. Returns a function giving the signed URL of each of them, and the URL itself until it is signed.
+ */
+const useSignedUrls = (urls: string[], method: 'GET' | 'POST' = 'GET') => {
+    const [signed, setSigned] = useState<Record<string, string>>({});
+    const token = useToken();
+    // Signed again only once the URLs change, not on every render
+    const key = urls.join('\n');
+
+    useEffect(() => {
+        const requested = key ? key.split('\n') : [];
+        let isCancelled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const sign = () => {
+            signUrls(requested, { method })
+                .then(({ urls: signedUrls, expiresAt }) => {
+                    if (isCancelled) {
+                        return;
+                    }
+                    setSigned(Object.fromEntries(requested.map((url, index) => [url, signedUrls[index]])));
+                    if (expiresAt) {
+                        timer = setTimeout(sign, Math.max(0, Date.parse(expiresAt) - Date.now() - RESIGN_MARGIN));
+                    }
+                })
+                .catch(() => {
+                    if (!isCancelled) {
+                        timer = setTimeout(sign, RETRY_DELAY);
+                    }
+                });
+        };
+
+        sign();
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [key, method, token]);
+
+    return useCallback((url: string) => signed[url] ?? url, [signed]);
+};
+
+export default useSignedUrls;
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+
+import { getToken, subscribeToToken } from '../utils/token';
+
+// The API token, components re-render when it is entered or removed
+const useToken = () => useSyncExternalStore(subscribeToToken, getToken);
+
+export default useToken;
@@ -1,29 +1,40 @@
-import { useCallback, useState } from 'react';
+import { useCallback } from 'react';
 
 import { uploadSingle } from '../api';
+import { type CollisionPolicy } from '../types';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from '../utils/retry';
+import { type UploadFile } from '../utils/uploadQueue';
 
-const useUpload = (files: File[]) => {
-    const [isUploading, setIsUploading] = useState(false);
-    const [error, setError] = useState<unknown>();
+import useUploadQueue, { type UploadQueueOptions } from './useUploadQueue';
 
-    const upload = useCallback(async () => {
-        setIsUploading(true);
-        const promises = [];
-        for (const file of files) {
-            promises.push(uploadSingle(file));
-        }
+const useUpload = (
+    files: File[],
+    {
+        onConflict,
+        retry,
+        ...options
+    }: {
+        onConflict?: CollisionPolicy;
+        // How failed uploads are retried, missing settings fall back to `DEFAULT_RETRY_POLICY`
+        retry?: Partial<RetryPolicy>;
+    } & UploadQueueOptions = {}
+) => {
+    const { maxAttempts, baseDelay, maxDelay } = { ...DEFAULT_RETRY_POLICY, ...retry };
+    const uploadFile = useCallback<UploadFile>(
+        async (file, { signal, onProgress }) => {
+            const response = await withRetry(() => uploadSingle(file, { onConflict, signal, onProgress }), {
+                policy: { maxAttempts, baseDelay, maxDelay },
+                signal,
+            });
+            return response.fileName;
+        },
+        [onConflict, maxAttempts, baseDelay, maxDelay]
+    );
+    const { upload: enqueue, ...queue } = useUploadQueue(uploadFile, options);
 
-        try {
-            await Promise.all(promises);
-        } catch (error) {
-            setError(error);
-            throw error;
-        } finally {
-            setIsUploading(false);
-        }
-    }, [files]);
+    const upload = useCallback(() => enqueue(files), [enqueue, files]);
 
-    return { files, error, isUploading, upload };
+    return { files, upload, ...queue };
 };
 
 export default useUpload;
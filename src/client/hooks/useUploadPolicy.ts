@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+
+import { fetchConfig } from '../api';
+import { type UploadPolicy } from '../types';
+
+import useToken from './useToken';
+
+// The policy of the server, `null` until it is known. Files are not checked upfront without it, the server still does.
+const useUploadPolicy = () => {
+    const [policy, setPolicy] = useState<UploadPolicy | null>(null);
+    // Fetched again once a token is entered, the server refuses requests without one
+    const token = useToken();
+
+    useEffect(() => {
+        let isMounted = true;
+        fetchConfig()
+            .then(({ uploadPolicy }) => {
+                if (isMounted) {
+                    setPolicy(uploadPolicy);
+                }
+            })
+            // Without the policy, files are only checked by the server
+            .catch(() => {
+                if (isMounted) {
+                    setPolicy(null);
+                }
+            });
+
+        return () => {
+            isMounted = false;
+        };
+    }, [token]);
+
+    return policy;
+};
+
+export default useUploadPolicy;
@@ -0,0 +1,86 @@
+import { useCallback, useRef, useState } from 'react';
+
+import { createUploadQueue, type UploadFile, type UploadItem, type UploadQueue } from '../utils/uploadQueue';
+
+export const DEFAULT_CONCURRENCY = 3;
+
+export type UploadQueueOptions = {
+    // Number of files uploaded in parallel
+    concurrency?: number;
+    // Called for every file the server stored, as soon as it is done
+    onFileSuccess?: (item: UploadItem) => void;
+    // Called for every file that failed, a failure does not stop the other files
+    onFileFail?: (item: UploadItem) => void;
+};
+
+const useUploadQueue = (
+    uploadFile: UploadFile,
+    { concurrency = DEFAULT_CONCURRENCY, onFileSuccess, onFileFail }: UploadQueueOptions = {}
+) => {
+    const [items, setItems] = useState<UploadItem[]>([]);
+    const [error, setError] = useState<unknown>();
+
+    // The queue lives as long as the component, while the upload function and callbacks may change with its options
+    const optionsRef = useRef({ uploadFile, onFileSuccess, onFileFail });
+    optionsRef.current = { uploadFile, onFileSuccess, onFileFail };
+    const queueRef = useRef<UploadQueue>();
+    if (!queueRef.current) {
+        queueRef.current = createUploadQueue({
+            uploadFile: (file, options) => optionsRef.current.uploadFile(file, options),
+            concurrency,
+            onChange: setItems,
+            onSettled: (item) => {
+                if (item.status === 'failed') {
+                    setError(item.error);
+                    optionsRef.current.onFileFail?.(item);
+                } else {
+                    optionsRef.current.onFileSuccess?.(item);
+                }
+            },
+        });
+    }
+    const queue = queueRef.current;
+
+    // Resolves with the files of this upload once every one of them settled, whether it was done, failed or cancelled
+    const upload = useCallback(
+        async (files: File[]) => {
+            setError(undefined);
+            const ids = new Set(queue.add(files).map((item) => item.id));
+            await queue.whenIdle();
+
+            return queue.getItems().filter((item) => ids.has(item.id));
+        },
+        [queue]
+    );
+
+    const isUploading = items.some(
+        (item) => item.status === 'queued' || item.status === 'uploading' || item.status === 'paused'
+    );
+    // Names the server stored the uploaded files under
+    const uploadedFiles = items.flatMap((item) => (item.status === 'done' && item.fileName ? [item.fileName] : []));
+
+    // Bytes of every file of the current upload, cancelled ones left out
+    const activeItems = items.filter((item) => item.status !== 'cancelled');
+    const totalBytes = activeItems.reduce((bytes, item) => bytes + item.file.size, 0);
+    const uploadedBytes = activeItems.reduce((bytes, item) => bytes + item.uploadedBytes, 0);
+    const doneItems = activeItems.filter((item) => item.status === 'done');
+    // Empty files have no bytes to follow, they count once done
+    const progress =
+        totalBytes > 0
+            ? Math.round((uploadedBytes / totalBytes) * 100)
+            : Math.round((doneItems.length / Math.max(1, activeItems.length)) * 100);
+
+    return {
+        items,
+        upload,
+        pause: queue.pause,
+        resume: queue.resume,
+        cancel: queue.cancel,
+        isUploading,
+        error,
+        uploadedFiles,
+        progress,
+    };
+};
+
+export default useUploadQueue;
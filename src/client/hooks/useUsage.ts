@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { fetchUsage, subscribeToEvents } from '../api';
+import { type UsageResponse } from '../types';
+import { isFileEvent } from '../utils/fileEvents';
+
+import useToken from './useToken';
+
+// Files are often added or removed in bursts, e.g. when a folder is uploaded, the usage is fetched once they settle
+const REFETCH_DELAY = 300;
+
+// The user's usage of the storage and what the quotas leave, `null` until it is known
+const useUsage = () => {
+    const [usage, setUsage] = useState<UsageResponse | null>(null);
+    const token = useToken();
+    const isMounted = useRef(true);
+
+    const refetch = useCallback(() => {
+        fetchUsage()
+            .then((fetched) => {
+                if (isMounted.current) {
+                    setUsage(fetched);
+                }
+            })
+            // Without the usage, files are only checked against the quotas by the server
+            .catch(() => {
+                if (isMounted.current) {
+                    setUsage(null);
+                }
+            });
+    }, []);
+
+    // Fetched again once a token is entered, the usage is the one of its user
+    useEffect(() => {
+        isMounted.current = true;
+        refetch();
+        return () => {
+            isMounted.current = false;
+        };
+    }, [refetch, token]);
+
+    // Files stored, replaced or removed by this or any other client change what is left of the quotas
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const unsubscribe = subscribeToEvents((event) => {
+            if (isFileEvent(event) || event.type === 'upload-ended' || event.type === 'reset') {
+                clearTimeout(timer);
+                timer = setTimeout(refetch, REFETCH_DELAY);
+            }
+        });
+        return () => {
+            clearTimeout(timer);
+            unsubscribe();
+        };
+    }, [refetch, token]);
+
+    return { usage, refetch };
+};
+
+export default useUsage;
@@ -1,33 +1,247 @@
 import z from 'zod';
 
-export type APIError = { error: string };
+export type APIError = {
+    error: string;
+    code?: string;
+    // HTTP status of the response, missing for errors that did not come from a response
+    status?: number;
+    // Seconds to wait before trying again, from the `Retry-After` header
+    retryAfter?: number;
+};
+
+// Error codes the upload API responds with when the received bytes do not match their checksum
+export const CHECKSUM_MISMATCH = 'CHECKSUM_MISMATCH';
+export const FILE_CHECKSUM_MISMATCH = 'FILE_CHECKSUM_MISMATCH';
+// No stored file has the content of an upload by digest, it has to be sent
+export const BLOB_NOT_FOUND = 'BLOB_NOT_FOUND';
+// The request carries no valid API token (401), or the token does not allow the request (403)
+export const UNAUTHORIZED = 'UNAUTHORIZED';
+export const FORBIDDEN = 'FORBIDDEN';
+
+// How the server stores an upload whose name is already taken: fail, replace the file or pick `name (1).ext`
+export type CollisionPolicy = 'reject' | 'overwrite' | 'rename';
+
+// What the server's processors found out about a content, after the upload was answered
+export const fileProcessingSchema = z.object({
+    // `failed` when any processor failed, the others keep their results
+    status: z.enum(['pending', 'done', 'failed']),
+    // Keyed by the name of the processor, e.g. `{ 'image-size': { width: 800, height: 600 } }`
+    results: z.record(z.string(), z.record(z.string(), z.unknown())),
+    // The error messages of the failed processors, keyed by their names
+    errors: z.record(z.string(), z.string()),
+});
+export type FileProcessing = z.infer<typeof fileProcessingSchema>;
+
+// A content a file had or has, overwriting and restoring add a new version
+export const fileVersionSchema = z.object({
+    // Counts up from 1
+    version: z.number(),
+    size: z.number(),
+    mimeType: z.string(),
+    // ISO 8601 timestamp
+    uploadedAt: z.string(),
+    // The name the file was uploaded with, before the server sanitized it or resolved a collision
+    originalName: z.string(),
+    sha256: z.string().optional(),
+    // Unknown for files put into the upload folder by other means than the upload API,
+    // `by-hash` files were added by the digest of content the server stored already
+    uploadMethod: z.enum(['single', 'chunked', 'tus', 'by-hash']).optional(),
+    // Missing for files stored while the server had no processor enabled
+    processing: fileProcessingSchema.optional(),
+});
+export type FileVersion = z.infer<typeof fileVersionSchema>;
 
 // Adjust this schema to match your actual FetchFilesResponse shape
 export const fetchResponseSchema = z.object({
     files: z.array(
-        z.object({
+        fileVersionSchema.extend({
             name: z.string(),
-            size: z.number(),
+            tags: z.array(z.string()),
+            description: z.string(),
+            // The earlier versions the server keeps, newest first
+            previousVersions: z.array(fileVersionSchema),
         })
     ),
+    // Names of the subdirectories right inside the listed directory
+    directories: z.array(z.string()),
+    // Number of files matching the filters, across all pages
+    total: z.number(),
+    offset: z.number(),
+    limit: z.number(),
+    // Of all the stored files, files with the same content only take up its size once on disk
+    usage: z.object({ logicalSize: z.number(), diskUsage: z.number() }).optional(),
 });
 export type FetchFilesResponse = z.infer<typeof fetchResponseSchema>;
+export type FileMetadata = FetchFilesResponse['files'][number];
+
+export type FileSortField = 'name' | 'size' | 'date';
+
+export type FetchFilesQuery = {
+    // Relative path of the directory to list
+    dir?: string;
+    // Whether files in subdirectories are listed too, `true` by default
+    recursive?: boolean;
+    sort?: FileSortField;
+    order?: 'asc' | 'desc';
+    offset?: number;
+    limit?: number;
+    // Case insensitive substring of the file name
+    q?: string;
+    // Comma separated extensions, e.g. `png,jpg`
+    ext?: string;
+    // Size range in bytes
+    minSize?: number;
+    maxSize?: number;
+};
 
 export const uploadSingleInputSchema = z
     .instanceof(File)
     .refine((fd) => fd instanceof File, { message: 'Value must be an instance of File' });
 export type UploadSingleInput = z.infer<typeof uploadSingleInputSchema>;
 
+export const uploadResponseSchema = z.object({
+    message: z.string(),
+    // The name the file was stored under, which may differ from the uploaded one
+    fileName: z.string(),
+    sha256: z.string(),
+});
+export type UploadResponse = z.infer<typeof uploadResponseSchema>;
+
 export const uploadChunkInputSchema = z
     .instanceof(FormData)
     .refine((fd) => fd instanceof FormData, { message: 'Value must be a FormData' })
     .refine(
         (fd) => {
             // required keys in your FormData
-            const required = ['file', 'currentChunkIndex', 'totalChunks'];
+            const required = ['file', 'currentChunkIndex', 'totalChunks', 'uploadId'];
             return required.every((k) => fd.has(k) && fd.get(k) !== null);
         },
-        { message: 'FormData must include file, currentChunkIndex and totalChunks' }
+        { message: 'FormData must include file, currentChunkIndex, totalChunks and uploadId' }
     );
 
 export type UploadChunkInput = z.infer<typeof uploadChunkInputSchema>;
+
+export const uploadChunkResponseSchema = z.object({
+    message: z.string(),
+    complete: z.boolean(),
+    // Only set on the response of the chunk that completed the file
+    fileName: z.string().optional(),
+    sha256: z.string().optional(),
+});
+export type UploadChunkResponse = z.infer<typeof uploadChunkResponseSchema>;
+
+export const uploadSessionSchema = z.object({
+    uploadId: z.string(),
+    fileName: z.string(),
+    totalChunks: z.number(),
+    receivedChunks: z.array(z.number()),
+});
+export type UploadSession = z.infer<typeof uploadSessionSchema>;
+
+export const createUploadSessionInputSchema = z.object({
+    fileName: z.string().min(1),
+    // The path of the file inside an uploaded folder, e.g. `photos/beach.jpg`
+    relativePath: z.string().min(1).optional(),
+    totalChunks: z.number().int().positive(),
+    size: z.number().int().nonnegative().optional(),
+    checksum: z.string().optional(),
+    onConflict: z.enum(['reject', 'overwrite', 'rename']).optional(),
+});
+export type CreateUploadSessionInput = z.infer<typeof createUploadSessionInputSchema>;
+
+// What the server accepts, see `GET /api/config`. Empty lists allow everything, `null` limits do not apply.
+export const uploadPolicySchema = z.object({
+    // MIME types like `image/png` or `image/*`
+    allowedMimeTypes: z.array(z.string()),
+    // Lower case extensions like `.png`
+    allowedExtensions: z.array(z.string()),
+    maxFileSize: z.number().nullable(),
+    // Size and number of all the stored files together
+    maxTotalSize: z.number().nullable(),
+    maxFileCount: z.number().nullable(),
+});
+export type UploadPolicy = z.infer<typeof uploadPolicySchema>;
+
+// A link to download a file without a token, see `POST /api/files/:name/shares`
+export const shareLinkSchema = z.object({
+    id: z.string(),
+    fileName: z.string(),
+    // Relative to the server, e.g. `/api/shared/...`
+    url: z.string(),
+    // ISO 8601 timestamps
+    expiresAt: z.string(),
+    createdAt: z.string(),
+    // `null` for as many downloads as wanted until the link expires
+    maxDownloads: z.number().nullable(),
+    downloads: z.number(),
+});
+export type ShareLink = z.infer<typeof shareLinkSchema>;
+
+export const shareLinksResponseSchema = z.object({ shares: z.array(shareLinkSchema) });
+
+export const configResponseSchema = z.object({
+    uploadPolicy: uploadPolicySchema,
+});
+export type ConfigResponse = z.infer<typeof configResponseSchema>;
+
+const fileMetadataSchema = fetchResponseSchema.shape.files.element;
+
+// How much of a quota is taken, in bytes. Content shared by several files or versions only counts once.
+const quotaUsageSchema = z.object({
+    usedBytes: z.number(),
+    // The announced sizes of the uploads in progress
+    reservedBytes: z.number(),
+    // `null` when there is no quota
+    quotaBytes: z.number().nullable(),
+    availableBytes: z.number().nullable(),
+    fileCount: z.number(),
+});
+
+// See `GET /api/usage`
+export const usageResponseSchema = z.object({
+    // What can still be uploaded, the smaller of both quotas, `null` when there is none
+    availableBytes: z.number().nullable(),
+    // The user's own files
+    namespace: quotaUsageSchema,
+    // The files of all users together
+    total: quotaUsageSchema,
+    // The user's files taking the most bytes, largest first
+    largestFiles: z.array(fileMetadataSchema),
+});
+export type UsageResponse = z.infer<typeof usageResponseSchema>;
+
+// See `POST /api/signed-urls`
+export const signedUrlsResponseSchema = z.object({
+    // In the order they were requested
+    urls: z.array(z.string()),
+    // ISO 8601 timestamp, `null` when authentication is not required and the URLs were not signed
+    expiresAt: z.string().nullable(),
+});
+export type SignedUrlsResponse = z.infer<typeof signedUrlsResponseSchema>;
+
+// Events of `GET /api/events`, named after their SSE event type
+export const serverEventSchema = z.discriminatedUnion('type', [
+    // First event of a new connection, only there to carry an id to reconnect with
+    z.object({ type: z.literal('connected'), data: z.object({}) }),
+    // The events missed while disconnected are unknown, everything has to be fetched again
+    z.object({ type: z.literal('reset'), data: z.object({}) }),
+    z.object({ type: z.literal('file-added'), data: z.object({ file: fileMetadataSchema }) }),
+    z.object({ type: z.literal('file-updated'), data: z.object({ file: fileMetadataSchema }) }),
+    z.object({ type: z.literal('file-renamed'), data: z.object({ from: z.string(), file: fileMetadataSchema }) }),
+    z.object({ type: z.literal('file-deleted'), data: z.object({ name: z.string() }) }),
+    z.object({
+        type: z.literal('upload-progress'),
+        data: z.object({
+            uploadId: z.string(),
+            fileName: z.string(),
+            receivedChunks: z.number(),
+            totalChunks: z.number(),
+        }),
+    }),
+    // The upload was merged, failed, aborted or expired
+    z.object({ type: z.literal('upload-ended'), data: z.object({ uploadId: z.string() }) }),
+]);
+export type ServerEvent = z.infer<typeof serverEventSchema>;
+export type UploadProgress = Extract<ServerEvent, { type: 'upload-progress' }>['data'];
+
+export const SERVER_EVENT_TYPES = serverEventSchema.options.map((option) => option.shape.type.value);
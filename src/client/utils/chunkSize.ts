@@ -0,0 +1,45 @@
+// How long a chunk should take to upload: long enough to keep the request overhead small, short enough to retry cheaply
+export const TARGET_CHUNK_DURATION = 2000;
+
+// Number of recent chunks the throughput is measured on
+const SAMPLE_COUNT = 3;
+
+/**
+ * Picks the size of the next chunk from the throughput of the recent ones, so every chunk takes about `targetDuration`.
+ * Sizes are multiples of `minSize` between `minSize` and `maxSize`, and at most double or halve from one chunk to the next.
+ */
+export const createChunkSizer = ({
+    initialSize,
+    minSize,
+    maxSize,
+    targetDuration = TARGET_CHUNK_DURATION,
+}: {
+    initialSize: number;
+    minSize: number;
+    maxSize: number;
+    targetDuration?: number;
+}) => {
+    const maxUnits = Math.max(1, Math.floor(maxSize / minSize));
+    const toUnits = (size: number) => Math.min(maxUnits, Math.max(1, Math.floor(size / minSize)));
+
+    let units = toUnits(initialSize);
+    const samples: { bytes: number; duration: number }[] = [];
+
+    return {
+        // Size of the next chunk, as a number of `minSize` units
+        getUnits: () => units,
+
+        record: (bytes: number, duration: number) => {
+            samples.push({ bytes, duration });
+            if (samples.length > SAMPLE_COUNT) {
+                samples.shift();
+            }
+
+            const totalBytes = samples.reduce((sum, sample) => sum + sample.bytes, 0);
+            const totalDuration = samples.reduce((sum, sample) => sum + sample.duration, 0);
+            // Chunks finishing faster than the clock can tell are as fast as it gets
+            const idealSize = totalDuration > 0 ? (totalBytes / totalDuration) * targetDuration : Infinity;
+            units = toUnits(Math.min(units * 2 * minSize, Math.max((units / 2) * minSize, idealSize)));
+        },
+    };
+};
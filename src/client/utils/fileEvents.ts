@@ -0,0 +1,96 @@
+import {
+    type FetchFilesQuery,
+    type FetchFilesResponse,
+    type FileMetadata,
+    type FileSortField,
+    type ServerEvent,
+} from '../types';
+
+export type FileEvent = Extract<ServerEvent, { type: 'file-added' | 'file-updated' | 'file-renamed' | 'file-deleted' }>;
+
+export const isFileEvent = (event: ServerEvent): event is FileEvent => event.type.startsWith('file-');
+
+const getExtension = (fileName: string) => {
+    const baseName = fileName.split('/').pop() ?? '';
+    const index = baseName.lastIndexOf('.');
+    return index > 0 ? baseName.slice(index + 1).toLowerCase() : '';
+};
+
+// The same filters as `GET /api/files`
+const matchesQuery = (file: FileMetadata, query: FetchFilesQuery) => {
+    const prefix = query.dir ? `${query.dir}/` : '';
+    if (!file.name.startsWith(prefix) || (query.recursive === false && file.name.slice(prefix.length).includes('/'))) {
+        return false;
+    }
+
+    const search = query.q?.trim().toLowerCase();
+    const extensions = (query.ext ?? '')
+        .split(',')
+        .map((extension) => extension.trim().replace(/^\./, '').toLowerCase())
+        .filter((extension) => extension.length > 0);
+    return (
+        (!search || file.name.toLowerCase().includes(search)) &&
+        (extensions.length === 0 || extensions.includes(getExtension(file.name))) &&
+        (query.minSize === undefined || file.size >= query.minSize) &&
+        (query.maxSize === undefined || file.size <= query.maxSize)
+    );
+};
+
+const compareBy: Record<FileSortField, (a: FileMetadata, b: FileMetadata) => number> = {
+    name: (a, b) => a.name.localeCompare(b.name),
+    size: (a, b) => a.size - b.size,
+    date: (a, b) => Date.parse(a.uploadedAt) - Date.parse(b.uploadedAt),
+};
+
+// The same order as `GET /api/files`, ties are broken by name
+const compareFiles = (query: FetchFilesQuery) => (a: FileMetadata, b: FileMetadata) =>
+    (compareBy[query.sort ?? 'name'](a, b) || compareBy.name(a, b)) * (query.order === 'desc' ? -1 : 1);
+
+// The subdirectory of the listed directory a file is in, `null` for files right inside it
+const getDirectory = (fileName: string, query: FetchFilesQuery) => {
+    const prefix = query.dir ? `${query.dir}/` : '';
+    if (!fileName.startsWith(prefix)) {
+        return null;
+    }
+    const [child, ...rest] = fileName.slice(prefix.length).split('/');
+    return rest.length > 0 ? child : null;
+};
+
+/**
+ * Applies a file event to the listed page, as if it was fetched again. Resolves to `null` when that takes the server,
+ * because the page does not hold every matching file, or a removed file may have been the last one of a directory.
+ */
+export const applyFileEvent = (
+    page: FetchFilesResponse,
+    event: FileEvent,
+    query: FetchFilesQuery
+): FetchFilesResponse | null => {
+    const isComplete = page.offset === 0 && page.files.length === page.total;
+    const removedName =
+        event.type === 'file-deleted' ? event.data.name : event.type === 'file-renamed' ? event.data.from : null;
+    const added = event.type === 'file-deleted' ? null : event.data.file;
+
+    if (!isComplete || (removedName !== null && getDirectory(removedName, query) !== null)) {
+        return null;
+    }
+
+    const files = page.files.filter((file) => file.name !== removedName && file.name !== added?.name);
+    const directories = new Set(page.directories);
+    if (added) {
+        const directory = getDirectory(added.name, query);
+        if (directory !== null) {
+            directories.add(directory);
+        }
+        if (matchesQuery(added, query)) {
+            files.push(added);
+        }
+    }
+    files.sort(compareFiles(query));
+
+    return {
+        ...page,
+        files: files.slice(0, page.limit),
+        directories: [...directories].sort((a, b) => a.localeCompare(b)),
+        total: files.length,
+    };
+};
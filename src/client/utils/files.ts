@@ -0,0 +1,68 @@
+// Path of a file inside the folder it was picked or dropped with, e.g. `photos/2024/beach.jpg`, or its plain name
+export const getRelativePath = (file: File) => file.webkitRelativePath || file.name;
+
+// Dropped files do not get a `webkitRelativePath` from the browser, so it is set the way a folder input would
+const withRelativePath = (file: File, relativePath: string) =>
+    Object.defineProperty(file, 'webkitRelativePath', { value: relativePath, enumerable: true });
+
+const readFile = (entry: FileSystemFileEntry) =>
+    new Promise<File>((resolve, reject) => {
+        entry.file(resolve, reject);
+    });
+
+// A directory reader only returns a batch of entries per call, it has to be read until it returns none
+const readDirectory = async (entry: FileSystemDirectoryEntry) => {
+    const reader = entry.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+            reader.readEntries(resolve, reject);
+        });
+        if (batch.length === 0) {
+            return entries;
+        }
+        entries.push(...batch);
+    }
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    // `fullPath` is absolute within the drop, e.g. `/photos/beach.jpg`
+    const relativePath = entry.fullPath.replace(/^\//, '');
+
+    if (entry.isFile) {
+        const file = await readFile(entry as FileSystemFileEntry);
+        return [relativePath.includes('/') ? withRelativePath(file, relativePath) : file];
+    }
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry);
+        const files = await Promise.all(children.map((child) => collectEntry(child)));
+        return files.flat();
+    }
+    return [];
+};
+
+/**
+ * Every file of a drop, including the content of dropped directories.
+ * The entries have to be taken from the items synchronously, as the browser clears them once the drop event is over.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items, (item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null));
+    if (entries.every((entry) => entry === null)) {
+        // Browsers without the entries API still list the dropped files, without their directories
+        return Array.from(dataTransfer.files);
+    }
+
+    const files = await Promise.all(
+        entries.map((entry) => (entry ? collectEntry(entry) : Promise.resolve([] as File[])))
+    );
+    return files.flat();
+};
+
+// The first `maxBytes` of a picked file as text. `FileReader` works where `Blob.text()` is missing, e.g. in older Safari.
+export const readFileText = (file: File, maxBytes: number) =>
+    new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.addEventListener('load', () => resolve(reader.result as string));
+        reader.addEventListener('error', () => reject(reader.error ?? new Error(`${file.name} could not be read`)));
+        reader.readAsText(file.slice(0, maxBytes));
+    });
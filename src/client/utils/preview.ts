@@ -0,0 +1,125 @@
+export type PreviewKind = 'image' | 'video' | 'audio' | 'json' | 'csv' | 'text' | 'none';
+
+// Text files are only read this far, so a huge log does not freeze the page
+export const TEXT_PREVIEW_MAX_BYTES = 64 * 1024;
+// Tables with more rows are cut, the text around them is already capped
+export const CSV_PREVIEW_MAX_ROWS = 100;
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.log', '.xml', '.yaml', '.yml', '.ts', '.tsx', '.js', '.css', '.html'];
+
+const getExtension = (name: string) => {
+    const dot = name.lastIndexOf('.');
+    return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+/**
+ * How a file is previewed, told by its MIME type. Browsers leave the type of picked files empty when they do not
+ * know it, e.g. for CSV files on some systems, so the extension decides for text files as well.
+ */
+export const getPreviewKind = ({ name, mimeType }: { name: string; mimeType: string }): PreviewKind => {
+    const extension = getExtension(name);
+    if (mimeType === 'application/json' || extension === '.json') {
+        return 'json';
+    }
+    if (mimeType === 'text/csv' || extension === '.csv') {
+        return 'csv';
+    }
+    if (mimeType.startsWith('image/')) {
+        return 'image';
+    }
+    if (mimeType.startsWith('video/')) {
+        return 'video';
+    }
+    if (mimeType.startsWith('audio/')) {
+        return 'audio';
+    }
+    if (mimeType.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) {
+        return 'text';
+    }
+    return 'none';
+};
+
+export type JsonTokenType = 'key' | 'string' | 'number' | 'literal' | 'punctuation';
+export type JsonToken = { type: JsonTokenType; text: string };
+
+const JSON_TOKEN_REGEX = /("(?:\\.|[^"\\])*")(\s*:)?|\b(?:true|false|null)\b|-?\d+(?:\.\d+)?(?:[Ee][+-]?\d+)?/g;
+
+/**
+ * Indents JSON and splits it into tokens to color. JSON cut by the size cap cannot be parsed,
+ * it is tokenized as it is.
+ */
+export const highlightJson = (text: string): JsonToken[] => {
+    let formatted = text;
+    try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+        // Shown as it is
+    }
+
+    const tokens: JsonToken[] = [];
+    let last = 0;
+    for (const match of formatted.matchAll(JSON_TOKEN_REGEX)) {
+        const index = match.index ?? 0;
+        if (index > last) {
+            tokens.push({ type: 'punctuation', text: formatted.slice(last, index) });
+        }
+        const [value, string, colon] = match;
+        if (string && colon) {
+            tokens.push({ type: 'key', text: string }, { type: 'punctuation', text: colon });
+        } else if (string) {
+            tokens.push({ type: 'string', text: string });
+        } else {
+            tokens.push({ type: /^[a-z]/.test(value) ? 'literal' : 'number', text: value });
+        }
+        last = index + value.length;
+    }
+    if (last < formatted.length) {
+        tokens.push({ type: 'punctuation', text: formatted.slice(last) });
+    }
+    return tokens;
+};
+
+/**
+ * Splits CSV into rows of cells, following quoted cells across commas, quotes and line breaks.
+ * `isTruncated` drops the last row, which the size cap may have cut.
+ */
+export const parseCsv = (text: string, { isTruncated = false, maxRows = CSV_PREVIEW_MAX_ROWS } = {}) => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let isQuoted = false;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (isQuoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else if (char === '"') {
+                isQuoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            isQuoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') {
+                index++;
+            }
+            rows.push([...row, cell]);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        rows.push([...row, cell]);
+    }
+
+    const complete = isTruncated ? rows.slice(0, -1) : rows;
+    return { rows: complete.slice(0, maxRows), isCut: complete.length > maxRows };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'vitest';
+
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from './retry';
+
+describe('getRetryDelay', () => {
+    test('waits as long as the server asks', () => {
+        expect(getRetryDelay(1, DEFAULT_RETRY_POLICY, { error: 'Too many requests', status: 429, retryAfter: 2 })).toBe(
+            2000
+        );
+    });
+
+    test('waits no longer than the policy allows, whatever the server asks', () => {
+        expect(
+            getRetryDelay(1, DEFAULT_RETRY_POLICY, { error: 'Maintenance', status: 503, retryAfter: 4 * 60 * 60 })
+        ).toBe(30_000);
+    });
+
+    test('backs off exponentially up to the maximum delay', () => {
+        const policy = { maxAttempts: 10, baseDelay: 100, maxDelay: 1000 };
+        expect(getRetryDelay(2, policy)).toBeLessThanOrEqual(200);
+        expect(getRetryDelay(8, policy)).toBeLessThanOrEqual(1000);
+    });
+});
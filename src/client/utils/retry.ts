@@ -0,0 +1,79 @@
+import { type APIError } from '../types';
+
+export type RetryPolicy = {
+    // Attempts in total, including the first one
+    maxAttempts: number;
+    // Delay before the first retry in milliseconds, doubled on every further attempt
+    baseDelay: number;
+    // Upper bound of the delay between two attempts in milliseconds
+    maxDelay: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 5, baseDelay: 500, maxDelay: 30_000 };
+
+/**
+ * Failures that may go away by themselves: the request did not reach the server (`fetch` rejects with a `TypeError`),
+ * the server failed (5xx) or asked to slow down (429).
+ */
+export const isTransientError = (error: unknown) => {
+    if (error instanceof TypeError) {
+        return true;
+    }
+    const status = (error as Partial<APIError> | null)?.status;
+    return typeof status === 'number' && (status >= 500 || status === 429);
+};
+
+/**
+ * Milliseconds to wait after the failed `attempt`, counting from 1. The server's `Retry-After` wins up to `maxDelay`,
+ * otherwise a random delay up to the exponential backoff, so clients failing together do not retry together.
+ */
+export const getRetryDelay = (attempt: number, { baseDelay, maxDelay }: RetryPolicy, error?: unknown) => {
+    const retryAfter = (error as Partial<APIError> | null)?.retryAfter;
+    if (typeof retryAfter === 'number') {
+        return Math.min(retryAfter * 1000, maxDelay);
+    }
+
+    return Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+};
+
+const wait = (delay: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(new DOMException('The upload was aborted', 'AbortError'));
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delay);
+
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Calls `request` until it succeeds, fails with an error `isRetryable` rejects or `policy.maxAttempts` is reached.
+ * Aborting `signal` stops waiting for the next attempt.
+ */
+export const withRetry = async <T>(
+    request: () => Promise<T>,
+    {
+        policy = DEFAULT_RETRY_POLICY,
+        signal,
+        isRetryable = isTransientError,
+    }: { policy?: RetryPolicy; signal?: AbortSignal; isRetryable?: (error: unknown) => boolean } = {}
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryable(error)) {
+                throw error;
+            }
+            await wait(getRetryDelay(attempt, policy, error), signal);
+        }
+    }
+};
@@ -0,0 +1,8 @@
+// Web Crypto cannot hash incrementally, files larger than this are not hashed, so they are never held in memory whole
+export const WHOLE_FILE_CHECKSUM_LIMIT = 1024 * 1024 * 256; // 256 MB
+
+// Hex encoded SHA-256 digest of a blob, as expected by the upload API
+export const sha256 = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
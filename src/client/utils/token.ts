@@ -0,0 +1,58 @@
+import { FORBIDDEN, UNAUTHORIZED, type APIError } from '../types';
+
+// The API token stays in the browser until it is replaced, the server only knows its digest
+const TOKEN_STORAGE_KEY = 'api-token';
+
+const listeners = new Set<() => void>();
+
+// `null` when no token was entered, or the storage is not available, e.g. in private windows of some browsers
+export const getToken = () => {
+    try {
+        return localStorage.getItem(TOKEN_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+// Components showing data of the server fetch it again with the new token
+export const setToken = (token: string | null) => {
+    try {
+        if (token) {
+            localStorage.setItem(TOKEN_STORAGE_KEY, token);
+        } else {
+            localStorage.removeItem(TOKEN_STORAGE_KEY);
+        }
+    } catch {
+        // Kept for this page only
+    }
+    for (const listener of listeners) {
+        listener();
+    }
+};
+
+export const subscribeToToken = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const getAuthHeaders = (): Record<string, string> => {
+    const token = getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// The token is missing or not valid anymore, `401`
+export const isUnauthorized = (error: unknown) => {
+    const { status, code } = (error ?? {}) as Partial<APIError>;
+    return status === 401 || code === UNAUTHORIZED;
+};
+
+// The token is valid, but does not allow the request, `403`
+export const isForbidden = (error: unknown) => {
+    const { status, code } = (error ?? {}) as Partial<APIError>;
+    return status === 403 || code === FORBIDDEN;
+};
+
+// Errors that another token may get rid of
+export const isAuthError = (error: unknown) => isUnauthorized(error) || isForbidden(error);
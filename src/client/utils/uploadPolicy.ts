@@ -0,0 +1,71 @@
+import { type UploadPolicy } from '../types';
+
+export type RejectedFile = { file: File; reason: string };
+
+// The extension the way the server sees it, hidden files like `.env` have none
+const getExtension = (fileName: string) => {
+    const index = fileName.lastIndexOf('.');
+    return index > 0 ? fileName.slice(index).toLowerCase() : '';
+};
+
+const matchesMimeType = (pattern: string, mimeType: string) =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+
+const getFileReason = (policy: UploadPolicy, file: File) => {
+    const extension = getExtension(file.name);
+    if (policy.allowedExtensions.length > 0 && !policy.allowedExtensions.includes(extension)) {
+        return extension
+            ? `Files ending with ${extension} are not allowed.`
+            : 'Files without extension are not allowed.';
+    }
+    // Browsers leave the type empty when they do not know it, the server still checks the content
+    if (
+        file.type &&
+        policy.allowedMimeTypes.length > 0 &&
+        !policy.allowedMimeTypes.some((pattern) => matchesMimeType(pattern, file.type.toLowerCase()))
+    ) {
+        return `Files of type ${file.type} are not allowed.`;
+    }
+    if (policy.maxFileSize !== null && file.size > policy.maxFileSize) {
+        return `Files may not exceed ${policy.maxFileSize} bytes.`;
+    }
+    return null;
+};
+
+/**
+ * Splits the picked files into the ones worth sending and the ones the server would refuse, with the reason why.
+ * The limits of all the stored files are only checked against the picked files, the server knows about the others.
+ * Without a `policy` only the `availableBytes` the quotas leave are checked, without either every file is accepted.
+ */
+export const checkFiles = (policy: UploadPolicy | null, files: File[], availableBytes: number | null = null) => {
+    const accepted: File[] = [];
+    const rejected: RejectedFile[] = [];
+    let totalSize = 0;
+
+    for (const file of files) {
+        let reason = policy ? getFileReason(policy, file) : null;
+        if (!reason && policy && policy.maxFileCount !== null && accepted.length >= policy.maxFileCount) {
+            reason = `No more than ${policy.maxFileCount} files can be stored.`;
+        }
+        if (!reason && policy && policy.maxTotalSize !== null && totalSize + file.size > policy.maxTotalSize) {
+            reason = `The stored files may not exceed ${policy.maxTotalSize} bytes together.`;
+        }
+        // The bytes the quotas leave are shared by all the picked files
+        if (!reason && availableBytes !== null && totalSize + file.size > availableBytes) {
+            reason = `Only ${availableBytes - totalSize} bytes are left of your storage quota.`;
+        }
+
+        if (reason) {
+            rejected.push({ file, reason });
+        } else {
+            accepted.push(file);
+            totalSize += file.size;
+        }
+    }
+
+    return { accepted, rejected };
+};
+
+// Hints the browser's file picker at the allowed files, it does not enforce anything
+export const getAcceptAttribute = (policy: UploadPolicy | null) =>
+    policy ? [...policy.allowedExtensions, ...policy.allowedMimeTypes].join(',') || undefined : undefined;
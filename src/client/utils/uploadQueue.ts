@@ -0,0 +1,164 @@
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+export type UploadItem = {
+    id: string;
+    file: File;
+    status: UploadStatus;
+    uploadedBytes: number;
+    // Name the server stored the file under, once done
+    fileName?: string;
+    error?: unknown;
+};
+
+export type UploadFile = (
+    file: File,
+    options: {
+        // Aborted with the `paused` or `cancelled` reason
+        signal: AbortSignal;
+        onProgress: (uploadedBytes: number) => void;
+    }
+) => Promise<string>;
+
+const isSettled = (status: UploadStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+let lastId = 0;
+
+/**
+ * Uploads files with at most `concurrency` of them at the same time.
+ * Pausing and cancelling abort the running upload, a resumed file is queued again and starts over,
+ * unless its `uploadFile` picks up where it stopped.
+ */
+export const createUploadQueue = ({
+    uploadFile,
+    concurrency,
+    onChange,
+    onSettled,
+}: {
+    uploadFile: UploadFile;
+    concurrency: number;
+    onChange: (items: UploadItem[]) => void;
+    // Called once a file is done or failed, not when it was cancelled
+    onSettled?: (item: UploadItem) => void;
+}) => {
+    let items: UploadItem[] = [];
+    const controllers = new Map<string, AbortController>();
+    const idleListeners: (() => void)[] = [];
+
+    const update = (id: string, changes: Partial<UploadItem>) => {
+        items = items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+        onChange(items);
+    };
+
+    const settle = (id: string, changes: Partial<UploadItem>) => {
+        update(id, changes);
+        const item = items.find((item) => item.id === id);
+        if (item) {
+            onSettled?.(item);
+        }
+    };
+
+    const start = (item: UploadItem) => {
+        const controller = new AbortController();
+        controllers.set(item.id, controller);
+        update(item.id, { status: 'uploading', uploadedBytes: 0, error: undefined });
+
+        uploadFile(item.file, {
+            signal: controller.signal,
+            onProgress: (uploadedBytes) => {
+                if (!controller.signal.aborted) {
+                    update(item.id, { uploadedBytes });
+                }
+            },
+        })
+            .then((fileName) => {
+                if (!controller.signal.aborted) {
+                    settle(item.id, { status: 'done', uploadedBytes: item.file.size, fileName });
+                }
+            })
+            .catch((error: unknown) => {
+                // Pausing and cancelling already set the status of the aborted upload
+                if (!controller.signal.aborted) {
+                    settle(item.id, { status: 'failed', error });
+                }
+            })
+            .finally(() => {
+                // A resumed file may already be running again under a new controller
+                if (controllers.get(item.id) === controller) {
+                    controllers.delete(item.id);
+                }
+                next();
+            });
+    };
+
+    const next = () => {
+        const uploading = items.filter((item) => item.status === 'uploading').length;
+        const queued = items.filter((item) => item.status === 'queued');
+        for (const item of queued.slice(0, Math.max(0, concurrency - uploading))) {
+            start(item);
+        }
+
+        if (items.every((item) => isSettled(item.status))) {
+            for (const listener of idleListeners.splice(0)) {
+                listener();
+            }
+        }
+    };
+
+    const stop = (id: string, status: 'paused' | 'cancelled') => {
+        update(id, { status });
+        controllers.get(id)?.abort(status);
+        next();
+    };
+
+    return {
+        getItems: () => items,
+
+        // Settled files of previous uploads are dropped, so the queue only shows the current ones
+        add: (files: File[]) => {
+            const added = files.map(
+                (file): UploadItem => ({
+                    id: `upload-${++lastId}`,
+                    file,
+                    status: 'queued',
+                    uploadedBytes: 0,
+                })
+            );
+            items = [...items.filter((item) => !isSettled(item.status)), ...added];
+            onChange(items);
+            next();
+            return added;
+        },
+
+        pause: (id: string) => {
+            const item = items.find((item) => item.id === id);
+            if (item && (item.status === 'queued' || item.status === 'uploading')) {
+                stop(id, 'paused');
+            }
+        },
+
+        // Failed files can be resumed as well, to retry them
+        resume: (id: string) => {
+            const item = items.find((item) => item.id === id);
+            if (item && (item.status === 'paused' || item.status === 'failed')) {
+                update(id, { status: 'queued' });
+                next();
+            }
+        },
+
+        cancel: (id: string) => {
+            const item = items.find((item) => item.id === id);
+            if (item && !isSettled(item.status)) {
+                stop(id, 'cancelled');
+            }
+        },
+
+        // Resolves once every file is done, failed or cancelled. Paused files keep it pending until resumed or cancelled.
+        whenIdle: () =>
+            new Promise<void>((resolve) => {
+                idleListeners.push(resolve);
+                next();
+            }),
+    };
+};
+
+export type UploadQueue = ReturnType<typeof createUploadQueue>;
@@ -0,0 +1,243 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { type NextFunction, type Request, type Response } from 'express';
+
+import { createSignedToken, verifySignedToken } from './signing';
+import { getStorages } from './storage';
+
+// The request carries no valid token, responded with `401`
+export const UNAUTHORIZED = 'UNAUTHORIZED';
+// The token is valid, but its user may not do this, responded with `403`
+export const FORBIDDEN = 'FORBIDDEN';
+export const TOKEN_NOT_FOUND = 'TOKEN_NOT_FOUND';
+
+export type ApiToken = {
+    id: string;
+    // The user the token belongs to, whose files live in the namespace of the same name
+    user: string;
+    // Administrators may issue and revoke tokens and manage every upload in progress
+    admin: boolean;
+    // ISO 8601 timestamp
+    createdAt: string;
+    // Only the SHA-256 digest of the token is stored, so a leaked token file gives no access
+    tokenHash: string;
+};
+
+// A token as listed to administrators
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash'>;
+
+export type AuthUser = {
+    // `null` when authentication is not required
+    name: string | null;
+    admin: boolean;
+    // Files, uploads and events of other namespaces are unknown to the user
+    namespace: string;
+    // The token the user authenticated with, `null` when authentication is not required
+    tokenId: string | null;
+};
+
+// Everybody shares the namespace `''` when authentication is not required, and may administrate it
+const ANONYMOUS_USER: AuthUser = { name: null, admin: true, namespace: '', tokenId: null };
+
+// How long signed URLs are valid, in seconds
+const SIGNED_URL_TTL = 15 * 60;
+const SIGNATURE_PARAM = 'signature';
+// Signed URLs only read, the forms posting the files to put into an archive included
+const SIGNABLE_POST_PATHS = new Set(['/api/archive']);
+
+// What the signature of a URL covers, so none of it can be changed without the secret
+type UrlSignature = {
+    tokenId: string;
+    method: 'GET' | 'POST';
+    // The path and the query, without the signature
+    url: string;
+    // ISO 8601 timestamp
+    expiresAt: string;
+};
+
+const TOKENS_KEY = 'tokens.json';
+// User names end up in storage keys
+const USER_NAME_REGEX = /^[\w-]{1,64}$/;
+
+export const isUserName = (value: unknown): value is string => typeof value === 'string' && USER_NAME_REGEX.test(value);
+
+// Read on every request, like the upload policy. Only `false` turns authentication off.
+export const isAuthRequired = (env = process.env) => env.AUTH_REQUIRED !== 'false';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toSummary = ({ tokenHash: _tokenHash, ...summary }: ApiToken): ApiTokenSummary => summary;
+
+// The file changes behind the server's back when tokens are issued from the command line, so it is read again then
+let cache: { modifiedAt: number; size: number; tokens: ApiToken[] } | undefined;
+// Writes are chained, so concurrent requests never drop each other's tokens
+let queue: Promise<unknown> = Promise.resolve();
+
+const readTokens = async (): Promise<ApiToken[]> => {
+    const { data } = getStorages();
+    const entry = await data.stat(TOKENS_KEY);
+    if (!entry) {
+        return [];
+    }
+    if (cache?.modifiedAt !== entry.modifiedAt.getTime() || cache.size !== entry.size) {
+        const tokens = JSON.parse(await text(await data.get(TOKENS_KEY))) as ApiToken[];
+        cache = { modifiedAt: entry.modifiedAt.getTime(), size: entry.size, tokens };
+    }
+    return cache.tokens;
+};
+
+const updateTokens = <T>(updater: (tokens: ApiToken[]) => { tokens: ApiToken[]; result: T }) => {
+    const next = queue.then(async () => {
+        const { tokens, result } = updater(await readTokens());
+        await getStorages().data.put(TOKENS_KEY, Readable.from([JSON.stringify(tokens, null, 2)]));
+        cache = undefined;
+        return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+};
+
+export const listTokens = async () => {
+    const tokens = await readTokens();
+    return tokens.map(toSummary);
+};
+
+// Resolves with the token itself, which is never shown again
+export const issueToken = (user: string, { admin = false } = {}) =>
+    updateTokens((tokens) => {
+        const token = randomBytes(32).toString('base64url');
+        const issued: ApiToken = {
+            id: randomUUID(),
+            user,
+            admin,
+            createdAt: new Date().toISOString(),
+            tokenHash: hashToken(token),
+        };
+        return { tokens: [...tokens, issued], result: { ...toSummary(issued), token } };
+    });
+
+// Resolves to `false` when there is no token with the id
+export const revokeToken = (id: string) =>
+    updateTokens((tokens) => {
+        const remaining = tokens.filter((token) => token.id !== id);
+        return { tokens: remaining, result: remaining.length < tokens.length };
+    });
+
+// Resolves to `null` when the token was never issued or is revoked
+export const findToken = async (token: string) => {
+    const tokenHash = hashToken(token);
+    const tokens = await readTokens();
+    return tokens.find((issued) => issued.tokenHash === tokenHash) ?? null;
+};
+
+// The bearer token of the request, see RFC 6750
+const getRequestToken = (req: Request) => /^bearer\s+(\S+)$/i.exec(req.get('Authorization') ?? '')?.[1] ?? null;
+
+// Resolves to `null` when the token was never issued or is revoked
+const findTokenById = async (id: string) => {
+    const tokens = await readTokens();
+    return tokens.find((issued) => issued.id === id) ?? null;
+};
+
+// The same URL signs and verifies alike however its query is written, the signature itself is left out
+const normalizeSignedUrl = (url: string) => {
+    const parsed = new URL(url, 'http://localhost');
+    parsed.searchParams.delete(SIGNATURE_PARAM);
+    return `${parsed.pathname}${parsed.search}`;
+};
+
+/**
+ * Signs the URLs with the token for `SIGNED_URL_TTL`. Resolves to `null` when any of them cannot be signed,
+ * only URLs of the API that read can.
+ */
+export const signUrls = async (tokenId: string, urls: string[], method: UrlSignature['method']) => {
+    const isSignable = (url: string) => {
+        const { pathname } = new URL(url, 'http://localhost');
+        return (
+            url.startsWith('/api/') &&
+            pathname.startsWith('/api/') &&
+            (method === 'GET' || SIGNABLE_POST_PATHS.has(pathname))
+        );
+    };
+    if (!urls.every(isSignable)) {
+        return null;
+    }
+    const normalized = urls.map(normalizeSignedUrl);
+
+    const expiresAt = new Date(Date.now() + SIGNED_URL_TTL * 1000).toISOString();
+    const signed = await Promise.all(
+        normalized.map(async (url) => {
+            const signature: UrlSignature = { tokenId, method, url, expiresAt };
+            const token = await createSignedToken(signature);
+            return `${url}${url.includes('?') ? '&' : '?'}${SIGNATURE_PARAM}=${token}`;
+        })
+    );
+    return { urls: signed, expiresAt };
+};
+
+const isUrlSignature = (value: unknown): value is UrlSignature => {
+    const { tokenId, method, url, expiresAt } = (value ?? {}) as Partial<Record<keyof UrlSignature, unknown>>;
+    return (
+        typeof tokenId === 'string' &&
+        (method === 'GET' || method === 'POST') &&
+        typeof url === 'string' &&
+        typeof expiresAt === 'string'
+    );
+};
+
+/**
+ * Browsers cannot send headers along with links, media, `EventSource` and form submissions, those request signed
+ * URLs instead. Resolves with the token that signed the URL, or `null` when the signature is not valid, expired,
+ * or signed another request.
+ */
+const findUrlToken = async (req: Request) => {
+    const signature = req.query[SIGNATURE_PARAM];
+    if (typeof signature !== 'string') {
+        return null;
+    }
+    const payload = await verifySignedToken(signature);
+    if (!isUrlSignature(payload) || Date.parse(payload.expiresAt) <= Date.now()) {
+        return null;
+    }
+    const method = req.method === 'HEAD' ? 'GET' : req.method;
+    if (payload.method !== method || payload.url !== normalizeSignedUrl(req.originalUrl)) {
+        return null;
+    }
+    return findTokenById(payload.tokenId);
+};
+
+export const getUser = (res: Response) => res.locals.user as AuthUser;
+
+const findRequestUser = async (req: Request): Promise<AuthUser | null> => {
+    if (!isAuthRequired()) {
+        return ANONYMOUS_USER;
+    }
+    const token = getRequestToken(req);
+    const found = token ? await findToken(token) : await findUrlToken(req);
+    return found && { name: found.user, admin: found.admin, namespace: found.user, tokenId: found.id };
+};
+
+// Identifies the user of every request, and responds with `401` when a token is required but missing or not valid
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+    findRequestUser(req)
+        .then((user) => {
+            if (!user) {
+                res.setHeader('WWW-Authenticate', 'Bearer');
+                return res
+                    .status(401)
+                    .json({ error: 'A valid token is required, send it as a bearer token', code: UNAUTHORIZED });
+            }
+            res.locals.user = user;
+            next();
+        })
+        .catch(next);
+};
+
+export const requireAdmin = (_req: Request, res: Response, next: NextFunction) => {
+    if (!getUser(res).admin) {
+        return res.status(403).json({ error: 'Only administrators may do this', code: FORBIDDEN });
+    }
+    next();
+};
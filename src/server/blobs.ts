@@ -0,0 +1,67 @@
+import { randomUUID } from 'node:crypto';
+import stream, { type Readable, type Transform } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+
+import { createDigestStream } from './integrity';
+import { getStorages, type StorageEntry, type StorageRange } from './storage';
+
+// No stored file has the requested content, it has to be uploaded
+export const BLOB_NOT_FOUND = 'BLOB_NOT_FOUND';
+
+export type BlobContent = { sha256: string; size: number };
+
+// Content that was received, but is not stored under its digest yet
+export type ReceivedBlob = BlobContent & { tempKey: string };
+
+// Spread over directories named after the first two digits, so none of them grows too big
+const getBlobKey = (sha256: string) => `${sha256.slice(0, 2)}/${sha256}`;
+
+// Errors of any of the transforms fail the returned stream, so the storage reading it does not wait forever
+export const pipeThrough = (source: Readable, ...transforms: Transform[]) =>
+    stream.pipeline([source, ...transforms], () => undefined) as unknown as Readable;
+
+/**
+ * Writes the content to a hidden temporary key of the blob storage while computing its digest,
+ * so concurrent uploads never write into each other. It is either stored with `storeBlob` or dropped with `discardBlob`.
+ */
+export const receiveBlob = async (source: Readable, ...transforms: Transform[]): Promise<ReceivedBlob> => {
+    const tempKey = `.${randomUUID()}.tmp`;
+    const digest = createDigestStream();
+    await getStorages().blobs.put(tempKey, pipeThrough(source, ...transforms, digest.stream));
+    return { tempKey, sha256: digest.getDigest(), size: digest.getSize() };
+};
+
+// Moves received content to its digest, content that is stored already is simply dropped
+export const storeBlob = async ({ tempKey, sha256 }: ReceivedBlob) => {
+    const { blobs } = getStorages();
+    if (await blobs.stat(getBlobKey(sha256))) {
+        await blobs.delete(tempKey);
+    } else {
+        await blobs.move(tempKey, getBlobKey(sha256), { overwrite: true });
+    }
+};
+
+// Does nothing once the content was stored
+export const discardBlob = async ({ tempKey }: ReceivedBlob) => {
+    await getStorages().blobs.delete(tempKey);
+};
+
+export const statBlob = (sha256: string): Promise<StorageEntry | null> => getStorages().blobs.stat(getBlobKey(sha256));
+
+export const readBlob = (sha256: string, range?: StorageRange) => getStorages().blobs.get(getBlobKey(sha256), range);
+
+// Received content can be read before it is stored, e.g. to process it further
+export const readReceivedBlob = ({ tempKey }: ReceivedBlob, range?: StorageRange) =>
+    getStorages().blobs.get(tempKey, range);
+
+// The first bytes of the content, to tell its type
+export const readBlobHead = async (sha256: string, length: number) =>
+    buffer(await getStorages().blobs.get(getBlobKey(sha256), { start: 0, end: length - 1 }));
+
+export const deleteBlob = (sha256: string) => getStorages().blobs.delete(getBlobKey(sha256));
+
+// The digests of every stored content, whether any file refers to it or not
+export const listBlobs = async () => {
+    const entries = await getStorages().blobs.list();
+    return entries.map(({ key }) => key.slice(key.lastIndexOf('/') + 1));
+};
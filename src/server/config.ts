@@ -0,0 +1,7 @@
+// `disk` keeps everything in the folders below, `memory` keeps it in the process until it exits
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'disk';
+
+export const UPLOAD_DIR = process.env.UPLOAD_DIR ?? 'uploads';
+export const BLOB_DIR = process.env.BLOB_DIR ?? 'uploads-blobs';
+export const CHUNK_DIR = process.env.CHUNK_DIR ?? 'uploads-chunks';
+export const DATA_DIR = process.env.DATA_DIR ?? 'uploads-data';
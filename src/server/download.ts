@@ -0,0 +1,296 @@
+import { randomBytes } from 'node:crypto';
+import { extname } from 'node:path';
+import { PassThrough, pipeline, type Readable } from 'node:stream';
+import { pipeline as pipelineAsync } from 'node:stream/promises';
+
+import { type Request, type Response } from 'express';
+
+import { getErrorCode } from './files';
+import { type StorageAdapter, type StorageEntry } from './storage';
+
+export type ByteRange = { start: number; end: number };
+
+// Serving many tiny ranges costs more than serving the whole file, so such requests get the whole file instead
+const MAX_RANGES = 20;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.txt': 'text/plain; charset=utf-8',
+    '.csv': 'text/csv; charset=utf-8',
+    '.md': 'text/markdown; charset=utf-8',
+    '.html': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.xml': 'application/xml',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.ico': 'image/x-icon',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg',
+    '.mp4': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+};
+
+export const getContentType = (fileName: string) =>
+    CONTENT_TYPES[extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+
+// The content type without its parameters, e.g. `text/plain`
+export const getMimeType = (fileName: string) => getContentType(fileName).split(';')[0];
+
+/**
+ * Whether browsers only display content of this type, without running scripts in it. Anything else, e.g. HTML, SVG or
+ * XML, could run scripts on this origin, where the access token is kept, so it is only ever sent as an attachment.
+ */
+export const isPassiveContentType = (contentType: string) => {
+    const mimeType = contentType.split(';')[0];
+    return (
+        (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') ||
+        mimeType.startsWith('video/') ||
+        mimeType.startsWith('audio/') ||
+        mimeType === 'text/plain'
+    );
+};
+
+// Plain `filename` for old clients, plus the RFC 5987 encoded `filename*` for names outside of ASCII
+export const getContentDisposition = (fileName: string, type: 'inline' | 'attachment') => {
+    const fallback = fileName.replaceAll(/[^\u0020-\u007E]|["\\]/g, '_');
+    // `encodeURIComponent` leaves a few characters untouched that are not allowed in `filename*`
+    const encoded = encodeURIComponent(fileName).replaceAll(
+        /['()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+export const getETag = (entry: StorageEntry, sha256?: string) =>
+    sha256 ? `"${sha256}"` : `"${entry.size.toString(16)}-${entry.modifiedAt.getTime().toString(16)}"`;
+
+// Resolves to `null` when the header should be ignored and the whole file served, as allowed by RFC 9110
+export const parseRange = (header: string, size: number): ByteRange[] | 'unsatisfiable' | null => {
+    const match = /^bytes=(.+)$/.exec(header.trim());
+    if (!match) {
+        return null;
+    }
+
+    const ranges: ByteRange[] = [];
+    for (const part of match[1].split(',')) {
+        const rangeMatch = /^(\d*)-(\d*)$/.exec(part.trim());
+        if (!rangeMatch || (rangeMatch[1] === '' && rangeMatch[2] === '')) {
+            return null;
+        }
+
+        if (rangeMatch[1] === '') {
+            // Suffix range: the last N bytes
+            const suffixLength = Number(rangeMatch[2]);
+            if (suffixLength > 0 && size > 0) {
+                ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+            }
+            continue;
+        }
+
+        const start = Number(rangeMatch[1]);
+        const end = rangeMatch[2] === '' ? size - 1 : Math.min(Number(rangeMatch[2]), size - 1);
+        if (rangeMatch[2] !== '' && Number(rangeMatch[2]) < start) {
+            return null;
+        }
+        if (start < size) {
+            ranges.push({ start, end });
+        }
+    }
+
+    if (ranges.length === 0) {
+        return 'unsatisfiable';
+    }
+
+    return ranges.length > MAX_RANGES ? null : ranges;
+};
+
+const isFresh = (req: Request, etag: string, lastModified: Date) => {
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch) {
+        return ifNoneMatch
+            .split(',')
+            .map((tag) => tag.trim().replace(/^W\//, ''))
+            .some((tag) => tag === '*' || tag === etag);
+    }
+
+    const ifModifiedSince = req.headers['if-modified-since'];
+    if (ifModifiedSince) {
+        const since = Date.parse(ifModifiedSince);
+        // HTTP dates have a one second precision
+        return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+    }
+
+    return false;
+};
+
+// A range is only honored when `If-Range` is absent or still matches the current representation
+const isRangeFresh = (req: Request, etag: string, lastModified: Date) => {
+    const ifRange = req.get('If-Range');
+    if (!ifRange) {
+        return true;
+    }
+
+    if (ifRange.startsWith('"')) {
+        return ifRange === etag;
+    }
+
+    const date = Date.parse(ifRange);
+    return !Number.isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 === date;
+};
+
+// What a request for the file is answered with: the whole file, some of its ranges, or no content at all
+type FileResponse = { status: 200 } | { status: 206; ranges: ByteRange[] } | { status: 304 | 416 };
+
+const getFileResponse = (req: Request, entry: StorageEntry, etag: string): FileResponse => {
+    if (isFresh(req, etag, entry.modifiedAt)) {
+        return { status: 304 };
+    }
+
+    const rangeHeader = req.headers.range;
+    const ranges =
+        rangeHeader && isRangeFresh(req, etag, entry.modifiedAt) ? parseRange(rangeHeader, entry.size) : null;
+    if (ranges === 'unsatisfiable') {
+        return { status: 416 };
+    }
+    return ranges ? { status: 206, ranges } : { status: 200 };
+};
+
+// The status `sendFile` responds with, e.g. to tell whether the whole file is sent before sending it
+export const getResponseStatus = (req: Request, entry: StorageEntry, sha256?: string) =>
+    getFileResponse(req, entry, getETag(entry, sha256)).status;
+
+type OpenStream = (range?: ByteRange) => Promise<Readable>;
+
+const createMultipartStream = (
+    ranges: ByteRange[],
+    size: number,
+    contentType: string,
+    boundary: string,
+    open: OpenStream
+) => {
+    const getPartHeader = (range: ByteRange, index: number) =>
+        `${index > 0 ? '\r\n' : ''}--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`;
+    const trailer = `\r\n--${boundary}--\r\n`;
+
+    const contentLength =
+        ranges.reduce(
+            (length, range, index) =>
+                length + Buffer.byteLength(getPartHeader(range, index)) + (range.end - range.start + 1),
+            0
+        ) + Buffer.byteLength(trailer);
+
+    const writeParts = async (body: PassThrough) => {
+        for (let index = 0; index < ranges.length; index++) {
+            const range = ranges[index];
+            body.write(getPartHeader(range, index));
+            // Stream every range one after the other, respecting backpressure, each is closed once the body is gone
+            await pipelineAsync(await open(range), body, { end: false });
+        }
+        body.end(trailer);
+    };
+
+    // Parts are only read once the body is requested, so HEAD requests never open the file
+    const getBody = () => {
+        const body = new PassThrough();
+        writeParts(body).catch((error: Error) => body.destroy(error));
+        return Promise.resolve(body);
+    };
+
+    return { getBody, contentLength };
+};
+
+export const sendFile = (
+    req: Request,
+    res: Response,
+    {
+        storage,
+        entry,
+        fileName,
+        sha256,
+        disposition,
+    }: {
+        storage: StorageAdapter;
+        entry: StorageEntry;
+        fileName: string;
+        sha256?: string;
+        disposition: 'inline' | 'attachment';
+    }
+) => {
+    const open: OpenStream = (range) => storage.get(entry.key, range);
+    const etag = getETag(entry, sha256);
+    const contentType = getContentType(fileName);
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', entry.modifiedAt.toUTCString());
+    res.setHeader(
+        'Content-Disposition',
+        getContentDisposition(fileName, isPassiveContentType(contentType) ? disposition : 'attachment')
+    );
+    // Browsers neither guess another type from the content nor run scripts in it, even when it is opened directly
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', 'sandbox');
+
+    const response = getFileResponse(req, entry, etag);
+    if (response.status === 304) {
+        return res.status(304).end();
+    }
+    if (response.status === 416) {
+        res.setHeader('Content-Range', `bytes */${entry.size}`);
+        return res.status(416).end();
+    }
+
+    const ranges = response.status === 206 ? response.ranges : null;
+    let getBody: () => Promise<Readable>;
+    if (ranges?.length === 1) {
+        const [range] = ranges;
+        res.status(206);
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${entry.size}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+        getBody = () => open(range);
+    } else if (ranges) {
+        const boundary = randomBytes(12).toString('hex');
+        const multipart = createMultipartStream(ranges, entry.size, contentType, boundary, open);
+        res.status(206);
+        res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+        res.setHeader('Content-Length', multipart.contentLength);
+        getBody = multipart.getBody;
+    } else {
+        res.status(200);
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Length', entry.size);
+        getBody = () => open();
+    }
+
+    if (req.method === 'HEAD') {
+        return res.end();
+    }
+
+    // Clients dropping the download are no error, the file is closed either way
+    const fail = (error: Error | null) => {
+        if (error && getErrorCode(error) !== 'ERR_STREAM_PREMATURE_CLOSE') {
+            console.error('Error streaming file:', error);
+        }
+    };
+    getBody()
+        .then((body) => {
+            pipeline(body, res, fail);
+        })
+        .catch((error: Error) => {
+            fail(error);
+            res.destroy(error);
+        });
+};
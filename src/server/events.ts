@@ -0,0 +1,105 @@
+import { randomUUID } from 'node:crypto';
+
+import { type Request, type Response } from 'express';
+
+import { type FileMetadata } from './metadata';
+
+export type ServerEvent =
+    | { type: 'file-added'; data: { file: FileMetadata } }
+    | { type: 'file-updated'; data: { file: FileMetadata } }
+    | { type: 'file-renamed'; data: { from: string; file: FileMetadata } }
+    | { type: 'file-deleted'; data: { name: string } }
+    // Sent for every stored chunk, the last one has as many `receivedChunks` as `totalChunks`
+    | {
+          type: 'upload-progress';
+          data: { uploadId: string; fileName: string; receivedChunks: number; totalChunks: number };
+      }
+    // The upload was merged, failed, aborted or expired, its session is gone either way
+    | { type: 'upload-ended'; data: { uploadId: string } };
+
+// Only the clients of the namespace the event happened in receive it
+type PublishedEvent = ServerEvent & { id: string; namespace: string };
+
+// Events kept for clients catching up after a dropped connection
+const HISTORY_SIZE = 1000;
+// How long browsers wait before reconnecting, in milliseconds
+const RETRY_DELAY = 2000;
+// Proxies close connections that stay silent for too long
+const HEARTBEAT_INTERVAL = 30_000;
+
+// Event ids only mean something to the process that sent them, a restarted server starts over
+const instanceId = randomUUID();
+let lastSequence = 0;
+const history: PublishedEvent[] = [];
+const listeners = new Set<(event: PublishedEvent) => void>();
+
+const getEventId = (sequence: number) => `${instanceId}:${sequence}`;
+
+export const publishEvent = (namespace: string, event: ServerEvent) => {
+    lastSequence++;
+    const published = { ...event, id: getEventId(lastSequence), namespace };
+    history.push(published);
+    if (history.length > HISTORY_SIZE) {
+        history.shift();
+    }
+    for (const listener of listeners) {
+        listener(published);
+    }
+};
+
+/**
+ * The events published after the one with `lastEventId`, resolves to `null` when they cannot be told anymore,
+ * because the id comes from another server process or the events were dropped from the history.
+ */
+export const getEventsSince = (lastEventId: string): PublishedEvent[] | null => {
+    const [instance, sequence] = lastEventId.split(':');
+    const lastSeen = Number(sequence);
+    if (instance !== instanceId || !Number.isInteger(lastSeen) || lastSeen > lastSequence) {
+        return null;
+    }
+
+    const missed = lastSequence - lastSeen;
+    return missed > history.length ? null : history.slice(history.length - missed);
+};
+
+const formatEvent = ({ id, type, data }: { id: string; type: string; data: unknown }) =>
+    `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Streams the events of the namespace to the client as Server-Sent Events. Clients reconnecting with `Last-Event-ID`, or the
+ * `lastEventId` query parameter, first receive the events they missed, or a `reset` event when those are unknown.
+ * New clients receive a `connected` event instead.
+ */
+export const streamEvents = (req: Request, res: Response, namespace: string) => {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_DELAY}\n\n`);
+
+    const lastEventId = req.get('Last-Event-ID') ?? req.query.lastEventId;
+    if (typeof lastEventId === 'string' && lastEventId.length > 0) {
+        const missed = getEventsSince(lastEventId);
+        if (missed) {
+            for (const event of missed.filter((missedEvent) => missedEvent.namespace === namespace)) {
+                res.write(formatEvent(event));
+            }
+        } else {
+            // The client has to fetch everything again, and continues from the latest event
+            res.write(formatEvent({ id: getEventId(lastSequence), type: 'reset', data: {} }));
+        }
+    } else {
+        // Gives new clients an id to reconnect with, even when nothing happens before their connection drops
+        res.write(formatEvent({ id: getEventId(lastSequence), type: 'connected', data: {} }));
+    }
+
+    const send = (event: PublishedEvent) => event.namespace === namespace && res.write(formatEvent(event));
+    listeners.add(send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        listeners.delete(send);
+    });
+};
@@ -0,0 +1,134 @@
+import { extname } from 'node:path';
+
+import { createStorageError } from './storage';
+
+export const FILE_NOT_FOUND = 'FILE_NOT_FOUND';
+export const FILE_EXISTS = 'FILE_EXISTS';
+export const INVALID_FILE_NAME = 'INVALID_FILE_NAME';
+
+export const COLLISION_POLICIES = ['reject', 'overwrite', 'rename'] as const;
+export type CollisionPolicy = (typeof COLLISION_POLICIES)[number];
+
+export const isCollisionPolicy = (value: unknown): value is CollisionPolicy =>
+    COLLISION_POLICIES.includes(value as CollisionPolicy);
+
+// Server-wide default, each upload can still pick its own policy
+export const DEFAULT_COLLISION_POLICY: CollisionPolicy = isCollisionPolicy(process.env.UPLOAD_COLLISION_POLICY)
+    ? process.env.UPLOAD_COLLISION_POLICY
+    : 'rename';
+
+// Most file systems limit names to 255 bytes
+const MAX_FILE_NAME_BYTES = 255;
+// Names Windows refuses to create, whatever their extension
+const RESERVED_NAME_REGEX = /^(?:con|prn|aux|nul|com\d|lpt\d)$/i;
+// Control characters and the characters forbidden on Windows
+// eslint-disable-next-line no-control-regex
+const UNSAFE_CHARACTERS_REGEX = /[\u0000-\u001F"*:<>?|\u007F]/g;
+
+const truncateToBytes = (value: string, maxBytes: number) => {
+    let result = '';
+    for (const char of value) {
+        if (Buffer.byteLength(result + char) > maxBytes) {
+            break;
+        }
+        result += char;
+    }
+    return result;
+};
+
+// Turns a client provided name into a safe, plain file name. Resolves to `null` when nothing usable is left.
+export const sanitizeFileName = (value: string): string | null => {
+    // Only keep the last path segment, whatever separator the client used
+    const baseName = value.normalize('NFC').split(/[/\\]/).pop() ?? '';
+
+    let fileName = baseName
+        .replaceAll(UNSAFE_CHARACTERS_REGEX, '_')
+        .trim()
+        // Hidden files and `.`/`..` are not allowed, trailing dots and spaces are dropped by Windows
+        .replace(/^[\s.]+/, '')
+        .replace(/[\s.]+$/, '');
+
+    const extension = extname(fileName);
+    const stem = fileName.slice(0, fileName.length - extension.length);
+    if (RESERVED_NAME_REGEX.test(stem.split('.')[0])) {
+        fileName = `_${fileName}`;
+    }
+
+    if (Buffer.byteLength(fileName) > MAX_FILE_NAME_BYTES) {
+        const stemBytes = Math.max(1, MAX_FILE_NAME_BYTES - Buffer.byteLength(extension));
+        fileName = `${truncateToBytes(fileName.slice(0, fileName.length - extension.length), stemBytes)}${extension}`;
+    }
+
+    return fileName.length > 0 ? fileName : null;
+};
+
+// Deeper paths are most likely a mistake and would make listings hard to navigate
+const MAX_PATH_DEPTH = 32;
+
+/**
+ * Turns a client provided relative path, e.g. `photos/2024/beach.jpg`, into sanitized segments joined with `/`.
+ * Empty, `.` and `..` segments are dropped, so the path never leads out of the upload folder.
+ * Resolves to `null` when no file name is left.
+ */
+export const sanitizeFilePath = (value: string): string | null => {
+    const segments = value.split(/[/\\]/);
+    const fileName = sanitizeFileName(segments.pop() ?? '');
+    const directories = segments.map(sanitizeFileName).filter((segment): segment is string => segment !== null);
+    if (!fileName || directories.length >= MAX_PATH_DEPTH) {
+        return null;
+    }
+
+    return [...directories, fileName].join('/');
+};
+
+// Only sanitized relative paths address stored files, never paths leading out of the upload folder
+export const isStoredFilePath = (value: unknown): value is string =>
+    typeof value === 'string' && value.length > 0 && sanitizeFilePath(value) === value;
+
+export const getErrorCode = (error: unknown) => (error as NodeJS.ErrnoException | null)?.code;
+
+// `file.txt`, `file (1).txt`, `file (2).txt`, ...
+const getCandidateName = (fileName: string, attempt: number) => {
+    if (attempt === 0) {
+        return fileName;
+    }
+
+    const extension = extname(fileName);
+    return `${fileName.slice(0, fileName.length - extension.length)} (${attempt})${extension}`;
+};
+
+// A file in place of one of its directories, or files below it as a directory, keep a name from being used at all
+const isBlockedByDirectories = (fileNames: Record<string, unknown>, fileName: string) => {
+    const segments = fileName.split('/');
+    for (let length = 1; length < segments.length; length++) {
+        if (segments.slice(0, length).join('/') in fileNames) {
+            return true;
+        }
+    }
+    return Object.keys(fileNames).some((name) => name.startsWith(`${fileName}/`));
+};
+
+/**
+ * Resolves the name a new file is stored under among the `fileNames` taken already, with the given collision policy.
+ * Throws an `EEXIST` error for the `reject` policy, and when directories are in the way.
+ */
+export const resolveFileName = (fileNames: Record<string, unknown>, fileName: string, policy: CollisionPolicy) => {
+    for (let attempt = 0; ; attempt++) {
+        const candidate = getCandidateName(fileName, attempt);
+        // Another name does not help when a file is in the way of the directories
+        if (isBlockedByDirectories(fileNames, candidate)) {
+            throw createStorageError('EEXIST', `Directories are in the way of ${candidate}`);
+        }
+        if (!(candidate in fileNames) || policy === 'overwrite') {
+            return candidate;
+        }
+        if (policy === 'reject') {
+            throw createStorageError('EEXIST', `${candidate} already exists`);
+        }
+    }
+};
+
+// Renamed and copied files neither replace others, nor get another name
+export const assertFileNameAvailable = (fileNames: Record<string, unknown>, fileName: string) => {
+    resolveFileName(fileNames, fileName, 'reject');
+};
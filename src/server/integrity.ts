@@ -0,0 +1,40 @@
+import { createHash } from 'node:crypto';
+import { Transform } from 'node:stream';
+
+// A single upload or chunk did not match its checksum, sending it again may succeed
+export const CHECKSUM_MISMATCH = 'CHECKSUM_MISMATCH';
+// The merged file did not match the checksum of the whole file, the upload has to start over
+export const FILE_CHECKSUM_MISMATCH = 'FILE_CHECKSUM_MISMATCH';
+
+const SHA256_HEX_REGEX = /^[\da-f]{64}$/;
+
+export const isSha256 = (value: unknown): value is string =>
+    typeof value === 'string' && SHA256_HEX_REGEX.test(value.toLowerCase());
+
+// Checksums are optional in every upload route, but must be valid when sent
+export const isOptionalSha256 = (value: unknown): value is string | undefined => value === undefined || isSha256(value);
+
+// Passes data through untouched while computing its digest, SHA-256 unless told otherwise, to be placed in a pipeline
+export const createDigestStream = (algorithm = 'sha256') => {
+    const hash = createHash(algorithm);
+    let size = 0;
+    let digest: string | undefined;
+
+    const stream = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            hash.update(chunk);
+            size += chunk.length;
+            callback(null, chunk);
+        },
+    });
+
+    return {
+        stream,
+        // Only available once the stream ended
+        getDigest: () => {
+            digest ??= hash.digest('hex');
+            return digest;
+        },
+        getSize: () => size,
+    };
+};
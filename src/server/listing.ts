@@ -0,0 +1,235 @@
+import { extname } from 'node:path';
+
+import { isStoredFilePath } from './files';
+import { listVersions, type FileMetadata } from './metadata';
+
+export const SORT_FIELDS = ['name', 'size', 'date'] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export type ListQuery = {
+    sort: SortField;
+    order: SortOrder;
+    offset: number;
+    limit: number;
+    // Relative path of the directory to list, the upload folder itself when empty
+    directory: string;
+    // Whether files in subdirectories are listed too
+    recursive: boolean;
+    // Case insensitive substring of the file name
+    search?: string;
+    // Lower case extensions without their dot, e.g. `png`
+    extensions?: string[];
+    minSize?: number;
+    maxSize?: number;
+};
+
+export type ListPage = {
+    files: FileMetadata[];
+    // Names of the subdirectories right inside the listed directory
+    directories: string[];
+    // Number of files matching the filters, across all pages
+    total: number;
+    offset: number;
+    limit: number;
+};
+
+export type StorageUsage = {
+    // The size of all files, as if each of them was stored on its own
+    logicalSize: number;
+    // The size they actually take up with their previous versions, files and versions with the same content share it
+    diskUsage: number;
+};
+
+const parseNonNegativeInteger = (value: unknown) => {
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+        return null;
+    }
+    const number = Number(value);
+    return Number.isSafeInteger(number) ? number : null;
+};
+
+// Resolves to an error message when a parameter is not valid, missing ones fall back to their default
+export const parseListQuery = (query: Record<string, unknown>): ListQuery | string => {
+    const {
+        sort = 'name',
+        order = 'asc',
+        offset = '0',
+        limit = `${DEFAULT_LIMIT}`,
+        dir = '',
+        recursive = 'true',
+        q,
+        ext,
+        minSize,
+        maxSize,
+    } = query;
+
+    if (!SORT_FIELDS.includes(sort as SortField)) {
+        return `\`sort\` must be one of ${SORT_FIELDS.join(', ')}.`;
+    }
+    if (!SORT_ORDERS.includes(order as SortOrder)) {
+        return `\`order\` must be one of ${SORT_ORDERS.join(', ')}.`;
+    }
+
+    const parsedOffset = parseNonNegativeInteger(offset);
+    if (parsedOffset === null) {
+        return '`offset` must be a non-negative integer.';
+    }
+    const parsedLimit = parseNonNegativeInteger(limit);
+    if (parsedLimit === null || parsedLimit < 1 || parsedLimit > MAX_LIMIT) {
+        return `\`limit\` must be an integer between 1 and ${MAX_LIMIT}.`;
+    }
+
+    if (dir !== '' && !isStoredFilePath(dir)) {
+        return '`dir` must be a relative path separated by `/`.';
+    }
+    if (recursive !== 'true' && recursive !== 'false') {
+        return '`recursive` must be `true` or `false`.';
+    }
+
+    const listQuery: ListQuery = {
+        sort: sort as SortField,
+        order: order as SortOrder,
+        offset: parsedOffset,
+        limit: parsedLimit,
+        directory: dir,
+        recursive: recursive === 'true',
+    };
+
+    if (q !== undefined) {
+        if (typeof q !== 'string') {
+            return '`q` must be a string.';
+        }
+        listQuery.search = q.trim().toLowerCase() || undefined;
+    }
+
+    if (ext !== undefined) {
+        if (typeof ext !== 'string') {
+            return '`ext` must be a comma separated list of extensions.';
+        }
+        const extensions = ext
+            .split(',')
+            .map((extension) => extension.trim().replace(/^\./, '').toLowerCase())
+            .filter((extension) => extension.length > 0);
+        listQuery.extensions = extensions.length > 0 ? extensions : undefined;
+    }
+
+    for (const [key, value] of Object.entries({ minSize, maxSize })) {
+        if (value === undefined || value === '') {
+            continue;
+        }
+        const size = parseNonNegativeInteger(value);
+        if (size === null) {
+            return `\`${key}\` must be a size in bytes.`;
+        }
+        listQuery[key as 'minSize' | 'maxSize'] = size;
+    }
+
+    return listQuery;
+};
+
+const getExtension = (fileName: string) => extname(fileName).slice(1).toLowerCase();
+
+const compareBy: Record<SortField, (a: FileMetadata, b: FileMetadata) => number> = {
+    name: (a, b) => a.name.localeCompare(b.name),
+    size: (a, b) => a.size - b.size,
+    date: (a, b) => Date.parse(a.uploadedAt) - Date.parse(b.uploadedAt),
+};
+
+export const queryFiles = (files: FileMetadata[], query: ListQuery): ListPage => {
+    const { directory, recursive, search, extensions, minSize, maxSize } = query;
+    const prefix = directory ? `${directory}/` : '';
+
+    const directories = new Set<string>();
+    const inDirectory = files.filter((file) => {
+        if (!file.name.startsWith(prefix)) {
+            return false;
+        }
+
+        const [child, ...rest] = file.name.slice(prefix.length).split('/');
+        if (rest.length > 0) {
+            directories.add(child);
+        }
+        return recursive || rest.length === 0;
+    });
+
+    const matching = inDirectory.filter(
+        (file) =>
+            (!search || file.name.toLowerCase().includes(search)) &&
+            (!extensions || extensions.includes(getExtension(file.name))) &&
+            (minSize === undefined || file.size >= minSize) &&
+            (maxSize === undefined || file.size <= maxSize)
+    );
+
+    const direction = query.order === 'asc' ? 1 : -1;
+    // Ties are broken by name, so pages stay stable whatever the sort field
+    matching.sort((a, b) => (compareBy[query.sort](a, b) || compareBy.name(a, b)) * direction);
+
+    return {
+        files: matching.slice(query.offset, query.offset + query.limit),
+        directories: [...directories].sort((a, b) => a.localeCompare(b)),
+        total: matching.length,
+        offset: query.offset,
+        limit: query.limit,
+    };
+};
+
+export const getUsage = (files: FileMetadata[]): StorageUsage => {
+    const contentSizes = new Map(files.flatMap(listVersions).map((version) => [version.sha256, version.size]));
+    return {
+        logicalSize: files.reduce((total, file) => total + file.size, 0),
+        diskUsage: [...contentSizes.values()].reduce((total, size) => total + size, 0),
+    };
+};
+
+// Files to put into an archive: `files` names them one by one, `dir` adds every file of a directory and its subdirectories
+export type ArchiveSelection = {
+    names: string[];
+    directories: string[];
+};
+
+// Repeated query and form parameters come as arrays
+const toList = (value: unknown) => (value === undefined ? [] : Array.isArray(value) ? (value as unknown[]) : [value]);
+
+// Resolves to an error message when a parameter is not valid or nothing is selected
+export const parseArchiveSelection = (params: { files?: unknown; dir?: unknown }): ArchiveSelection | string => {
+    const names = toList(params.files);
+    const directories = toList(params.dir);
+    if (!names.every(isStoredFilePath) || !directories.every(isStoredFilePath)) {
+        return '`files` and `dir` must be relative paths separated by `/`.';
+    }
+    if (names.length === 0 && directories.length === 0) {
+        return 'Select files with `files` or a directory with `dir`.';
+    }
+    return { names, directories };
+};
+
+// Sorted by name, each file once. Resolves to `null` when a file or directory does not exist.
+export const selectFiles = (files: FileMetadata[], { names, directories }: ArchiveSelection) => {
+    const filesByName = new Map(files.map((file) => [file.name, file]));
+    const selected = new Map<string, FileMetadata>();
+
+    for (const name of names) {
+        const file = filesByName.get(name);
+        if (!file) {
+            return null;
+        }
+        selected.set(name, file);
+    }
+    for (const directory of directories) {
+        const inDirectory = files.filter((file) => file.name.startsWith(`${directory}/`));
+        if (inDirectory.length === 0) {
+            return null;
+        }
+        for (const file of inDirectory) {
+            selected.set(file.name, file);
+        }
+    }
+
+    return [...selected.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
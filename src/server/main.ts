@@ -1,9 +1,12 @@
 import ViteExpress from 'vite-express';
 
 import { app } from './server';
+import { startUploadSweeper } from './sessions';
 
 const PORT = 3000;
 
 ViteExpress.listen(app, PORT, () => {
     console.log(`Server is listening at http://localhost:${PORT}`);
 });
+
+startUploadSweeper();
@@ -0,0 +1,542 @@
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { deleteBlob, listBlobs, receiveBlob, statBlob, storeBlob, type BlobContent, type ReceivedBlob } from './blobs';
+import { getMimeType } from './download';
+import { assertFileNameAvailable, getErrorCode, resolveFileName, type CollisionPolicy } from './files';
+import { createStorageError, getStorages } from './storage';
+
+// `by-hash` files were uploaded by their digest only, their content was stored already
+export type UploadMethod = 'single' | 'chunked' | 'tus' | 'by-hash';
+
+// What the processors found out about a content, once they all ran
+export type FileProcessing = {
+    // `failed` when any of the processors failed, the others keep their results
+    status: 'pending' | 'done' | 'failed';
+    // Keyed by the name of the processor, processors that had nothing to do with the content are left out
+    results: Record<string, Record<string, unknown>>;
+    // The error messages of the failed processors, keyed by their names
+    errors: Record<string, string>;
+};
+
+export type FileMetadata = {
+    name: string;
+    size: number;
+    mimeType: string;
+    // ISO 8601 timestamp
+    uploadedAt: string;
+    // The name the client uploaded the file with, before sanitizing and collision handling
+    originalName: string;
+    // The file's content is stored once for all files that have it, under this digest
+    sha256: string;
+    // Unknown for files that were put into the upload folder by other means
+    uploadMethod?: UploadMethod;
+    // Unknown for files stored while no processor was enabled
+    processing?: FileProcessing;
+    tags: string[];
+    description: string;
+    // Counts up from 1 with every overwrite and restore
+    version: number;
+    // The contents the file had before, newest first, as many as the version limit keeps
+    previousVersions: FileVersion[];
+};
+
+// A content a file had, the tags and the description belong to the file
+export type FileVersion = Pick<
+    FileMetadata,
+    'version' | 'size' | 'mimeType' | 'uploadedAt' | 'originalName' | 'sha256' | 'uploadMethod' | 'processing'
+>;
+
+// A file has no version with the requested number, or no longer keeps it
+export const VERSION_NOT_FOUND = 'VERSION_NOT_FOUND';
+
+const DEFAULT_VERSION_LIMIT = 10;
+
+// Read on every write, like the upload policy. How many versions of a file are kept, the current one included.
+export const getVersionLimit = (env = process.env) => {
+    const limit = Number(env.FILE_VERSION_LIMIT);
+    return env.FILE_VERSION_LIMIT && Number.isInteger(limit) && limit >= 1 ? limit : DEFAULT_VERSION_LIMIT;
+};
+
+const toVersion = ({
+    version,
+    size,
+    mimeType,
+    uploadedAt,
+    originalName,
+    sha256,
+    uploadMethod,
+    processing,
+}: FileMetadata) => ({
+    version,
+    size,
+    mimeType,
+    uploadedAt,
+    originalName,
+    sha256,
+    ...(uploadMethod ? { uploadMethod } : {}),
+    ...(processing ? { processing } : {}),
+});
+
+// Every version of the file, newest first, starting with the current one
+export const listVersions = (file: FileMetadata): FileVersion[] => [toVersion(file), ...file.previousVersions];
+
+// The metadata of the shared namespace `''`, the namespaces of users keep theirs in `namespaces/<user>/metadata.json`
+const METADATA_KEY = 'metadata.json';
+const NAMESPACES_PREFIX = 'namespaces';
+const NAMESPACE_METADATA_KEY_REGEX = /^namespaces\/([^/]+)\/metadata\.json$/;
+
+const getMetadataKey = (namespace: string) =>
+    namespace ? `${NAMESPACES_PREFIX}/${namespace}/${METADATA_KEY}` : METADATA_KEY;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Tags are sent as an array, or as a comma separated string from multipart forms.
+ * Resolves to `null` when they are not valid.
+ */
+const parseTags = (value: unknown): string[] | null => {
+    const values = typeof value === 'string' ? value.split(',') : value;
+    if (!Array.isArray(values) || values.some((tag) => typeof tag !== 'string')) {
+        return null;
+    }
+
+    const tags = [...new Set((values as string[]).map((tag) => tag.trim()).filter((tag) => tag.length > 0))];
+    return tags.length <= MAX_TAGS && tags.every((tag) => tag.length <= MAX_TAG_LENGTH) ? tags : null;
+};
+
+const isDescription = (value: unknown): value is string =>
+    typeof value === 'string' && value.length <= MAX_DESCRIPTION_LENGTH;
+
+export type MetadataChanges = Partial<Pick<FileMetadata, 'tags' | 'description'>>;
+
+// Resolves to `null` when the tags or the description are not valid, missing ones are left out
+export const parseMetadataChanges = (body: { tags?: unknown; description?: unknown }): MetadataChanges | null => {
+    const changes: MetadataChanges = {};
+    if (body.tags !== undefined) {
+        const tags = parseTags(body.tags);
+        if (!tags) {
+            return null;
+        }
+        changes.tags = tags;
+    }
+    if (body.description !== undefined) {
+        if (!isDescription(body.description)) {
+            return null;
+        }
+        changes.description = body.description;
+    }
+    return changes;
+};
+
+export const INVALID_METADATA_MESSAGE = `\`tags\` must be up to ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters, \`description\` at most ${MAX_DESCRIPTION_LENGTH} characters.`;
+
+// The files of each namespace, keyed by their name. Files of one namespace are unknown to the others.
+type Store = Map<string, Record<string, FileMetadata>>;
+
+let store: Promise<Store> | undefined;
+// How many files of all namespaces have each content, contents no file has anymore are deleted
+const references = new Map<string, number>();
+const unreferenced = new Set<string>();
+// Writes are chained, so concurrent uploads never interleave their updates of the JSON file
+let queue: Promise<unknown> = Promise.resolve();
+
+const addReference = (sha256: string) => {
+    references.set(sha256, (references.get(sha256) ?? 0) + 1);
+    unreferenced.delete(sha256);
+};
+
+const removeReference = (sha256: string) => {
+    const count = (references.get(sha256) ?? 1) - 1;
+    if (count > 0) {
+        references.set(sha256, count);
+    } else {
+        references.delete(sha256);
+        unreferenced.add(sha256);
+    }
+};
+
+// Back to what they were before an update that failed
+const restoreReferences = (counts: Map<string, number>, pending: Set<string>) => {
+    references.clear();
+    for (const [sha256, count] of counts) {
+        references.set(sha256, count);
+    }
+    unreferenced.clear();
+    for (const sha256 of pending) {
+        unreferenced.add(sha256);
+    }
+};
+
+// Only once the metadata no longer refers to them, so a failed write never leaves files without content
+const deleteUnreferencedBlobs = async () => {
+    for (const sha256 of unreferenced) {
+        unreferenced.delete(sha256);
+        await deleteBlob(sha256);
+    }
+};
+
+/**
+ * Makes the content the current one of the file, and keeps the content it replaces as a previous version.
+ * Versions beyond the version limit are dropped. The new content has to be referenced by the caller.
+ */
+const replaceContent = (file: FileMetadata, content: Omit<FileVersion, 'version'>): FileMetadata => {
+    const versions = listVersions(file);
+    const keptCount = getVersionLimit() - 1;
+    for (const dropped of versions.slice(keptCount)) {
+        removeReference(dropped.sha256);
+    }
+    return {
+        ...file,
+        ...content,
+        uploadMethod: content.uploadMethod,
+        processing: content.processing,
+        version: file.version + 1,
+        previousVersions: versions.slice(0, keptCount),
+    };
+};
+
+// Files whose content is gone are dropped, and so are versions whose content is gone
+const dropMissingContent = async (current: Record<string, FileMetadata>) => {
+    const synced: Record<string, FileMetadata> = {};
+    for (const [fileName, file] of Object.entries(current)) {
+        if (!file.sha256 || !(await statBlob(file.sha256))) {
+            continue;
+        }
+        // Stored before files had versions
+        const previousVersions: FileVersion[] = [];
+        for (const version of file.previousVersions ?? []) {
+            if (await statBlob(version.sha256)) {
+                previousVersions.push(version);
+            }
+        }
+        synced[fileName] = { ...file, version: file.version ?? 1, previousVersions };
+    }
+    return synced;
+};
+
+/**
+ * Files put into the file storage behind the server's back are copied to the blobs, once, when the store is loaded.
+ * They belong to the shared namespace.
+ */
+const importFiles = async (synced: Record<string, FileMetadata>) => {
+    const { files } = getStorages();
+    const imported: string[] = [];
+    // Keyed by the path relative to the upload folder, e.g. `photos/beach.jpg`
+    for (const { key: fileName, modifiedAt } of await files.list()) {
+        const received = await receiveBlob(await files.get(fileName));
+        await storeBlob(received);
+        synced[fileName] = {
+            name: fileName,
+            mimeType: getMimeType(fileName),
+            uploadedAt: modifiedAt.toISOString(),
+            originalName: fileName,
+            tags: [],
+            description: '',
+            version: 1,
+            previousVersions: [],
+            ...synced[fileName],
+            size: received.size,
+            sha256: received.sha256,
+        };
+        imported.push(fileName);
+    }
+    return imported;
+};
+
+const persist = async (namespace: string, current: Record<string, FileMetadata>) => {
+    await getStorages().data.put(getMetadataKey(namespace), Readable.from([JSON.stringify(current, null, 2)]));
+};
+
+// Only a namespace without metadata is empty, unreadable metadata must not let the blobs of its files be deleted
+const readNamespace = async (namespace: string) => {
+    let current: Readable;
+    try {
+        current = await getStorages().data.get(getMetadataKey(namespace));
+    } catch (error) {
+        if (getErrorCode(error) === 'ENOENT') {
+            return {};
+        }
+        throw error;
+    }
+    return JSON.parse(await text(current)) as Record<string, FileMetadata>;
+};
+
+const readStore = async (): Promise<Store> => {
+    const { data, files } = getStorages();
+    const namespaces = [''];
+    for (const { key } of await data.list(NAMESPACES_PREFIX)) {
+        const match = NAMESPACE_METADATA_KEY_REGEX.exec(key);
+        if (match) {
+            namespaces.push(match[1]);
+        }
+    }
+
+    const loaded: Store = new Map();
+    for (const namespace of namespaces) {
+        const synced = await dropMissingContent(await readNamespace(namespace));
+        const imported = namespace === '' ? await importFiles(synced) : [];
+        await persist(namespace, synced);
+        // Only once the metadata points to their copies
+        for (const fileName of imported) {
+            await files.delete(fileName);
+        }
+        loaded.set(namespace, synced);
+    }
+
+    references.clear();
+    for (const version of [...loaded.values()].flatMap((current) => Object.values(current)).flatMap(listVersions)) {
+        addReference(version.sha256);
+    }
+    // Left behind when the server stopped halfway through deleting a file
+    for (const sha256 of await listBlobs()) {
+        if (!references.has(sha256)) {
+            unreferenced.add(sha256);
+        }
+    }
+    await deleteUnreferencedBlobs();
+    return loaded;
+};
+
+// Loaded once, even when reads and writes start at the same time, and tried again after failing
+const load = () => {
+    store ??= readStore().catch((error: unknown) => {
+        store = undefined;
+        throw error;
+    });
+    return store;
+};
+
+const getNamespace = (loaded: Store, namespace: string) => {
+    let current = loaded.get(namespace);
+    if (!current) {
+        current = {};
+        loaded.set(namespace, current);
+    }
+    return current;
+};
+
+// The updater changes a copy, which replaces the namespace only once it is stored
+const update = <T>(namespace: string, updater: (current: Record<string, FileMetadata>) => T | Promise<T>) => {
+    const next = queue.then(async () => {
+        const loaded = await load();
+        const current = structuredClone(getNamespace(loaded, namespace));
+        const counts = new Map(references);
+        const pending = new Set(unreferenced);
+        let result: T;
+        try {
+            result = await updater(current);
+            await persist(namespace, current);
+        } catch (error) {
+            restoreReferences(counts, pending);
+            throw error;
+        }
+        loaded.set(namespace, current);
+        await deleteUnreferencedBlobs();
+        return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+};
+
+const sortByName = (files: FileMetadata[]) => files.sort((a, b) => a.name.localeCompare(b.name));
+
+export const listMetadata = async (namespace: string): Promise<FileMetadata[]> => {
+    await queue;
+    const loaded = await load();
+    return sortByName(Object.values(loaded.get(namespace) ?? {}));
+};
+
+// The files of every namespace, for the limits of the whole storage
+export const listAllMetadata = async (): Promise<FileMetadata[]> => {
+    await queue;
+    const loaded = await load();
+    return sortByName([...loaded.values()].flatMap((current) => Object.values(current)));
+};
+
+export const getMetadata = async (namespace: string, fileName: string): Promise<FileMetadata | undefined> => {
+    await queue;
+    const loaded = await load();
+    return loaded.get(namespace)?.[fileName];
+};
+
+const hasContent = (current: Record<string, FileMetadata>, sha256: string) =>
+    Object.values(current).some((file) => listVersions(file).some((version) => version.sha256 === sha256));
+
+/**
+ * Whether a file of the namespace has the content, in any of its versions. Contents are stored once for all
+ * namespaces, but only known to the namespaces having them, so a digest gives no access to the files of others.
+ */
+export const isContentInNamespace = async (namespace: string, sha256: string) => {
+    await queue;
+    const loaded = await load();
+    return hasContent(loaded.get(namespace) ?? {}, sha256);
+};
+
+export type NewFile = Omit<
+    FileMetadata,
+    'name' | 'uploadedAt' | 'size' | 'sha256' | 'tags' | 'description' | 'version' | 'previousVersions'
+> &
+    MetadataChanges;
+
+/**
+ * Adds a file with received content, or with content that is stored already, resolving name collisions with the given
+ * policy. Resolves with the metadata of the added file. Rejects with an `EEXIST` error when the name cannot be used,
+ * and with an `ENOENT` error when no file of the namespace has the stored content.
+ */
+export const addFile = (
+    namespace: string,
+    fileName: string,
+    content: BlobContent | ReceivedBlob,
+    policy: CollisionPolicy,
+    file: NewFile
+) =>
+    update(namespace, async (current) => {
+        const storedFileName = resolveFileName(current, fileName, policy);
+        if ('tempKey' in content) {
+            await storeBlob(content);
+        } else if (!hasContent(current, content.sha256)) {
+            throw createStorageError('ENOENT', `No file has the content ${content.sha256}`);
+        }
+
+        addReference(content.sha256);
+        const { tags, description, ...newContent } = {
+            ...file,
+            uploadedAt: new Date().toISOString(),
+            size: content.size,
+            sha256: content.sha256,
+        };
+        // An overwritten file keeps its content as a previous version, and its tags and description unless new ones came
+        current[storedFileName] =
+            storedFileName in current
+                ? {
+                      ...replaceContent(current[storedFileName], newContent),
+                      ...(tags ? { tags } : {}),
+                      ...(description === undefined ? {} : { description }),
+                  }
+                : {
+                      ...newContent,
+                      name: storedFileName,
+                      tags: tags ?? [],
+                      description: description ?? '',
+                      version: 1,
+                      previousVersions: [],
+                  };
+        return current[storedFileName];
+    });
+
+// Resolves with the updated metadata, or `undefined` when the file is unknown
+export const updateMetadata = (namespace: string, fileName: string, changes: MetadataChanges) =>
+    update(namespace, (current) => {
+        if (!(fileName in current)) {
+            return undefined;
+        }
+
+        current[fileName] = { ...current[fileName], ...changes };
+        return current[fileName];
+    });
+
+/**
+ * Saves the processing of a content to the files of the namespace whose current content it is and that still wait for it,
+ * renamed files and copies included. `content` replaces what was processed, e.g. without the location of a photo,
+ * in the same version. Resolves with the metadata of the updated files.
+ */
+export const saveProcessing = (namespace: string, sha256: string, processing: FileProcessing, content?: ReceivedBlob) =>
+    update(namespace, async (current) => {
+        const pending = Object.values(current).filter(
+            (file) => file.sha256 === sha256 && file.processing?.status === 'pending'
+        );
+        const replacement = content && content.sha256 !== sha256 && pending.length > 0 ? content : undefined;
+        if (replacement) {
+            await storeBlob(replacement);
+        }
+
+        for (const file of pending) {
+            if (replacement) {
+                addReference(replacement.sha256);
+                removeReference(sha256);
+            }
+            current[file.name] = {
+                ...file,
+                ...(replacement ? { sha256: replacement.sha256, size: replacement.size } : {}),
+                processing,
+            };
+        }
+        return pending.map((file) => current[file.name]);
+    });
+
+// Resolves to `false` when the file is unknown, its content is deleted along with the last file that has it
+export const removeFile = (namespace: string, fileName: string) =>
+    update(namespace, (current) => {
+        if (!(fileName in current)) {
+            return false;
+        }
+
+        for (const version of listVersions(current[fileName])) {
+            removeReference(version.sha256);
+        }
+        delete current[fileName];
+        return true;
+    });
+
+const assertFileExists = (current: Record<string, FileMetadata>, fileName: string) => {
+    if (!(fileName in current)) {
+        throw createStorageError('ENOENT', `${fileName} does not exist`);
+    }
+};
+
+/**
+ * Renaming and copying only change the metadata, the content stays where it is.
+ * Both reject with an `ENOENT` error for unknown files, and with an `EEXIST` error when the target name is taken.
+ */
+export const renameFile = (namespace: string, fromFileName: string, toFileName: string) =>
+    update(namespace, (current) => {
+        assertFileExists(current, fromFileName);
+        assertFileNameAvailable(current, toFileName);
+
+        // A renamed file keeps its upload date
+        current[toFileName] = { ...current[fromFileName], name: toFileName };
+        delete current[fromFileName];
+        return current[toFileName];
+    });
+
+export const copyFile = (namespace: string, fromFileName: string, toFileName: string) =>
+    update(namespace, (current) => {
+        assertFileExists(current, fromFileName);
+        assertFileNameAvailable(current, toFileName);
+
+        // The copy starts its own history with the current content
+        addReference(current[fromFileName].sha256);
+        current[toFileName] = {
+            ...current[fromFileName],
+            name: toFileName,
+            uploadedAt: new Date().toISOString(),
+            version: 1,
+            previousVersions: [],
+        };
+        return current[toFileName];
+    });
+
+/**
+ * Makes the content of a previous version the current one again, as a new version, so restoring can be undone as well.
+ * Rejects with an `ENOENT` error for unknown files, and with a `VERSION_NOT_FOUND` error for unknown versions.
+ */
+export const restoreVersion = (namespace: string, fileName: string, version: number) =>
+    update(namespace, (current) => {
+        assertFileExists(current, fileName);
+        const file = current[fileName];
+        if (version === file.version) {
+            return file;
+        }
+
+        const restored = file.previousVersions.find((previous) => previous.version === version);
+        if (!restored) {
+            throw Object.assign(new Error(`${fileName} has no version ${version}`), { code: VERSION_NOT_FOUND });
+        }
+        addReference(restored.sha256);
+        const { version: _version, ...content } = restored;
+        current[fileName] = replaceContent(file, { ...content, uploadedAt: new Date().toISOString() });
+        return current[fileName];
+    });
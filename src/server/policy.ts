@@ -0,0 +1,186 @@
+import { extname } from 'node:path';
+import { Transform } from 'node:stream';
+
+import { type FileMetadata } from './metadata';
+
+// A file or the uploads as a whole would exceed a limit of the upload policy, responded with `413`
+export const FILE_TOO_LARGE = 'FILE_TOO_LARGE';
+export const TOTAL_SIZE_EXCEEDED = 'TOTAL_SIZE_EXCEEDED';
+export const TOO_MANY_FILES = 'TOO_MANY_FILES';
+// The extension or the content of a file is not allowed, responded with `415`
+export const UNSUPPORTED_FILE_TYPE = 'UNSUPPORTED_FILE_TYPE';
+
+export type UploadPolicy = {
+    // MIME types like `image/png` or `image/*`, empty to allow every type
+    allowedMimeTypes: string[];
+    // Lower case extensions like `.png`, empty to allow every extension
+    allowedExtensions: string[];
+    // Limits in bytes and files, `null` when there is none
+    maxFileSize: number | null;
+    // Size of all the stored files together
+    maxTotalSize: number | null;
+    // Number of stored files
+    maxFileCount: number | null;
+};
+
+export type PolicyViolation = { status: 413 | 415; error: string; code: string };
+
+const parseList = (value: string | undefined) =>
+    (value ?? '')
+        .split(',')
+        .map((item) => item.trim().toLowerCase())
+        .filter((item) => item.length > 0);
+
+const parseLimit = (value: string | undefined) => {
+    const limit = Number(value);
+    return value && Number.isInteger(limit) && limit >= 0 ? limit : null;
+};
+
+// Read on every request, so the policy can be changed without restarting the server
+export const getUploadPolicy = (env = process.env): UploadPolicy => ({
+    allowedMimeTypes: parseList(env.UPLOAD_ALLOWED_TYPES),
+    allowedExtensions: parseList(env.UPLOAD_ALLOWED_EXTENSIONS).map((extension) =>
+        extension.startsWith('.') ? extension : `.${extension}`
+    ),
+    maxFileSize: parseLimit(env.UPLOAD_MAX_FILE_SIZE),
+    maxTotalSize: parseLimit(env.UPLOAD_MAX_TOTAL_SIZE),
+    maxFileCount: parseLimit(env.UPLOAD_MAX_FILE_COUNT),
+});
+
+const matchesMimeType = (pattern: string, mimeType: string) =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+
+// Signatures of common files, enough to tell a renamed executable or archive from what its name claims
+const SIGNATURES: { mimeType: string; signature: string; offset?: number }[] = [
+    { mimeType: 'image/png', signature: '\x89PNG\r\n\x1A\n' },
+    { mimeType: 'image/jpeg', signature: '\xFF\xD8\xFF' },
+    { mimeType: 'image/gif', signature: 'GIF8' },
+    // A RIFF container, whose format follows its size
+    { mimeType: 'image/webp', signature: 'WEBP', offset: 8 },
+    { mimeType: 'application/pdf', signature: '%PDF-' },
+    { mimeType: 'application/zip', signature: 'PK\x03\x04' },
+    { mimeType: 'application/gzip', signature: '\x1F\x8B' },
+    { mimeType: 'application/x-msdownload', signature: 'MZ' },
+    { mimeType: 'application/x-executable', signature: '\x7FELF' },
+    { mimeType: 'application/x-mach-binary', signature: '\xCF\xFA\xED\xFE' },
+];
+
+export const SNIFF_LENGTH = Math.max(...SIGNATURES.map(({ signature, offset = 0 }) => offset + signature.length));
+
+// Resolves to `undefined` when the content does not start with a known signature, e.g. for text files
+export const sniffMimeType = (head: Buffer) =>
+    SIGNATURES.find(
+        ({ signature, offset = 0 }) => head.subarray(offset, offset + signature.length).toString('latin1') === signature
+    )?.mimeType;
+
+// The type of files whose extension tells nothing about their content
+const UNKNOWN_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Checks the extension of `fileName` and the type of the file. The type sniffed from the content wins over
+ * the one of the extension, so a renamed executable is not taken for what its name claims.
+ */
+export const checkFileType = (
+    policy: UploadPolicy,
+    fileName: string,
+    { sniffedMimeType, mimeType }: { sniffedMimeType?: string; mimeType: string }
+): PolicyViolation | null => {
+    const extension = extname(fileName).toLowerCase();
+    if (policy.allowedExtensions.length > 0 && !policy.allowedExtensions.includes(extension)) {
+        return {
+            status: 415,
+            error: extension
+                ? `Files ending with ${extension} are not allowed.`
+                : 'Files without extension are not allowed.',
+            code: UNSUPPORTED_FILE_TYPE,
+        };
+    }
+
+    const type = sniffedMimeType ?? mimeType;
+    if (
+        policy.allowedMimeTypes.length > 0 &&
+        !policy.allowedMimeTypes.some((pattern) => matchesMimeType(pattern, type))
+    ) {
+        return { status: 415, error: `Files of type ${type} are not allowed.`, code: UNSUPPORTED_FILE_TYPE };
+    }
+
+    // Allowing an extension allows what it stands for, a renamed executable must not pass as one
+    if (
+        policy.allowedExtensions.length > 0 &&
+        sniffedMimeType &&
+        mimeType !== UNKNOWN_MIME_TYPE &&
+        sniffedMimeType !== mimeType
+    ) {
+        return {
+            status: 415,
+            error: `Files of type ${sniffedMimeType} are not allowed as ${extension} files.`,
+            code: UNSUPPORTED_FILE_TYPE,
+        };
+    }
+
+    return null;
+};
+
+export const checkFileSize = (policy: UploadPolicy, size: number): PolicyViolation | null =>
+    policy.maxFileSize !== null && size > policy.maxFileSize
+        ? { status: 413, error: `Files may not exceed ${policy.maxFileSize} bytes.`, code: FILE_TOO_LARGE }
+        : null;
+
+/**
+ * Checks whether the stored `files` still fit the policy once a file of `size` bytes is added.
+ * A file the new one `replaces` does not count anymore.
+ */
+export const checkStorageLimits = (
+    policy: UploadPolicy,
+    files: FileMetadata[],
+    { size, replaces }: { size: number; replaces?: FileMetadata | null }
+): PolicyViolation | null => {
+    const fileCount = files.length + (replaces ? 0 : 1);
+    if (policy.maxFileCount !== null && fileCount > policy.maxFileCount) {
+        return { status: 413, error: `No more than ${policy.maxFileCount} files can be stored.`, code: TOO_MANY_FILES };
+    }
+
+    const totalSize = files.reduce((total, file) => total + file.size, 0) + size - (replaces?.size ?? 0);
+    if (policy.maxTotalSize !== null && totalSize > policy.maxTotalSize) {
+        return {
+            status: 413,
+            error: `The stored files may not exceed ${policy.maxTotalSize} bytes together.`,
+            code: TOTAL_SIZE_EXCEEDED,
+        };
+    }
+
+    return null;
+};
+
+export const createPolicyError = (violation: PolicyViolation) =>
+    Object.assign(new Error(violation.error), { code: violation.code, violation });
+
+// The violation an error of `createPolicyError` carries, `null` for any other error
+export const getPolicyViolation = (error: unknown) =>
+    (error as { violation?: PolicyViolation } | null)?.violation ?? null;
+
+/**
+ * Passes data through untouched while keeping its first bytes for `sniffMimeType`, to be placed in a pipeline.
+ * Fails with a policy error as soon as more than `maxFileSize` bytes went through, so a too large upload is not stored first.
+ */
+export const createPolicyStream = (policy: UploadPolicy) => {
+    let head = Buffer.alloc(0);
+    let size = 0;
+
+    const stream = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            const violation = checkFileSize(policy, size);
+            if (violation) {
+                callback(createPolicyError(violation));
+                return;
+            }
+            if (head.length < SNIFF_LENGTH) {
+                head = Buffer.concat([head, chunk.subarray(0, SNIFF_LENGTH - head.length)]);
+            }
+            callback(null, chunk);
+        },
+    });
+
+    return { stream, getHead: () => head };
+};
@@ -0,0 +1,132 @@
+import { type Readable } from 'node:stream';
+
+import { discardBlob, readBlob, readReceivedBlob, receiveBlob, type ReceivedBlob } from './blobs';
+import { publishEvent } from './events';
+import { listMetadata, saveProcessing, type FileMetadata, type FileProcessing } from './metadata';
+import { BUILT_IN_PROCESSORS } from './processors';
+import { type StorageRange } from './storage';
+
+export type ProcessorInput = {
+    file: FileMetadata;
+    // The size and content as left by the processors that ran before
+    size: number;
+    read: (range?: StorageRange) => Promise<Readable>;
+};
+
+export type ProcessorOutput = {
+    // Saved under the name of the processor, it has to be JSON
+    result: Record<string, unknown>;
+    // Replaces the content, the processors that run next get it instead
+    content?: Readable;
+};
+
+/**
+ * Runs on every uploaded file once it is stored. Resolves to `null` when it has nothing to do with the file,
+ * e.g. an image processor with a text file, and rejects when it fails, which the other processors do not mind.
+ */
+export type UploadProcessor = {
+    name: string;
+    // Whether it may return new content, such processors only run when `UPLOAD_PROCESSORS` names them
+    changesContent?: boolean;
+    process: (input: ProcessorInput) => Promise<ProcessorOutput | null>;
+};
+
+const processors = new Map<string, UploadProcessor>(
+    BUILT_IN_PROCESSORS.map((processor) => [processor.name, processor])
+);
+
+// A processor with the name of another one takes its place
+export const registerProcessor = (processor: UploadProcessor) => {
+    processors.set(processor.name, processor);
+};
+
+/**
+ * Read on every upload, like the upload policy. `UPLOAD_PROCESSORS` names the processors to run, comma separated,
+ * in the order they run. Every registered processor that leaves the content as it is runs when it is not set,
+ * none when it is empty. Rewriting what was uploaded is up to the operator, so those that change it are never implied.
+ */
+export const getEnabledProcessors = (env = process.env): UploadProcessor[] => {
+    if (env.UPLOAD_PROCESSORS === undefined) {
+        return [...processors.values()].filter((processor) => !processor.changesContent);
+    }
+    return env.UPLOAD_PROCESSORS.split(',')
+        .map((name) => processors.get(name.trim()))
+        .filter((processor) => processor !== undefined);
+};
+
+// The processing of a file that was just stored, `undefined` when no processor is enabled
+export const createPendingProcessing = (env = process.env): FileProcessing | undefined =>
+    getEnabledProcessors(env).length > 0 ? { status: 'pending', results: {}, errors: {} } : undefined;
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const runProcessors = async (namespace: string, sha256: string) => {
+    const files = await listMetadata(namespace);
+    const file = files.find((stored) => stored.sha256 === sha256 && stored.processing?.status === 'pending');
+    // Deleted or overwritten in the meantime, or processed along with another upload of the same content
+    if (!file) {
+        return;
+    }
+
+    const results: FileProcessing['results'] = {};
+    const errors: FileProcessing['errors'] = {};
+    let replacement: ReceivedBlob | undefined;
+    try {
+        for (const processor of getEnabledProcessors()) {
+            const current = replacement;
+            try {
+                const output = await processor.process({
+                    file,
+                    size: current?.size ?? file.size,
+                    read: (range) => (current ? readReceivedBlob(current, range) : readBlob(sha256, range)),
+                });
+                if (!output) {
+                    continue;
+                }
+                if (output.content && !processor.changesContent) {
+                    output.content.destroy();
+                    throw new Error('Only processors with `changesContent` may change the content');
+                }
+                results[processor.name] = output.result;
+                if (output.content) {
+                    replacement = await receiveBlob(output.content);
+                    if (current) {
+                        await discardBlob(current);
+                    }
+                }
+            } catch (error) {
+                errors[processor.name] = getErrorMessage(error);
+            }
+        }
+
+        const status = Object.keys(errors).length > 0 ? 'failed' : 'done';
+        for (const updated of await saveProcessing(namespace, sha256, { status, results, errors }, replacement)) {
+            publishEvent(namespace, { type: 'file-updated', data: { file: updated } });
+        }
+    } finally {
+        if (replacement) {
+            await discardBlob(replacement);
+        }
+    }
+};
+
+// Files are processed one after the other, in the order they were stored, so many uploads do not compete for the CPU
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Runs the enabled processors on the content of a file that waits for them, without waiting for them to finish.
+ * The upload is answered right away, clients learn about the results from the `file-updated` event.
+ */
+export const processFile = (namespace: string, file: FileMetadata) => {
+    if (file.processing?.status !== 'pending') {
+        return;
+    }
+    queue = queue
+        .then(() => runProcessors(namespace, file.sha256))
+        .catch((error: unknown) => {
+            console.error(`Error processing ${file.name}:`, error);
+        });
+};
+
+// Resolves once every file stored so far was processed
+export const waitForProcessing = () => queue;
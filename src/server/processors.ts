@@ -0,0 +1,259 @@
+import { createHash } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+
+import { sniffMimeType, SNIFF_LENGTH } from './policy';
+import { type ProcessorInput, type UploadProcessor } from './processing';
+
+// Image headers and the EXIF data of photos are found at the start of the file, they are not read any further
+const HEAD_LENGTH = 256 * 1024;
+
+// Types whose content is text, besides `text/*`
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/javascript', 'image/svg+xml'];
+
+const readHead = async ({ read }: ProcessorInput, length: number) => buffer(await read({ start: 0, end: length - 1 }));
+
+const isTextFile = ({ mimeType }: { mimeType: string }) =>
+    mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType);
+
+// The type told by the first bytes of the content, `null` for types without a known signature, e.g. text files
+export const mimeTypeProcessor: UploadProcessor = {
+    name: 'mime-type',
+    process: async (input) => ({ result: { mimeType: sniffMimeType(await readHead(input, SNIFF_LENGTH)) ?? null } }),
+};
+
+// Digests other tools still expect, the SHA-256 digest is known for every file already
+export const hashProcessor: UploadProcessor = {
+    name: 'hash',
+    process: async ({ read }) => {
+        const md5 = createHash('md5');
+        const sha1 = createHash('sha1');
+        for await (const chunk of await read()) {
+            md5.update(chunk as Buffer);
+            sha1.update(chunk as Buffer);
+        }
+        return { result: { md5: md5.digest('hex'), sha1: sha1.digest('hex') } };
+    },
+};
+
+// JPEG segments start with the byte `0xFF` followed by their marker
+const SEGMENT_START = 255;
+// `0xDA` and `0xD9`, the image data starts or ends
+const START_OF_SCAN = 218;
+const END_OF_IMAGE = 217;
+// `0xE1`, where the EXIF data is kept
+const APP1 = 225;
+// `0xC0` to `0xCF` start a frame, which tells the size of the image, but `0xC4`, `0xC8` and `0xCC` are other segments
+const isStartOfFrame = (marker: number) => marker >= 192 && marker <= 207 && ![196, 200, 204].includes(marker);
+
+const getJpegSize = (head: Buffer) => {
+    let offset = 2;
+    while (offset + 9 <= head.length && head[offset] === SEGMENT_START) {
+        const marker = head[offset + 1];
+        if (isStartOfFrame(marker)) {
+            return { width: head.readUInt16BE(offset + 7), height: head.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + head.readUInt16BE(offset + 2);
+    }
+    return null;
+};
+
+// WebP images come in a lossy, a lossless and an extended format, each with its own header
+const FOURTEEN_BITS = 2 ** 14 - 1;
+
+const getWebpSize = (head: Buffer) => {
+    const format = head.toString('latin1', 12, 16);
+    if (format === 'VP8 ' && head.length >= 30) {
+        return { width: head.readUInt16LE(26) & FOURTEEN_BITS, height: head.readUInt16LE(28) & FOURTEEN_BITS };
+    }
+    if (format === 'VP8L' && head.length >= 25) {
+        const bits = head.readUInt32LE(21);
+        return { width: (bits & FOURTEEN_BITS) + 1, height: ((bits >> 14) & FOURTEEN_BITS) + 1 };
+    }
+    if (format === 'VP8X' && head.length >= 30) {
+        return { width: head.readUIntLE(24, 3) + 1, height: head.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+};
+
+// Resolves to `null` when the header holds no size
+export const getImageSize = (mimeType: string, head: Buffer): { width: number; height: number } | null => {
+    switch (mimeType) {
+        case 'image/png': {
+            return head.length >= 24 ? { width: head.readUInt32BE(16), height: head.readUInt32BE(20) } : null;
+        }
+        case 'image/gif': {
+            return head.length >= 10 ? { width: head.readUInt16LE(6), height: head.readUInt16LE(8) } : null;
+        }
+        case 'image/jpeg': {
+            return getJpegSize(head);
+        }
+        case 'image/webp': {
+            return getWebpSize(head);
+        }
+        default: {
+            return null;
+        }
+    }
+};
+
+// The width and height of PNG, JPEG, GIF and WebP images in pixels, whatever their extension claims
+export const imageSizeProcessor: UploadProcessor = {
+    name: 'image-size',
+    process: async (input) => {
+        const head = await readHead(input, HEAD_LENGTH);
+        const mimeType = sniffMimeType(head);
+        if (!mimeType?.startsWith('image/')) {
+            return null;
+        }
+        const size = getImageSize(mimeType, head);
+        if (!size) {
+            throw new Error(`The ${mimeType} image has no size in its first ${HEAD_LENGTH} bytes`);
+        }
+        return { result: size };
+    },
+};
+
+// Bytes of each type of TIFF field, to tell whether a value is stored in its entry or elsewhere
+const TIFF_TYPE_SIZES: Record<number, number> = {
+    1: 1,
+    2: 1,
+    3: 2,
+    4: 4,
+    5: 8,
+    6: 1,
+    7: 1,
+    8: 2,
+    9: 4,
+    10: 8,
+    11: 4,
+    12: 8,
+};
+const GPS_INFO_TAG = 0x88_25;
+const IFD_ENTRY_LENGTH = 12;
+
+const removeTiffGpsInfo = (tiff: Buffer) => {
+    const isLittleEndian = tiff.toString('latin1', 0, 2) === 'II';
+    const assertInside = (start: number, length: number) => {
+        if (start < 0 || start + length > tiff.length) {
+            throw new Error('The EXIF data is malformed');
+        }
+    };
+    const read16 = (at: number) => {
+        assertInside(at, 2);
+        return isLittleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+    };
+    const read32 = (at: number) => {
+        assertInside(at, 4);
+        return isLittleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+    };
+
+    const firstIfd = read32(4);
+    const firstCount = read16(firstIfd);
+    let gpsIfd: number | null = null;
+    for (let index = 0; index < firstCount; index++) {
+        const entry = firstIfd + 2 + index * IFD_ENTRY_LENGTH;
+        if (read16(entry) === GPS_INFO_TAG) {
+            gpsIfd = read32(entry + 8);
+        }
+    }
+    if (gpsIfd === null || read16(gpsIfd) === 0) {
+        return false;
+    }
+
+    const count = read16(gpsIfd);
+    for (let index = 0; index < count; index++) {
+        const entry = gpsIfd + 2 + index * IFD_ENTRY_LENGTH;
+        const length = (TIFF_TYPE_SIZES[read16(entry + 2)] ?? 1) * read32(entry + 4);
+        // Values of up to 4 bytes are stored in the entry itself
+        if (length > 4) {
+            const value = read32(entry + 8);
+            assertInside(value, length);
+            tiff.fill(0, value, value + length);
+        }
+    }
+    // An empty directory is left behind, so the pointer to it stays valid
+    assertInside(gpsIfd, 2 + count * IFD_ENTRY_LENGTH);
+    tiff.fill(0, gpsIfd, gpsIfd + 2 + count * IFD_ENTRY_LENGTH);
+    return true;
+};
+
+/**
+ * Blanks the GPS fields of the EXIF data in a JPEG header in place, keeping every offset and length as it is.
+ * Returns whether there were any. Throws for EXIF data pointing outside of its segment.
+ */
+export const removeGpsInfo = (head: Buffer) => {
+    let offset = 2;
+    while (offset + 4 <= head.length && head[offset] === SEGMENT_START) {
+        const marker = head[offset + 1];
+        // The image data starts, EXIF data comes before it
+        if (marker === START_OF_SCAN || marker === END_OF_IMAGE) {
+            return false;
+        }
+        const end = offset + 2 + head.readUInt16BE(offset + 2);
+        if (marker === APP1 && head.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+            if (end > head.length) {
+                throw new Error(`The EXIF data does not end within the first ${HEAD_LENGTH} bytes`);
+            }
+            return removeTiffGpsInfo(head.subarray(offset + 10, end));
+        }
+        offset = end;
+    }
+    return false;
+};
+
+// The changed head, followed by the rest of the content as it is
+const replaceHead = async function* (head: Buffer, rest: Readable | null) {
+    yield head;
+    if (rest) {
+        yield* rest;
+    }
+};
+
+// Photos taken with a phone tell where they were taken, which the people they are shared with need not know
+export const exifGpsProcessor: UploadProcessor = {
+    name: 'exif-gps',
+    changesContent: true,
+    process: async (input) => {
+        const head = await readHead(input, HEAD_LENGTH);
+        if (sniffMimeType(head) !== 'image/jpeg') {
+            return null;
+        }
+        if (!removeGpsInfo(head)) {
+            return { result: { removed: false } };
+        }
+        const rest = input.size > head.length ? await input.read({ start: head.length, end: input.size - 1 }) : null;
+        return { result: { removed: true }, content: Readable.from(replaceHead(head, rest)) };
+    },
+};
+
+const LINE_FEED = 10;
+
+// How many lines text files have, a last line without a line break counts as well
+export const lineCountProcessor: UploadProcessor = {
+    name: 'line-count',
+    process: async ({ file, size, read }) => {
+        if (!isTextFile(file)) {
+            return null;
+        }
+        let lines = 0;
+        let last: number | undefined;
+        for await (const chunk of await read()) {
+            const data = chunk as Buffer;
+            for (let index = data.indexOf('\n'); index !== -1; index = data.indexOf('\n', index + 1)) {
+                lines++;
+            }
+            last = data.at(-1) ?? last;
+        }
+        return { result: { lines: size > 0 && last !== LINE_FEED ? lines + 1 : lines } };
+    },
+};
+
+// In the order they run, the location is removed from photos before their digests are computed
+export const BUILT_IN_PROCESSORS = [
+    mimeTypeProcessor,
+    exifGpsProcessor,
+    hashProcessor,
+    imageSizeProcessor,
+    lineCountProcessor,
+];
@@ -0,0 +1,163 @@
+import { Transform } from 'node:stream';
+
+import { getUsage } from './listing';
+import { listAllMetadata, listMetadata, listVersions } from './metadata';
+import { createPolicyError, type PolicyViolation } from './policy';
+import { getDeclaredSize, listSessions } from './sessions';
+
+// An upload would take more bytes than a quota has left, responded with `413`
+export const QUOTA_EXCEEDED = 'QUOTA_EXCEEDED';
+
+export type QuotaPolicy = {
+    // Bytes of all namespaces together, `null` when there is no quota
+    totalBytes: number | null;
+    // Bytes of each namespace, unless it has a quota of its own
+    namespaceBytes: number | null;
+    // Quotas of single namespaces, by namespace
+    namespaces: Record<string, number>;
+};
+
+// How much of a quota is taken, in bytes
+export type QuotaUsage = {
+    // Stored content, with every previous version and content stored once however many files share it
+    usedBytes: number;
+    // The announced sizes of the uploads in progress
+    reservedBytes: number;
+    quotaBytes: number | null;
+    // `null` when there is no quota
+    availableBytes: number | null;
+    fileCount: number;
+};
+
+export type QuotaStatus = {
+    namespace: QuotaUsage;
+    // All namespaces together
+    total: QuotaUsage;
+};
+
+const parseBytes = (value: string | undefined) => {
+    const bytes = Number(value);
+    return value && Number.isInteger(bytes) && bytes >= 0 ? bytes : null;
+};
+
+// `alice=1000000,bob=0`, entries that are not valid are left out
+const parseNamespaceQuotas = (value: string | undefined) =>
+    Object.fromEntries(
+        (value ?? '')
+            .split(',')
+            .map((entry) => entry.split('=').map((part) => part.trim()))
+            .flatMap(([namespace, bytes]) => {
+                const quota = parseBytes(bytes);
+                return namespace && quota !== null ? [[namespace, quota] as const] : [];
+            })
+    );
+
+// Read on every request, like the upload policy
+export const getQuotaPolicy = (env = process.env): QuotaPolicy => ({
+    totalBytes: parseBytes(env.QUOTA_TOTAL_BYTES),
+    namespaceBytes: parseBytes(env.QUOTA_NAMESPACE_BYTES),
+    namespaces: parseNamespaceQuotas(env.QUOTA_NAMESPACES),
+});
+
+export const getNamespaceQuota = (policy: QuotaPolicy, namespace: string) =>
+    policy.namespaces[namespace] ?? policy.namespaceBytes;
+
+const toQuotaUsage = (
+    usedBytes: number,
+    reservedBytes: number,
+    quotaBytes: number | null,
+    fileCount: number
+): QuotaUsage => ({
+    usedBytes,
+    reservedBytes,
+    quotaBytes,
+    availableBytes: quotaBytes === null ? null : Math.max(0, quotaBytes - usedBytes - reservedBytes),
+    fileCount,
+});
+
+/**
+ * How much of its own quota and of the quota of all namespaces the namespace can still take.
+ * The upload `exceptUploadId` does not reserve anything, for when it is being stored.
+ */
+export const getQuotaStatus = async (
+    namespace: string,
+    { policy = getQuotaPolicy(), exceptUploadId }: { policy?: QuotaPolicy; exceptUploadId?: string } = {}
+): Promise<QuotaStatus> => {
+    const files = await listMetadata(namespace);
+    const allFiles = await listAllMetadata();
+    const sessions = await listSessions();
+    const uploads = sessions.filter(({ uploadId }) => uploadId !== exceptUploadId);
+
+    const reserve = (reserving: typeof uploads) =>
+        reserving.reduce((total, upload) => total + (getDeclaredSize(upload) ?? 0), 0);
+    return {
+        namespace: toQuotaUsage(
+            getUsage(files).diskUsage,
+            reserve(uploads.filter((upload) => upload.namespace === namespace)),
+            getNamespaceQuota(policy, namespace),
+            files.length
+        ),
+        total: toQuotaUsage(getUsage(allFiles).diskUsage, reserve(uploads), policy.totalBytes, allFiles.length),
+    };
+};
+
+// The bytes the namespace can still take, the smaller of both quotas
+export const getAvailableBytes = ({ namespace, total }: QuotaStatus) =>
+    namespace.availableBytes === null || total.availableBytes === null
+        ? namespace.availableBytes ?? total.availableBytes
+        : Math.min(namespace.availableBytes, total.availableBytes);
+
+/**
+ * Checks whether `size` more bytes fit both quotas. Content that is stored already takes no more bytes,
+ * so `size` only counts new content, `totalSize` the content new to the storage as a whole.
+ */
+export const checkQuota = (
+    { namespace, total }: QuotaStatus,
+    size: number,
+    totalSize = size
+): PolicyViolation | null => {
+    if (namespace.availableBytes !== null && size > namespace.availableBytes) {
+        return {
+            status: 413,
+            error: `The upload exceeds your storage quota, ${namespace.availableBytes} of ${namespace.quotaBytes} bytes are left.`,
+            code: QUOTA_EXCEEDED,
+        };
+    }
+    if (total.availableBytes !== null && totalSize > total.availableBytes) {
+        return {
+            status: 413,
+            error: `The upload exceeds the storage quota of the server, ${total.availableBytes} of ${total.quotaBytes} bytes are left.`,
+            code: QUOTA_EXCEEDED,
+        };
+    }
+    return null;
+};
+
+// The size of the largest content stored in any namespace, including previous versions
+export const getLargestStoredSize = async () => {
+    const files = await listAllMetadata();
+    return files.flatMap(listVersions).reduce((largest, version) => Math.max(largest, version.size), 0);
+};
+
+/**
+ * Passes data through untouched, and fails with a quota error as soon as more bytes went through than are left.
+ * `receivedSize` bytes of the upload came before, e.g. in earlier chunks. Content stored already takes no more bytes,
+ * so uploads of up to `storedSize` bytes pass anyway, and are checked once received.
+ */
+export const createQuotaStream = (
+    status: QuotaStatus,
+    { storedSize = 0, receivedSize = 0 }: { storedSize?: number; receivedSize?: number } = {}
+) => {
+    let size = receivedSize;
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            const violation = size > storedSize ? checkQuota(status, size) : null;
+            if (violation) {
+                callback(createPolicyError(violation));
+                return;
+            }
+            callback(null, chunk);
+        },
+    });
+};
@@ -1,41 +1,282 @@
-import { createWriteStream, existsSync, mkdirSync, unlinkSync } from 'node:fs';
-import { readFile, readdir, stat } from 'node:fs/promises';
-import { join } from 'node:path';
-import stream from 'node:stream';
-import { promisify } from 'node:util';
+import { basename } from 'node:path';
+import stream, { Readable } from 'node:stream';
 
 import bodyParser from 'body-parser';
-import express, { type Request, type Response } from 'express';
+import express, { Router, type Request, type Response } from 'express';
 import multer from 'multer';
 
-type CustomRequest<T> = Request<unknown, unknown, T>;
+import {
+    TOKEN_NOT_FOUND,
+    authenticate,
+    getUser,
+    isUserName,
+    issueToken,
+    listTokens,
+    requireAdmin,
+    revokeToken,
+    signUrls,
+} from './auth';
+import {
+    BLOB_NOT_FOUND,
+    discardBlob,
+    pipeThrough,
+    readBlob,
+    readBlobHead,
+    receiveBlob,
+    statBlob,
+    type BlobContent,
+    type ReceivedBlob,
+} from './blobs';
+import { getContentDisposition, getMimeType, getResponseStatus, sendFile } from './download';
+import { publishEvent, streamEvents } from './events';
+import {
+    COLLISION_POLICIES,
+    DEFAULT_COLLISION_POLICY,
+    FILE_EXISTS,
+    FILE_NOT_FOUND,
+    INVALID_FILE_NAME,
+    getErrorCode,
+    isCollisionPolicy,
+    isStoredFilePath,
+    sanitizeFileName,
+    sanitizeFilePath,
+    type CollisionPolicy,
+} from './files';
+import { CHECKSUM_MISMATCH, FILE_CHECKSUM_MISMATCH, createDigestStream, isOptionalSha256, isSha256 } from './integrity';
+import { getUsage, parseArchiveSelection, parseListQuery, queryFiles, selectFiles } from './listing';
+import {
+    INVALID_METADATA_MESSAGE,
+    VERSION_NOT_FOUND,
+    addFile,
+    copyFile,
+    getMetadata,
+    isContentInNamespace,
+    listAllMetadata,
+    listMetadata,
+    listVersions,
+    parseMetadataChanges,
+    removeFile,
+    renameFile,
+    restoreVersion,
+    updateMetadata,
+    type FileVersion,
+} from './metadata';
+import {
+    checkFileSize,
+    checkFileType,
+    checkStorageLimits,
+    createPolicyError,
+    createPolicyStream,
+    getPolicyViolation,
+    getUploadPolicy,
+    sniffMimeType,
+    SNIFF_LENGTH,
+    type PolicyViolation,
+    type UploadPolicy,
+} from './policy';
+import { createPendingProcessing, processFile } from './processing';
+import { checkQuota, createQuotaStream, getAvailableBytes, getLargestStoredSize, getQuotaStatus } from './quota';
+import {
+    CHUNK_OVERLAP,
+    countReceivedChunks,
+    createSession,
+    getChunkKey,
+    getDeclaredSize,
+    countReceivedBytes,
+    getReceivedChunks,
+    getReceivedRanges,
+    getSession,
+    getSessionNamespace,
+    listSessions,
+    overlapsReceivedRange,
+    removeSession,
+    type UploadProtocol,
+    type UploadSession,
+} from './sessions';
+import {
+    MAX_SHARE_TTL,
+    SHARE_EXPIRED,
+    SHARE_NOT_FOUND,
+    SHARE_PATH,
+    claimShareLink,
+    createShareLink,
+    listShareLinks,
+    revokeShareLink,
+} from './shares';
+import { getStorages } from './storage';
+import {
+    CHECKSUM_MISMATCH_STATUS,
+    TUS_CHECKSUM_ALGORITHMS,
+    TUS_CONTENT_TYPE,
+    TUS_EXTENSIONS,
+    TUS_VERSION,
+    UPLOAD_LENGTH_EXCEEDED,
+    createLengthLimitStream,
+    parseByteCount,
+    parseUploadChecksum,
+    parseUploadMetadata,
+    tusProtocol,
+} from './tus';
+import { createZipArchive } from './zip';
 
-const UPLOAD_DIR = process.env.NODE_ENV !== 'test' ? 'uploads' : 'src/server/test/uploads';
-const CHUNK_DIR = process.env.NODE_ENV !== 'test' ? 'uploads-chunks' : 'src/server/test/uploads-chunks';
+type CustomRequest<T, P = unknown> = Request<P, unknown, T>;
 
 export const app = express();
 
-const pipeline = promisify(stream.pipeline);
 const upload = multer();
 
-const mergeChunks = async (fileName: string, totalChunks: number) => {
-    if (!existsSync(UPLOAD_DIR)) {
-        mkdirSync(UPLOAD_DIR);
+// A file an upload overwrites does not count against the limits anymore, which apply to the files of all namespaces
+const checkStoredFiles = async (
+    policy: UploadPolicy,
+    namespace: string,
+    fileName: string,
+    size: number,
+    onConflict: CollisionPolicy
+): Promise<PolicyViolation | null> => {
+    const replaces = onConflict === 'overwrite' ? await getMetadata(namespace, fileName) : null;
+    return checkStorageLimits(policy, await listAllMetadata(), { size, replaces });
+};
+
+// Content that is stored already takes no more bytes, neither in the namespace nor in the storage as a whole
+const checkContentQuota = async (namespace: string, { sha256, size }: BlobContent, exceptUploadId?: string) => {
+    const isInNamespace = await isContentInNamespace(namespace, sha256);
+    const isStored = isInNamespace || (await statBlob(sha256)) !== null;
+    return checkQuota(
+        await getQuotaStatus(namespace, { exceptUploadId }),
+        isInNamespace ? 0 : size,
+        isStored ? 0 : size
+    );
+};
+
+/**
+ * Stops a chunk as soon as it takes its upload beyond the bytes it may have. Uploads with an announced size reserved
+ * it when their session was created and may not send more, the others must fit what the quotas have left.
+ */
+const createChunkLimitStream = async (session: UploadSession, chunkCount: number) => {
+    const { uploadId, chunkSize } = session;
+    const receivedBytes = await countReceivedBytes(uploadId);
+    const declaredSize = getDeclaredSize(session);
+    if (declaredSize === null) {
+        const status = await getQuotaStatus(getSessionNamespace(session), { exceptUploadId: uploadId });
+        return createQuotaStream(status, { receivedSize: receivedBytes });
     }
 
-    const writeStream = createWriteStream(`${UPLOAD_DIR}/${fileName}`);
-    for (let i = 0; i < totalChunks; i++) {
-        const chunkFilePath = `${CHUNK_DIR}/${fileName}.part_${i}`;
-        const chunkBuffer = await readFile(chunkFilePath);
-        writeStream.write(chunkBuffer);
-        unlinkSync(chunkFilePath);
+    const leftBytes = Math.max(0, declaredSize - receivedBytes);
+    return createLengthLimitStream(chunkSize === undefined ? leftBytes : Math.min(chunkCount * chunkSize, leftBytes));
+};
+
+// Chunks may arrive concurrently, so the same upload could be detected as complete by more than one request
+const mergingUploads = new Set<string>();
+
+/**
+ * Resolves with the stored name and digest of the merged file,
+ * or with `null` when it does not match the checksum or size of its session. The session is removed either way.
+ */
+const mergeChunks = async (session: UploadSession, policy: UploadPolicy) => {
+    const {
+        uploadId,
+        fileName,
+        checksum,
+        size,
+        onConflict = DEFAULT_COLLISION_POLICY,
+        originalName = fileName,
+        metadata,
+    } = session;
+    const namespace = getSessionNamespace(session);
+    const { chunks } = getStorages();
+
+    // Chunks may each cover several chunk indexes, the ranges come sorted by their first index
+    const ranges = await getReceivedRanges(uploadId);
+    let head = Buffer.alloc(0);
+    // Stream every chunk into the merged content instead of buffering it
+    const readChunks = async function* () {
+        for (const { index, count } of ranges) {
+            for await (const data of await chunks.get(getChunkKey(uploadId, index, count))) {
+                if (head.length < SNIFF_LENGTH) {
+                    head = Buffer.concat([head, (data as Buffer).subarray(0, SNIFF_LENGTH - head.length)]);
+                }
+                yield data as Buffer;
+            }
+        }
+    };
+    // Received content only shows up in the uploads once verified
+    const received = await receiveBlob(Readable.from(readChunks()));
+
+    const { sha256, size: mergedSize } = received;
+    const isValid = (!checksum || checksum.toLowerCase() === sha256) && (size === undefined || size === mergedSize);
+    try {
+        if (!isValid) {
+            return null;
+        }
+        // Chunks are checked one by one when they arrive, only the merged file tells its real size and content
+        const violation =
+            checkFileSize(policy, mergedSize) ??
+            checkFileType(policy, fileName, {
+                sniffedMimeType: sniffMimeType(head),
+                mimeType: getMimeType(fileName),
+            }) ??
+            (await checkStoredFiles(policy, namespace, fileName, mergedSize, onConflict)) ??
+            // Its own announced size does not count anymore, the upload takes the bytes of its content instead
+            (await checkContentQuota(namespace, received, uploadId));
+        if (violation) {
+            throw createPolicyError(violation);
+        }
+
+        const file = await addFile(namespace, fileName, received, onConflict, {
+            ...metadata,
+            mimeType: getMimeType(fileName),
+            originalName,
+            uploadMethod: session.protocol === 'tus' ? 'tus' : 'chunked',
+            processing: createPendingProcessing(),
+        });
+        publishEvent(namespace, { type: 'file-added', data: { file } });
+        processFile(namespace, file);
+        return { fileName: file.name, sha256 };
+    } finally {
+        await discardBlob(received);
+        await removeSession(session);
     }
+};
 
-    writeStream.end();
+const parseCollisionPolicy = (value: unknown) => (value === undefined ? DEFAULT_COLLISION_POLICY : value);
+
+// Sessions of one protocol are unknown to the routes of the other, and sessions of other namespaces to anyone
+const getProtocolSession = async (uploadId: string, protocol: UploadProtocol, namespace: string) => {
+    const session = await getSession(uploadId);
+    return session && (session.protocol ?? 'chunks') === protocol && getSessionNamespace(session) === namespace
+        ? session
+        : null;
 };
 
+const respondFileNotFound = (res: Response) => res.status(404).json({ error: 'File not found', code: FILE_NOT_FOUND });
+
+const respondFileExists = (res: Response, fileName: string) =>
+    res.status(409).json({ error: `A file named "${fileName}" already exists`, code: FILE_EXISTS });
+
+const respondPolicyViolation = (res: Response, { status, error, code }: PolicyViolation) =>
+    res.status(status).json({ error, code });
+
+const toSessionResponse = async (session: UploadSession) => ({
+    uploadId: session.uploadId,
+    fileName: session.fileName,
+    totalChunks: session.totalChunks,
+    receivedChunks: await getReceivedChunks(session.uploadId),
+});
+
 app.use(bodyParser.urlencoded({ extended: false }));
 app.use(bodyParser.json());
+// Share links carry their permission in their signature, they are downloaded without a token
+const sharedRoutes = Router();
+app.use(SHARE_PATH, sharedRoutes);
+// After the body parsers, forms may send their token as a field
+app.use('/api', authenticate);
+
+const isOptionalString = (value: unknown): value is string | undefined =>
+    value === undefined || typeof value === 'string';
+
+// Files from folder uploads keep their relative path, e.g. `photos/2024/beach.jpg`, other uploads are stored flat
+const getUploadFileName = (name: string, isRelativePath: boolean) =>
+    isRelativePath ? sanitizeFilePath(name) : sanitizeFileName(name);
 
 // eslint-disable-next-line @typescript-eslint/no-misused-promises
 app.post('/api/upload-single', upload.single('file'), async (req, res) => {
@@ -43,80 +284,1270 @@ app.post('/api/upload-single', upload.single('file'), async (req, res) => {
         return res.status(400).json({ error: 'Missing required `file` key in body.' });
     }
 
+    const body = req.body as {
+        relativePath?: unknown;
+        checksum?: unknown;
+        onConflict?: unknown;
+        tags?: unknown;
+        description?: unknown;
+    };
+    const { relativePath } = body;
+    if (!isOptionalString(relativePath)) {
+        return res.status(400).json({ error: '`relativePath` must be a string.' });
+    }
     // @ts-expect-error uncorrectly typed for v2
-    const fileName = req.file.originalName as string;
+    const originalName = relativePath ?? (req.file.originalName as string);
+    const fileName = getUploadFileName(originalName, relativePath !== undefined);
+    if (!fileName) {
+        return res.status(400).json({ error: 'The file name is not valid.', code: INVALID_FILE_NAME });
+    }
 
+    const { checksum, onConflict: onConflictField } = body;
+    const metadata = parseMetadataChanges(body);
+    if (!metadata) {
+        return res.status(400).json({ error: INVALID_METADATA_MESSAGE });
+    }
+    if (!isOptionalSha256(checksum)) {
+        return res.status(400).json({ error: '`checksum` must be a hex encoded SHA-256 digest.' });
+    }
+    const onConflict = parseCollisionPolicy(onConflictField ?? req.query.onConflict);
+    if (!isCollisionPolicy(onConflict)) {
+        return res.status(400).json({ error: `\`onConflict\` must be one of ${COLLISION_POLICIES.join(', ')}.` });
+    }
+
+    const { namespace } = getUser(res);
+    const policy = getUploadPolicy();
+    // The extension is checked upfront, the content once it was received
+    const typeViolation = checkFileType(policy, fileName, { mimeType: getMimeType(fileName) });
+    if (typeViolation) {
+        return respondPolicyViolation(res, typeViolation);
+    }
+
+    let received: ReceivedBlob | undefined;
     try {
-        await pipeline(req.file.stream, createWriteStream(`${UPLOAD_DIR}/${fileName}`));
+        const policyStream = createPolicyStream(policy);
+        // Stops receiving as soon as the upload can no longer fit a quota, so it never fills the disk
+        const quotaStream = createQuotaStream(await getQuotaStatus(namespace), {
+            storedSize: await getLargestStoredSize(),
+        });
+        received = await receiveBlob(req.file.stream, policyStream.stream, quotaStream);
 
-        res.status(200).json({ message: 'File uploaded successfully' });
+        const { sha256, size } = received;
+        if (checksum && checksum.toLowerCase() !== sha256) {
+            return res.status(422).json({ error: 'File checksum mismatch', code: CHECKSUM_MISMATCH });
+        }
+        const violation =
+            checkFileType(policy, fileName, {
+                sniffedMimeType: sniffMimeType(policyStream.getHead()),
+                mimeType: getMimeType(fileName),
+            }) ??
+            (await checkStoredFiles(policy, namespace, fileName, size, onConflict)) ??
+            (await checkContentQuota(namespace, received));
+        if (violation) {
+            return respondPolicyViolation(res, violation);
+        }
+
+        const file = await addFile(namespace, fileName, received, onConflict, {
+            ...metadata,
+            // @ts-expect-error uncorrectly typed for v2 (detectedMimeType is not in the type)
+            mimeType: (req.file.detectedMimeType as string | null) ?? getMimeType(fileName),
+            originalName,
+            uploadMethod: 'single',
+            processing: createPendingProcessing(),
+        });
+        publishEvent(namespace, { type: 'file-added', data: { file } });
+        processFile(namespace, file);
+
+        res.status(200).json({ message: 'File uploaded successfully', fileName: file.name, sha256 });
     } catch (error) {
+        const violation = getPolicyViolation(error);
+        if (violation) {
+            return respondPolicyViolation(res, violation);
+        }
+        if (getErrorCode(error) === 'EEXIST') {
+            return respondFileExists(res, fileName);
+        }
+
         console.error('Error saving file:', error);
         res.status(500).json({ error: 'Error saving file' });
+    } finally {
+        if (received) {
+            await discardBlob(received);
+        }
     }
 });
 
+const respondBlobNotFound = (res: Response) =>
+    res.status(404).json({ error: 'No stored file has this content', code: BLOB_NOT_FOUND });
+
+// Lets clients check whether the content of a file is stored already, before sending it
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/blobs/:sha256', async (req: Request<{ sha256: string }>, res: Response) => {
+    const sha256 = req.params.sha256.toLowerCase();
+    if (!isSha256(sha256)) {
+        return res.status(400).json({ error: '`sha256` must be a hex encoded SHA-256 digest.' });
+    }
+
+    try {
+        // Contents of other namespaces are unknown, a digest alone must not tell what other users stored
+        const entry = (await isContentInNamespace(getUser(res).namespace, sha256)) ? await statBlob(sha256) : null;
+        return entry ? res.status(200).json({ sha256, size: entry.size }) : respondBlobNotFound(res);
+    } catch (error) {
+        console.error('Error reading blob:', error);
+        return res.status(500).json({ error: 'Error reading blob' });
+    }
+});
+
+// Adds a file with content that is stored already, without sending it again
+app.post(
+    '/api/upload-by-hash',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (
+        req: CustomRequest<{
+            sha256?: unknown;
+            fileName?: unknown;
+            relativePath?: unknown;
+            onConflict?: unknown;
+            tags?: unknown;
+            description?: unknown;
+        }>,
+        res: Response
+    ) => {
+        if (!isSha256(req.body.sha256)) {
+            return res.status(400).json({ error: '`sha256` must be a hex encoded SHA-256 digest.' });
+        }
+        const sha256 = req.body.sha256.toLowerCase();
+        if (typeof req.body.fileName !== 'string' || req.body.fileName.length === 0) {
+            return res.status(400).json({ error: 'Missing required `fileName` key in body.' });
+        }
+        const { relativePath } = req.body;
+        if (!isOptionalString(relativePath)) {
+            return res.status(400).json({ error: '`relativePath` must be a string.' });
+        }
+        const originalName = relativePath ?? req.body.fileName;
+        const fileName = getUploadFileName(originalName, relativePath !== undefined);
+        if (!fileName) {
+            return res.status(400).json({ error: 'The file name is not valid.', code: INVALID_FILE_NAME });
+        }
+        const onConflict = parseCollisionPolicy(req.body.onConflict);
+        if (!isCollisionPolicy(onConflict)) {
+            return res.status(400).json({ error: `\`onConflict\` must be one of ${COLLISION_POLICIES.join(', ')}.` });
+        }
+        const metadata = parseMetadataChanges(req.body);
+        if (!metadata) {
+            return res.status(400).json({ error: INVALID_METADATA_MESSAGE });
+        }
+
+        const { namespace } = getUser(res);
+        try {
+            const entry = (await isContentInNamespace(namespace, sha256)) ? await statBlob(sha256) : null;
+            if (!entry) {
+                return respondBlobNotFound(res);
+            }
+
+            // The same checks as if the content was sent
+            const policy = getUploadPolicy();
+            const violation =
+                checkFileSize(policy, entry.size) ??
+                checkFileType(policy, fileName, {
+                    sniffedMimeType: sniffMimeType(await readBlobHead(sha256, SNIFF_LENGTH)),
+                    mimeType: getMimeType(fileName),
+                }) ??
+                (await checkStoredFiles(policy, namespace, fileName, entry.size, onConflict));
+            if (violation) {
+                return respondPolicyViolation(res, violation);
+            }
+
+            const file = await addFile(namespace, fileName, { sha256, size: entry.size }, onConflict, {
+                ...metadata,
+                mimeType: getMimeType(fileName),
+                originalName,
+                uploadMethod: 'by-hash',
+                processing: createPendingProcessing(),
+            });
+            publishEvent(namespace, { type: 'file-added', data: { file } });
+            processFile(namespace, file);
+
+            return res.status(200).json({ message: 'File uploaded successfully', fileName: file.name, sha256 });
+        } catch (error) {
+            // Deleted along with the last file that had it
+            if (getErrorCode(error) === 'ENOENT') {
+                return respondBlobNotFound(res);
+            }
+            if (getErrorCode(error) === 'EEXIST') {
+                return respondFileExists(res, fileName);
+            }
+
+            console.error('Error saving file:', error);
+            return res.status(500).json({ error: 'Error saving file' });
+        }
+    }
+);
+
+app.post(
+    '/api/upload-sessions',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (
+        req: CustomRequest<{
+            fileName?: unknown;
+            relativePath?: unknown;
+            totalChunks?: unknown;
+            size?: unknown;
+            chunkSize?: unknown;
+            checksum?: unknown;
+            onConflict?: unknown;
+            tags?: unknown;
+            description?: unknown;
+        }>,
+        res: Response
+    ) => {
+        const { totalChunks, size, chunkSize, checksum } = req.body;
+        if (typeof req.body.fileName !== 'string' || req.body.fileName.length === 0) {
+            return res.status(400).json({ error: 'Missing required `fileName` key in body.' });
+        }
+        const { relativePath } = req.body;
+        if (!isOptionalString(relativePath)) {
+            return res.status(400).json({ error: '`relativePath` must be a string.' });
+        }
+        const originalName = relativePath ?? req.body.fileName;
+        const fileName = getUploadFileName(originalName, relativePath !== undefined);
+        if (!fileName) {
+            return res.status(400).json({ error: 'The file name is not valid.', code: INVALID_FILE_NAME });
+        }
+        if (!Number.isInteger(totalChunks) || (totalChunks as number) < 1) {
+            return res.status(400).json({ error: '`totalChunks` must be a positive integer.' });
+        }
+        if (size !== undefined && (!Number.isInteger(size) || (size as number) < 0)) {
+            return res.status(400).json({ error: '`size` must be a non-negative integer.' });
+        }
+        if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || (chunkSize as number) < 1)) {
+            return res.status(400).json({ error: '`chunkSize` must be a positive integer.' });
+        }
+        if (!isOptionalSha256(checksum)) {
+            return res.status(400).json({ error: '`checksum` must be a hex encoded SHA-256 digest.' });
+        }
+        const onConflict = parseCollisionPolicy(req.body.onConflict);
+        if (!isCollisionPolicy(onConflict)) {
+            return res.status(400).json({ error: `\`onConflict\` must be one of ${COLLISION_POLICIES.join(', ')}.` });
+        }
+        const metadata = parseMetadataChanges(req.body);
+        if (!metadata) {
+            return res.status(400).json({ error: INVALID_METADATA_MESSAGE });
+        }
+        const { namespace } = getUser(res);
+        // Checked upfront as well, so a conflicting upload fails before sending any chunk
+        try {
+            if (onConflict === 'reject' && (await getMetadata(namespace, fileName))) {
+                return respondFileExists(res, fileName);
+            }
+
+            // The content is only known once merged, the name and the announced size can be checked right away
+            const policy = getUploadPolicy();
+            const declared = {
+                totalChunks: totalChunks as number,
+                size: size as number | undefined,
+                chunkSize: chunkSize as number | undefined,
+            };
+            // The announced size, or as many bytes as the chunks can have, is reserved until the upload ends
+            const declaredSize = getDeclaredSize(declared);
+            const violation =
+                checkFileType(policy, fileName, { mimeType: getMimeType(fileName) }) ??
+                (size === undefined
+                    ? null
+                    : checkFileSize(policy, size as number) ??
+                      (await checkStoredFiles(policy, namespace, fileName, size as number, onConflict))) ??
+                (declaredSize === null ? null : checkQuota(await getQuotaStatus(namespace), declaredSize));
+            if (violation) {
+                return respondPolicyViolation(res, violation);
+            }
+
+            const session = await createSession({
+                fileName,
+                ...declared,
+                checksum,
+                onConflict,
+                originalName,
+                metadata,
+                namespace,
+            });
+            return res.status(201).json(await toSessionResponse(session));
+        } catch (error) {
+            console.error('Error creating upload session:', error);
+            return res.status(500).json({ error: 'Error creating upload session' });
+        }
+    }
+);
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/upload-sessions/:uploadId', async (req: Request<{ uploadId: string }>, res: Response) => {
+    try {
+        const session = await getProtocolSession(req.params.uploadId, 'chunks', getUser(res).namespace);
+        if (!session) {
+            return res.status(404).json({ error: 'Upload session not found' });
+        }
+        return res.status(200).json(await toSessionResponse(session));
+    } catch (error) {
+        console.error('Error reading upload session:', error);
+        return res.status(500).json({ error: 'Error reading upload session' });
+    }
+});
+
+// Uploads in progress of every namespace, oldest first, with the number of chunks received so far
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/admin/uploads', requireAdmin, async (_req: Request, res: Response) => {
+    try {
+        return res.status(200).json({ uploads: await listSessions() });
+    } catch (error) {
+        console.error('Error listing uploads:', error);
+        return res.status(500).json({ error: 'Error listing uploads' });
+    }
+});
+
+// Aborts an upload in progress and removes its chunks, the client has to start over
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.delete('/api/admin/uploads/:uploadId', requireAdmin, async (req: Request<{ uploadId: string }>, res: Response) => {
+    const { uploadId } = req.params;
+    try {
+        const session = await getSession(uploadId);
+        if (!session) {
+            return res.status(404).json({ error: 'Upload session not found' });
+        }
+        if (mergingUploads.has(uploadId)) {
+            return res.status(409).json({ error: 'The upload is complete and being merged' });
+        }
+        await removeSession(session);
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error aborting upload:', error);
+        return res.status(500).json({ error: 'Error aborting upload' });
+    }
+});
+
+// Issued tokens of every user, without the tokens themselves
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/admin/tokens', requireAdmin, async (_req: Request, res: Response) => {
+    try {
+        return res.status(200).json({ tokens: await listTokens() });
+    } catch (error) {
+        console.error('Error listing tokens:', error);
+        return res.status(500).json({ error: 'Error listing tokens' });
+    }
+});
+
+// Issues a token for a user, the response is the only time the token itself is shown
+app.post(
+    '/api/admin/tokens',
+    requireAdmin,
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (req: CustomRequest<{ user?: unknown; admin?: unknown }>, res: Response) => {
+        const { user, admin = false } = req.body;
+        if (!isUserName(user)) {
+            return res.status(400).json({ error: '`user` must be 1 to 64 letters, digits, `_` or `-`.' });
+        }
+        if (typeof admin !== 'boolean') {
+            return res.status(400).json({ error: '`admin` must be a boolean.' });
+        }
+
+        try {
+            return res.status(201).json(await issueToken(user, { admin }));
+        } catch (error) {
+            console.error('Error issuing token:', error);
+            return res.status(500).json({ error: 'Error issuing token' });
+        }
+    }
+);
+
+// Revokes a token right away, the files of its user are kept
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.delete('/api/admin/tokens/:id', requireAdmin, async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        if (!(await revokeToken(req.params.id))) {
+            return res.status(404).json({ error: 'Token not found', code: TOKEN_NOT_FOUND });
+        }
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error revoking token:', error);
+        return res.status(500).json({ error: 'Error revoking token' });
+    }
+});
+
+// As many as a page of files has links, and then some
+const MAX_SIGNED_URLS = 1000;
+
+/**
+ * Signs URLs of the API for a while, for links, media, `EventSource` and forms, which cannot send the token along.
+ * `GET` URLs of any reading route can be signed, `POST` ones only for archives.
+ */
+app.post(
+    '/api/signed-urls',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (req: CustomRequest<{ urls?: unknown; method?: unknown }>, res: Response) => {
+        const { urls, method = 'GET' } = req.body;
+        if (
+            !Array.isArray(urls) ||
+            urls.length > MAX_SIGNED_URLS ||
+            !urls.every((url): url is string => typeof url === 'string')
+        ) {
+            return res.status(400).json({ error: `\`urls\` must be a list of up to ${MAX_SIGNED_URLS} URLs.` });
+        }
+        if (method !== 'GET' && method !== 'POST') {
+            return res.status(400).json({ error: '`method` must be `GET` or `POST`.' });
+        }
+
+        const { tokenId } = getUser(res);
+        // Without authentication the URLs need no signature
+        if (tokenId === null) {
+            return res.status(200).json({ urls, expiresAt: null });
+        }
+        try {
+            const signed = await signUrls(tokenId, urls, method);
+            if (!signed) {
+                return res.status(400).json({ error: 'Only URLs of the API that read files can be signed.' });
+            }
+            return res.status(200).json(signed);
+        } catch (error) {
+            console.error('Error signing URLs:', error);
+            return res.status(500).json({ error: 'Error signing URLs' });
+        }
+    }
+);
+
 app.post(
     '/api/upload-chunk',
     upload.single('file'),
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
-    async (req: CustomRequest<{ currentChunkIndex: number; totalChunks: number }>, res: Response) => {
+    async (
+        req: CustomRequest<{
+            currentChunkIndex: number;
+            totalChunks: number;
+            chunkCount?: string;
+            uploadId?: string;
+            checksum?: string;
+        }>,
+        res: Response
+    ) => {
         if (!req.file || !('currentChunkIndex' in req.body) || !('totalChunks' in req.body)) {
             return res.status(400).json({ error: 'Missing required parameters' });
         }
 
-        // @ts-expect-error uncorrectly typed for v2 (originalName is not in the type)
-        if (!req.file.originalName) {
+        // Every chunk belongs to an upload session, so uploads of the same file never write into each other's chunks
+        if (req.body.uploadId === undefined) {
             return res.status(400).json({
-                error: "Missing filename, did you pass the filename in the FormData? (`formData.append('file', chunk, filename)`)",
+                error: 'Missing required `uploadId`, create an upload session first (`POST /api/upload-sessions`).',
             });
         }
+        let session: UploadSession | null;
+        try {
+            session = await getProtocolSession(req.body.uploadId, 'chunks', getUser(res).namespace);
+        } catch (error) {
+            console.error('Error reading upload session:', error);
+            return res.status(500).json({ error: 'Error saving chunk' });
+        }
+        if (!session) {
+            return res.status(404).json({ error: 'Upload session not found' });
+        }
+        const { uploadId, totalChunks } = session;
 
         const currentChunkIndex = Number(req.body.currentChunkIndex);
-        const totalChunks = Number(req.body.totalChunks);
-        // @ts-expect-error uncorrectly typed for v2 (originalName is not in the type)
-        const fileName = req.file.originalName as string;
+        if (!Number.isInteger(currentChunkIndex) || currentChunkIndex < 0 || currentChunkIndex >= totalChunks) {
+            return res.status(400).json({ error: '`currentChunkIndex` is out of range' });
+        }
+
+        // A chunk may cover several consecutive chunk indexes, starting at `currentChunkIndex`
+        const chunkCount = req.body.chunkCount === undefined ? 1 : Number(req.body.chunkCount);
+        if (!Number.isInteger(chunkCount) || chunkCount < 1 || currentChunkIndex + chunkCount > totalChunks) {
+            return res.status(400).json({ error: '`chunkCount` is out of range' });
+        }
+        const { checksum } = req.body;
+        if (!isOptionalSha256(checksum)) {
+            return res.status(400).json({ error: '`checksum` must be a hex encoded SHA-256 digest.' });
+        }
 
-        const chunkFilePath = `${CHUNK_DIR}/${fileName}.part_${currentChunkIndex}`;
+        const { chunks } = getStorages();
+        const chunkKey = getChunkKey(uploadId, currentChunkIndex, chunkCount);
+        const policy = getUploadPolicy();
 
         try {
-            await pipeline(req.file.stream, createWriteStream(chunkFilePath));
+            const receivedRanges = await getReceivedRanges(uploadId);
+            if (overlapsReceivedRange(receivedRanges, { index: currentChunkIndex, count: chunkCount })) {
+                return res
+                    .status(409)
+                    .json({ error: 'The chunk overlaps chunks that were already received', code: CHUNK_OVERLAP });
+            }
 
-            console.log('currentChunkIndex', currentChunkIndex, 'totalChunks', totalChunks);
-            if (currentChunkIndex === totalChunks - 1) {
-                console.log('Merging chunks');
-                // If this is the last chunk, merge all chunks into a single file
-                await mergeChunks(fileName, totalChunks);
+            // Stored under a temporary key until verified, so a corrupted chunk is never taken for a received one
+            const digest = createDigestStream();
+            // A single chunk bigger than a whole file may be, or than the upload has left, is rejected right away
+            const limitStream = await createChunkLimitStream(session, chunkCount);
+            await chunks.put(
+                `${chunkKey}.tmp`,
+                pipeThrough(req.file.stream, createPolicyStream(policy).stream, limitStream, digest.stream)
+            );
+            if (checksum && checksum.toLowerCase() !== digest.getDigest()) {
+                // The chunk is dropped, so the client can simply send it again
+                await chunks.delete(`${chunkKey}.tmp`);
+                return res.status(422).json({ error: 'Chunk checksum mismatch', code: CHECKSUM_MISMATCH });
             }
+            await chunks.move(`${chunkKey}.tmp`, chunkKey, { overwrite: true });
+
+            // Chunks can arrive in any order, merge as soon as every index is present
+            const receivedChunks = await getReceivedChunks(uploadId);
+            publishEvent(getSessionNamespace(session), {
+                type: 'upload-progress',
+                data: { uploadId, fileName: session.fileName, receivedChunks: receivedChunks.length, totalChunks },
+            });
+            if (receivedChunks.length === totalChunks && !mergingUploads.has(uploadId)) {
+                mergingUploads.add(uploadId);
+                try {
+                    const merged = await mergeChunks(session, policy);
+                    if (!merged) {
+                        return res
+                            .status(422)
+                            .json({ error: 'Merged file checksum mismatch', code: FILE_CHECKSUM_MISMATCH });
+                    }
 
-            return res.status(200).json({ message: 'Chunked file uploaded successfully' });
+                    return res.status(200).json({
+                        message: 'Chunked file uploaded successfully',
+                        complete: true,
+                        fileName: merged.fileName,
+                        sha256: merged.sha256,
+                    });
+                } finally {
+                    mergingUploads.delete(uploadId);
+                }
+            }
+
+            return res.status(200).json({ message: 'Chunked file uploaded successfully', complete: false });
         } catch (error) {
+            if (getErrorCode(error) === UPLOAD_LENGTH_EXCEEDED) {
+                return res.status(413).json({ error: 'The chunk has more bytes than the upload has left' });
+            }
+            const violation = getPolicyViolation(error);
+            if (violation) {
+                return respondPolicyViolation(res, violation);
+            }
+            if (getErrorCode(error) === 'EEXIST') {
+                return respondFileExists(res, session.fileName);
+            }
+
             console.error('Error saving chunk:', error);
             return res.status(500).json({ error: 'Error saving chunk' });
         }
     }
 );
 
+// tus 1.0 uploads, for clients other than `useChunkedUpload`. They are upload sessions as well, every byte a chunk index.
+const TUS_PATH = '/api/tus';
+app.use(TUS_PATH, tusProtocol);
+
+// tus clients must not write into an upload concurrently, nor terminate it while writing
+const lockedTusUploads = new Set<string>();
+
+const respondTusUploadNotFound = (res: Response) => res.status(404).json({ error: 'Upload not found' });
+
+app.options([TUS_PATH, `${TUS_PATH}/:uploadId`], (_req, res) => {
+    const { maxFileSize } = getUploadPolicy();
+    res.setHeader('Tus-Version', TUS_VERSION);
+    res.setHeader('Tus-Extension', TUS_EXTENSIONS.join(','));
+    res.setHeader('Tus-Checksum-Algorithm', TUS_CHECKSUM_ALGORITHMS.join(','));
+    if (maxFileSize !== null) {
+        res.setHeader('Tus-Max-Size', maxFileSize);
+    }
+    res.status(204).end();
+});
+
+// Creates an upload, its `Upload-Metadata` carries the `filename` along with the fields of `POST /api/upload-sessions`
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.post(TUS_PATH, async (req: Request, res: Response) => {
+    if (req.get('Upload-Defer-Length') !== undefined) {
+        return res.status(400).json({ error: 'Deferring the upload length is not supported.' });
+    }
+    const size = parseByteCount(req.get('Upload-Length'));
+    if (size === null) {
+        return res.status(400).json({ error: '`Upload-Length` must be a non-negative integer.' });
+    }
+    const uploadMetadata = req.get('Upload-Metadata');
+    const fields = parseUploadMetadata(uploadMetadata);
+    if (!fields) {
+        return res.status(400).json({ error: '`Upload-Metadata` must be comma separated keys and base64 values.' });
+    }
+
+    // Some clients name the file `name` instead
+    const name = fields.filename ?? fields.name;
+    if (!name) {
+        return res.status(400).json({ error: 'Missing required `filename` key in `Upload-Metadata`.' });
+    }
+    const { relativePath } = fields;
+    const originalName = relativePath ?? name;
+    const fileName = getUploadFileName(originalName, relativePath !== undefined);
+    if (!fileName) {
+        return res.status(400).json({ error: 'The file name is not valid.', code: INVALID_FILE_NAME });
+    }
+    const onConflict = parseCollisionPolicy(fields.onConflict);
+    if (!isCollisionPolicy(onConflict)) {
+        return res.status(400).json({ error: `\`onConflict\` must be one of ${COLLISION_POLICIES.join(', ')}.` });
+    }
+    const metadata = parseMetadataChanges({ tags: fields.tags, description: fields.description });
+    if (!metadata) {
+        return res.status(400).json({ error: INVALID_METADATA_MESSAGE });
+    }
+
+    const { namespace } = getUser(res);
+    try {
+        if (onConflict === 'reject' && (await getMetadata(namespace, fileName))) {
+            return respondFileExists(res, fileName);
+        }
+        const policy = getUploadPolicy();
+        const violation =
+            checkFileType(policy, fileName, { mimeType: getMimeType(fileName) }) ??
+            checkFileSize(policy, size) ??
+            (await checkStoredFiles(policy, namespace, fileName, size, onConflict)) ??
+            checkQuota(await getQuotaStatus(namespace), size);
+        if (violation) {
+            return respondPolicyViolation(res, violation);
+        }
+
+        const session = await createSession({
+            fileName,
+            totalChunks: size,
+            size,
+            onConflict,
+            originalName,
+            metadata,
+            protocol: 'tus',
+            uploadMetadata,
+            namespace,
+        });
+        // Empty files have no bytes to wait for
+        if (size === 0) {
+            await mergeChunks(session, policy);
+        }
+
+        res.setHeader('Location', `${TUS_PATH}/${session.uploadId}`);
+        return res.status(201).end();
+    } catch (error) {
+        const violation = getPolicyViolation(error);
+        if (violation) {
+            return respondPolicyViolation(res, violation);
+        }
+        if (getErrorCode(error) === 'EEXIST') {
+            return respondFileExists(res, fileName);
+        }
+
+        console.error('Error creating tus upload:', error);
+        return res.status(500).json({ error: 'Error creating upload' });
+    }
+});
+
 // eslint-disable-next-line @typescript-eslint/no-misused-promises
-app.get('/api/files', async (_req, res) => {
+app.head(`${TUS_PATH}/:uploadId`, async (req: Request<{ uploadId: string }>, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
     try {
-        const fileNames = await readdir(UPLOAD_DIR);
-        const files: { name: string; size: number }[] = [];
-        for (const fileName of fileNames) {
-            if (fileName === '.gitkeep') {
-                continue;
-            }
+        const session = await getProtocolSession(req.params.uploadId, 'tus', getUser(res).namespace);
+        if (!session) {
+            return res.status(404).end();
+        }
 
-            const file = await stat(join(UPLOAD_DIR, fileName));
-            files.push({
-                name: fileName,
-                size: file.size,
-            });
+        res.setHeader('Upload-Offset', countReceivedChunks(await getReceivedRanges(session.uploadId)));
+        res.setHeader('Upload-Length', session.totalChunks);
+        if (session.uploadMetadata) {
+            res.setHeader('Upload-Metadata', session.uploadMetadata);
         }
+        return res.status(200).end();
+    } catch (error) {
+        console.error('Error reading tus upload:', error);
+        return res.status(500).end();
+    }
+});
 
-        return res.status(200).json({ files });
+// Writes the bytes at `Upload-Offset`, the upload is stored as a file once it has all of its bytes
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.patch(`${TUS_PATH}/:uploadId`, async (req: Request<{ uploadId: string }>, res: Response) => {
+    let session: UploadSession | null;
+    try {
+        session = await getProtocolSession(req.params.uploadId, 'tus', getUser(res).namespace);
+    } catch (error) {
+        console.error('Error reading tus upload:', error);
+        return res.status(500).json({ error: 'Error saving upload' });
+    }
+    if (!session) {
+        return respondTusUploadNotFound(res);
+    }
+    if (req.get('Content-Type') !== TUS_CONTENT_TYPE) {
+        return res.status(415).json({ error: `\`Content-Type\` must be ${TUS_CONTENT_TYPE}.` });
+    }
+    const offset = parseByteCount(req.get('Upload-Offset'));
+    if (offset === null) {
+        return res.status(400).json({ error: '`Upload-Offset` must be a non-negative integer.' });
+    }
+    const checksumHeader = req.get('Upload-Checksum');
+    const checksum = checksumHeader === undefined ? undefined : parseUploadChecksum(checksumHeader);
+    if (checksum === null) {
+        return res.status(400).json({
+            error: `\`Upload-Checksum\` must be one of ${TUS_CHECKSUM_ALGORITHMS.join(', ')} and a base64 digest.`,
+        });
+    }
+
+    const { uploadId, totalChunks: size } = session;
+    if (lockedTusUploads.has(uploadId)) {
+        return res.status(423).json({ error: 'Another request is writing into the upload' });
+    }
+    lockedTusUploads.add(uploadId);
+
+    const { chunks } = getStorages();
+    // Stored under a temporary key until verified, like the chunks of `POST /api/upload-chunk`
+    const tempKey = `${uploadId}/patch.tmp`;
+    try {
+        const receivedBytes = countReceivedChunks(await getReceivedRanges(uploadId));
+        if (offset !== receivedBytes) {
+            return res.status(409).json({ error: `The upload continues at offset ${receivedBytes}` });
+        }
+
+        const digest = createDigestStream(checksum?.algorithm);
+        await chunks.put(tempKey, pipeThrough(req, createLengthLimitStream(size - offset), digest.stream));
+        if (checksum && checksum.digest !== Buffer.from(digest.getDigest(), 'hex').toString('base64')) {
+            // The bytes are dropped, so the client can simply send them again
+            return res.status(CHECKSUM_MISMATCH_STATUS).json({ error: 'Checksum mismatch', code: CHECKSUM_MISMATCH });
+        }
+        const length = digest.getSize();
+        if (length > 0) {
+            await chunks.move(tempKey, getChunkKey(uploadId, offset, length), { overwrite: true });
+        }
+
+        const nextOffset = offset + length;
+        publishEvent(getSessionNamespace(session), {
+            type: 'upload-progress',
+            data: { uploadId, fileName: session.fileName, receivedChunks: nextOffset, totalChunks: size },
+        });
+        if (nextOffset === size && !(await mergeChunks(session, getUploadPolicy()))) {
+            return res.status(422).json({ error: 'Merged file checksum mismatch', code: FILE_CHECKSUM_MISMATCH });
+        }
+
+        res.setHeader('Upload-Offset', nextOffset);
+        return res.status(204).end();
+    } catch (error) {
+        if (getErrorCode(error) === UPLOAD_LENGTH_EXCEEDED) {
+            return res.status(413).json({ error: 'The request has more bytes than the upload has left' });
+        }
+        const violation = getPolicyViolation(error);
+        if (violation) {
+            return respondPolicyViolation(res, violation);
+        }
+        if (getErrorCode(error) === 'EEXIST') {
+            return respondFileExists(res, session.fileName);
+        }
+
+        console.error('Error saving tus upload:', error);
+        return res.status(500).json({ error: 'Error saving upload' });
+    } finally {
+        await chunks.delete(tempKey);
+        lockedTusUploads.delete(uploadId);
+    }
+});
+
+// Terminates an upload, its bytes are removed
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.delete(`${TUS_PATH}/:uploadId`, async (req: Request<{ uploadId: string }>, res: Response) => {
+    try {
+        const session = await getProtocolSession(req.params.uploadId, 'tus', getUser(res).namespace);
+        if (!session) {
+            return respondTusUploadNotFound(res);
+        }
+        if (lockedTusUploads.has(session.uploadId)) {
+            return res.status(423).json({ error: 'Another request is writing into the upload' });
+        }
+        await removeSession(session);
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error terminating tus upload:', error);
+        return res.status(500).json({ error: 'Error terminating upload' });
+    }
+});
+
+// Files added, changed and removed, and the progress of chunked uploads, as Server-Sent Events
+app.get('/api/events', (req, res) => streamEvents(req, res, getUser(res).namespace));
+
+// Lets clients check files against the upload policy before sending them
+app.get('/api/config', (_req, res) => {
+    res.status(200).json({ uploadPolicy: getUploadPolicy() });
+});
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/files', async (req, res) => {
+    const query = parseListQuery(req.query);
+    if (typeof query === 'string') {
+        return res.status(400).json({ error: query });
+    }
+
+    try {
+        // Only the files of the user's namespace
+        const files = await listMetadata(getUser(res).namespace);
+
+        // The usage covers every stored file, whatever the query
+        return res.status(200).json({ ...queryFiles(files, query), usage: getUsage(files) });
     } catch (error) {
         const message = error instanceof Error ? error.message : 'An error occurred';
         return res.status(500).json({ message });
     }
 });
+
+// Number of files `GET /api/usage` lists as the largest ones
+const LARGEST_FILES_COUNT = 10;
+
+// How much the user stored and how much of the quotas is left, with the files taking the most bytes
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/usage', async (_req: Request, res: Response) => {
+    const { namespace } = getUser(res);
+    try {
+        const status = await getQuotaStatus(namespace);
+        const files = await listMetadata(namespace);
+        const largestFiles = [...files].sort((a, b) => b.size - a.size).slice(0, LARGEST_FILES_COUNT);
+
+        return res.status(200).json({ ...status, availableBytes: getAvailableBytes(status), largestFiles });
+    } catch (error) {
+        console.error('Error reading usage:', error);
+        return res.status(500).json({ error: 'Error reading usage' });
+    }
+});
+
+const respondVersionNotFound = (res: Response) =>
+    res.status(404).json({ error: 'Version not found', code: VERSION_NOT_FOUND });
+
+// Version numbers count up from 1, resolves to `null` for anything else
+const parseVersion = (value: string) => (/^[1-9]\d*$/.test(value) ? Number(value) : null);
+
+/**
+ * Streams the current or a previous version of a file, resolves to `false` when its content is gone.
+ * `onWholeFile` runs first when the whole file is about to be sent, and may still fail the request.
+ */
+const sendVersion = async (
+    req: Request,
+    res: Response,
+    fileName: string,
+    version: FileVersion,
+    { onWholeFile }: { onWholeFile?: () => Promise<unknown> } = {}
+) => {
+    const stored = await statBlob(version.sha256);
+    if (!stored) {
+        return false;
+    }
+
+    // The content may be older than the version, which was added when uploaded
+    const entry = { ...stored, modifiedAt: new Date(version.uploadedAt) };
+    if (onWholeFile && getResponseStatus(req, entry, version.sha256) === 200) {
+        await onWholeFile();
+    }
+    sendFile(req, res, {
+        storage: getStorages().blobs,
+        entry,
+        fileName: basename(fileName),
+        sha256: version.sha256,
+        disposition: 'download' in req.query ? 'attachment' : 'inline',
+    });
+    return true;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/files/:name', async (req: Request<{ name: string }>, res: Response) => {
+    const fileName = req.params.name;
+    if (!isStoredFilePath(fileName)) {
+        return respondFileNotFound(res);
+    }
+
+    try {
+        const metadata = await getMetadata(getUser(res).namespace, fileName);
+        if (!metadata || !(await sendVersion(req, res, fileName, metadata))) {
+            return respondFileNotFound(res);
+        }
+    } catch (error) {
+        if (getErrorCode(error) === 'ENOENT') {
+            return respondFileNotFound(res);
+        }
+
+        console.error('Error reading file:', error);
+        return res.status(500).json({ error: 'Error reading file' });
+    }
+});
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.delete('/api/files/:name', async (req: Request<{ name: string }>, res: Response) => {
+    const fileName = req.params.name;
+    if (!isStoredFilePath(fileName)) {
+        return respondFileNotFound(res);
+    }
+
+    const { namespace } = getUser(res);
+    try {
+        // The content is kept as long as other files have it
+        if (!(await removeFile(namespace, fileName))) {
+            return respondFileNotFound(res);
+        }
+        publishEvent(namespace, { type: 'file-deleted', data: { name: fileName } });
+
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error deleting file:', error);
+        return res.status(500).json({ error: 'Error deleting file' });
+    }
+});
+
+// Resolves to `null` and responds with the error when the new name is not valid
+const parseTargetName = (res: Response, value: unknown) => {
+    const targetName = typeof value === 'string' ? sanitizeFilePath(value) : null;
+    if (!targetName || targetName !== value) {
+        res.status(400).json({
+            error: '`name` must be a relative path separated by `/`, without `..` segments or reserved characters.',
+            code: INVALID_FILE_NAME,
+        });
+        return null;
+    }
+    return targetName;
+};
+
+const respondTransferError = (res: Response, error: unknown, targetName: string, action: 'renaming' | 'copying') => {
+    if (getErrorCode(error) === 'ENOENT') {
+        return respondFileNotFound(res);
+    }
+    if (getErrorCode(error) === 'EEXIST') {
+        return respondFileExists(res, targetName);
+    }
+
+    console.error(`Error ${action} file:`, error);
+    return res.status(500).json({ error: `Error ${action} file` });
+};
+
+// Renames a file and/or updates its tags and description
+app.patch(
+    '/api/files/:name',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (
+        req: CustomRequest<{ name?: unknown; tags?: unknown; description?: unknown }, { name: string }>,
+        res: Response
+    ) => {
+        const { name } = req.params;
+        const { namespace } = getUser(res);
+        let fileName = name;
+        if (!isStoredFilePath(fileName)) {
+            return respondFileNotFound(res);
+        }
+
+        const changes = parseMetadataChanges(req.body);
+        if (!changes) {
+            return res.status(400).json({ error: INVALID_METADATA_MESSAGE });
+        }
+
+        try {
+            if (!(await getMetadata(namespace, fileName))) {
+                return respondFileNotFound(res);
+            }
+
+            if (req.body.name !== undefined && req.body.name !== fileName) {
+                const targetName = parseTargetName(res, req.body.name);
+                if (!targetName) {
+                    return;
+                }
+                // Renaming must not get around the allowed extensions
+                const violation = checkFileType(getUploadPolicy(), targetName, { mimeType: getMimeType(targetName) });
+                if (violation) {
+                    return respondPolicyViolation(res, violation);
+                }
+
+                try {
+                    // Fails when the target exists instead of silently replacing it
+                    await renameFile(namespace, fileName, targetName);
+                    fileName = targetName;
+                } catch (error) {
+                    return respondTransferError(res, error, targetName, 'renaming');
+                }
+            }
+
+            const metadata = await updateMetadata(namespace, fileName, changes);
+            // Removed by another request in the meantime
+            if (!metadata) {
+                return respondFileNotFound(res);
+            }
+            publishEvent(
+                namespace,
+                fileName === name
+                    ? { type: 'file-updated', data: { file: metadata } }
+                    : { type: 'file-renamed', data: { from: name, file: metadata } }
+            );
+            return res.status(200).json(metadata);
+        } catch (error) {
+            console.error('Error updating file:', error);
+            return res.status(500).json({ error: 'Error updating file' });
+        }
+    }
+);
+
+app.post(
+    '/api/files/:name/copy',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (req: CustomRequest<{ name?: unknown }, { name: string }>, res: Response) => {
+        const fileName = req.params.name;
+        if (!isStoredFilePath(fileName)) {
+            return respondFileNotFound(res);
+        }
+        const targetName = parseTargetName(res, req.body.name);
+        if (!targetName) {
+            return;
+        }
+
+        const { namespace } = getUser(res);
+        const policy = getUploadPolicy();
+        try {
+            const source = await getMetadata(namespace, fileName);
+            const violation =
+                checkFileType(policy, targetName, { mimeType: getMimeType(targetName) }) ??
+                (source ? checkStorageLimits(policy, await listAllMetadata(), { size: source.size }) : null);
+            if (violation) {
+                return respondPolicyViolation(res, violation);
+            }
+
+            // The copy shares the content of the original
+            const file = await copyFile(namespace, fileName, targetName);
+            publishEvent(namespace, { type: 'file-added', data: { file } });
+
+            return res.status(201).json(file);
+        } catch (error) {
+            return respondTransferError(res, error, targetName, 'copying');
+        }
+    }
+);
+
+// Every version of a file, newest first, starting with the current one
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/files/:name/versions', async (req: Request<{ name: string }>, res: Response) => {
+    const fileName = req.params.name;
+    if (!isStoredFilePath(fileName)) {
+        return respondFileNotFound(res);
+    }
+
+    try {
+        const metadata = await getMetadata(getUser(res).namespace, fileName);
+        if (!metadata) {
+            return respondFileNotFound(res);
+        }
+        return res.status(200).json({ name: fileName, versions: listVersions(metadata) });
+    } catch (error) {
+        console.error('Error listing file versions:', error);
+        return res.status(500).json({ error: 'Error listing file versions' });
+    }
+});
+
+app.get(
+    '/api/files/:name/versions/:version',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (req: Request<{ name: string; version: string }>, res: Response) => {
+        const fileName = req.params.name;
+        if (!isStoredFilePath(fileName)) {
+            return respondFileNotFound(res);
+        }
+
+        try {
+            const metadata = await getMetadata(getUser(res).namespace, fileName);
+            if (!metadata) {
+                return respondFileNotFound(res);
+            }
+            const version = listVersions(metadata).find(({ version }) => version === parseVersion(req.params.version));
+            if (!version || !(await sendVersion(req, res, fileName, version))) {
+                return respondVersionNotFound(res);
+            }
+        } catch (error) {
+            console.error('Error reading file version:', error);
+            return res.status(500).json({ error: 'Error reading file version' });
+        }
+    }
+);
+
+// Makes a previous version the current one again, as a new version
+app.post(
+    '/api/files/:name/versions/:version/restore',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (req: Request<{ name: string; version: string }>, res: Response) => {
+        const fileName = req.params.name;
+        const { namespace } = getUser(res);
+        if (!isStoredFilePath(fileName)) {
+            return respondFileNotFound(res);
+        }
+
+        try {
+            const metadata = await getMetadata(namespace, fileName);
+            if (!metadata) {
+                return respondFileNotFound(res);
+            }
+            const version = parseVersion(req.params.version);
+            const restored = metadata.previousVersions.find((previous) => previous.version === version);
+            if (version === null || (version !== metadata.version && !restored)) {
+                return respondVersionNotFound(res);
+            }
+
+            // The restored content replaces the current one, like an overwriting upload
+            const violation = restored
+                ? checkStorageLimits(getUploadPolicy(), await listAllMetadata(), {
+                      size: restored.size,
+                      replaces: metadata,
+                  })
+                : null;
+            if (violation) {
+                return respondPolicyViolation(res, violation);
+            }
+
+            const file = await restoreVersion(namespace, fileName, version);
+            if (file.version !== metadata.version) {
+                publishEvent(namespace, { type: 'file-updated', data: { file } });
+            }
+            return res.status(200).json(file);
+        } catch (error) {
+            if (getErrorCode(error) === 'ENOENT') {
+                return respondFileNotFound(res);
+            }
+            if (getErrorCode(error) === VERSION_NOT_FOUND) {
+                return respondVersionNotFound(res);
+            }
+
+            console.error('Error restoring file version:', error);
+            return res.status(500).json({ error: 'Error restoring file version' });
+        }
+    }
+);
+
+const respondShareNotFound = (res: Response) =>
+    res.status(404).json({ error: 'Share link not found', code: SHARE_NOT_FOUND });
+
+// Mints a link to download the file without a token, until it expires or was downloaded `maxDownloads` times
+app.post(
+    '/api/files/:name/shares',
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    async (req: CustomRequest<{ expiresIn?: unknown; maxDownloads?: unknown }, { name: string }>, res: Response) => {
+        const { expiresIn, maxDownloads = null } = req.body;
+        if (!Number.isInteger(expiresIn) || (expiresIn as number) < 1 || (expiresIn as number) > MAX_SHARE_TTL) {
+            return res
+                .status(400)
+                .json({ error: `\`expiresIn\` must be a number of seconds between 1 and ${MAX_SHARE_TTL}.` });
+        }
+        if (maxDownloads !== null && (!Number.isInteger(maxDownloads) || (maxDownloads as number) < 1)) {
+            return res.status(400).json({ error: '`maxDownloads` must be a positive integer or `null`.' });
+        }
+
+        const fileName = req.params.name;
+        const { namespace } = getUser(res);
+        try {
+            if (!isStoredFilePath(fileName) || !(await getMetadata(namespace, fileName))) {
+                return respondFileNotFound(res);
+            }
+            const link = await createShareLink(namespace, fileName, {
+                expiresIn: expiresIn as number,
+                maxDownloads: maxDownloads as number | null,
+            });
+            return res.status(201).json(link);
+        } catch (error) {
+            console.error('Error creating share link:', error);
+            return res.status(500).json({ error: 'Error creating share link' });
+        }
+    }
+);
+
+// The links of the user's files that did not expire yet, only those of one file with `file`
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/shares', async (req: Request, res: Response) => {
+    const { file } = req.query;
+    if (!isOptionalString(file)) {
+        return res.status(400).json({ error: '`file` must be a file name.' });
+    }
+
+    try {
+        return res.status(200).json({ shares: await listShareLinks(getUser(res).namespace, file) });
+    } catch (error) {
+        console.error('Error listing share links:', error);
+        return res.status(500).json({ error: 'Error listing share links' });
+    }
+});
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.delete('/api/shares/:id', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        if (!(await revokeShareLink(getUser(res).namespace, req.params.id))) {
+            return respondShareNotFound(res);
+        }
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error revoking share link:', error);
+        return res.status(500).json({ error: 'Error revoking share link' });
+    }
+});
+
+// Downloads the file of a share link, every `GET` counts as a download
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+sharedRoutes.get('/:token', async (req: Request<{ token: string }>, res: Response) => {
+    try {
+        const { token } = req.params;
+        const link = await claimShareLink(token, { count: false });
+        const metadata = await getMetadata(link.namespace, link.fileName);
+        // Only the whole file counts as a download, not the ranges of a resumed one or a check whether it changed
+        const onWholeFile = () => (req.method === 'GET' ? claimShareLink(token) : Promise.resolve());
+        if (!metadata || !(await sendVersion(req, res, link.fileName, metadata, { onWholeFile }))) {
+            return respondShareNotFound(res);
+        }
+    } catch (error) {
+        if (getErrorCode(error) === SHARE_NOT_FOUND) {
+            return respondShareNotFound(res);
+        }
+        if (getErrorCode(error) === SHARE_EXPIRED) {
+            return res.status(410).json({ error: (error as Error).message, code: SHARE_EXPIRED });
+        }
+
+        console.error('Error downloading shared file:', error);
+        return res.status(500).json({ error: 'Error downloading shared file' });
+    }
+});
+
+/**
+ * Streams a ZIP archive of the selected files, which is written while it is sent, so neither the archive nor the files
+ * are held in memory. `GET` takes the selection from the query, `POST` from a form or JSON body, for long selections.
+ */
+const sendArchive = async (res: Response, params: { files?: unknown; dir?: unknown }) => {
+    const selection = parseArchiveSelection(params);
+    if (typeof selection === 'string') {
+        return res.status(400).json({ error: selection });
+    }
+
+    try {
+        const files = selectFiles(await listMetadata(getUser(res).namespace), selection);
+        if (!files) {
+            return respondFileNotFound(res);
+        }
+
+        const { names, directories } = selection;
+        const archiveName = names.length === 0 && directories.length === 1 ? basename(directories[0]) : 'files';
+        res.status(200);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', getContentDisposition(`${archiveName}.zip`, 'attachment'));
+
+        const archive = createZipArchive(
+            files.map((file) => ({
+                name: file.name,
+                size: file.size,
+                modifiedAt: new Date(file.uploadedAt),
+                open: () => readBlob(file.sha256),
+            }))
+        );
+        // Stops reading the files when the client goes away
+        stream.pipeline(archive, res, (error) => {
+            if (error && getErrorCode(error) !== 'ERR_STREAM_PREMATURE_CLOSE') {
+                console.error('Error streaming archive:', error);
+            }
+        });
+    } catch (error) {
+        console.error('Error creating archive:', error);
+        return res.status(500).json({ error: 'Error creating archive' });
+    }
+};
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.get('/api/archive', (req: Request, res: Response) => sendArchive(res, req.query));
+
+// eslint-disable-next-line @typescript-eslint/no-misused-promises
+app.post('/api/archive', (req: CustomRequest<{ files?: unknown; dir?: unknown }>, res: Response) =>
+    sendArchive(res, req.body)
+);
@@ -0,0 +1,266 @@
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { publishEvent } from './events';
+import { getErrorCode, type CollisionPolicy } from './files';
+import { type MetadataChanges } from './metadata';
+import { getStorages, type StorageEntry } from './storage';
+
+// `chunks` sessions are created by `POST /api/upload-sessions`, `tus` ones through the tus protocol
+export type UploadProtocol = 'chunks' | 'tus';
+
+export type UploadSession = {
+    uploadId: string;
+    fileName: string;
+    // tus uploads are written at arbitrary offsets, so each of their chunk indexes is a single byte
+    totalChunks: number;
+    size?: number;
+    // Bytes of each chunk index as announced by the client, the file has no more than `totalChunks * chunkSize` bytes
+    chunkSize?: number;
+    // SHA-256 digest of the whole file, verified once all chunks are merged
+    checksum?: string;
+    // How to store the merged file when a file with the same name exists
+    onConflict?: CollisionPolicy;
+    // The file name as sent by the client, before it was sanitized
+    originalName?: string;
+    // Tags and description stored with the merged file
+    metadata?: MetadataChanges;
+    // Missing for sessions created before tus uploads were supported
+    protocol?: UploadProtocol;
+    // The `Upload-Metadata` header of a tus upload, as the client sent it
+    uploadMetadata?: string;
+    // The namespace the merged file is stored in, missing for sessions created before there were namespaces
+    namespace?: string;
+    createdAt: number;
+};
+
+// A chunk overlaps chunk indexes another chunk of the session already covers
+export const CHUNK_OVERLAP = 'CHUNK_OVERLAP';
+
+// Consecutive chunk indexes stored by a single request, clients growing their chunks send several indexes at once
+export type ChunkRange = { index: number; count: number };
+
+const parseSeconds = (value: string | undefined, fallback: number) => {
+    const seconds = Number(value);
+    return value && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : fallback;
+};
+
+// Incomplete uploads without a new chunk for this long are removed, in milliseconds
+export const UPLOAD_SESSION_TTL = parseSeconds(process.env.UPLOAD_SESSION_TTL, 24 * 60 * 60 * 1000);
+// How often expired uploads are looked for, in milliseconds
+export const UPLOAD_SWEEP_INTERVAL = parseSeconds(process.env.UPLOAD_SWEEP_INTERVAL, 15 * 60 * 1000);
+
+// An upload in progress, as listed to administrators
+export type UploadSessionSummary = Pick<
+    UploadSession,
+    'uploadId' | 'fileName' | 'totalChunks' | 'size' | 'chunkSize' | 'createdAt'
+> & {
+    namespace: string;
+    // Chunk indexes of tus uploads are bytes
+    protocol: UploadProtocol;
+    // Number of chunk indexes received so far
+    receivedChunks: number;
+    // When the last chunk was received, or when the session was created
+    updatedAt: number;
+    expiresAt: number;
+};
+
+const SESSION_FILE = 'session.json';
+// `part_3` holds the chunk index 3, `part_4-7` the indexes 4 to 7
+const PART_REGEX = /^part_(\d+)(?:-(\d+))?$/;
+const UPLOAD_ID_REGEX = /^[\da-f]{8}(?:-[\da-f]{4}){3}-[\da-f]{12}$/;
+
+// Upload ids end up in storage keys, so anything that is not one of our own UUIDs is rejected upfront
+export const isUploadId = (value: unknown): value is string => typeof value === 'string' && UPLOAD_ID_REGEX.test(value);
+
+// Every upload keeps its session and chunks below its id in the chunk storage
+export const getChunkKey = (uploadId: string, chunkIndex: number, chunkCount = 1) =>
+    `${uploadId}/${chunkCount > 1 ? `part_${chunkIndex}-${chunkIndex + chunkCount - 1}` : `part_${chunkIndex}`}`;
+
+export const createSession = async (
+    input: Pick<
+        UploadSession,
+        | 'fileName'
+        | 'totalChunks'
+        | 'size'
+        | 'chunkSize'
+        | 'checksum'
+        | 'onConflict'
+        | 'originalName'
+        | 'metadata'
+        | 'protocol'
+        | 'uploadMetadata'
+        | 'namespace'
+    >
+): Promise<UploadSession> => {
+    const session: UploadSession = { ...input, uploadId: randomUUID(), createdAt: Date.now() };
+
+    // The session is persisted next to its chunks so it survives a server restart
+    await getStorages().chunks.put(`${session.uploadId}/${SESSION_FILE}`, Readable.from([JSON.stringify(session)]));
+
+    return session;
+};
+
+// Resolves to `null` when there is no such session, and rejects when it cannot be read
+export const getSession = async (uploadId: string): Promise<UploadSession | null> => {
+    if (!isUploadId(uploadId)) {
+        return null;
+    }
+
+    let content: string;
+    try {
+        content = await text(await getStorages().chunks.get(`${uploadId}/${SESSION_FILE}`));
+    } catch (error) {
+        if (getErrorCode(error) === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+    return JSON.parse(content) as UploadSession;
+};
+
+export const getReceivedRanges = async (uploadId: string): Promise<ChunkRange[]> => {
+    const entries = await getStorages().chunks.list(uploadId);
+    const ranges: ChunkRange[] = [];
+    for (const { key } of entries) {
+        // Chunks still being verified carry a `.tmp` suffix and do not count as received
+        const match = PART_REGEX.exec(key.slice(uploadId.length + 1));
+        if (match) {
+            const index = Number(match[1]);
+            const lastIndex = match[2] === undefined ? index : Number(match[2]);
+            ranges.push({ index, count: lastIndex - index + 1 });
+        }
+    }
+
+    return ranges.sort((a, b) => a.index - b.index);
+};
+
+export const countReceivedChunks = (ranges: ChunkRange[]) => ranges.reduce((total, { count }) => total + count, 0);
+
+// Bytes of the chunks received so far, chunks still being verified left out
+export const countReceivedBytes = async (uploadId: string) => {
+    const entries = await getStorages().chunks.list(uploadId);
+    return entries
+        .filter(({ key }) => PART_REGEX.test(key.slice(uploadId.length + 1)))
+        .reduce((total, { size }) => total + size, 0);
+};
+
+export const getReceivedChunks = async (uploadId: string): Promise<number[]> => {
+    const ranges = await getReceivedRanges(uploadId);
+    return ranges.flatMap(({ index, count }) => Array.from({ length: count }, (_, i) => index + i));
+};
+
+// Sending the very same range again replaces it, e.g. when the response of a stored chunk got lost
+export const overlapsReceivedRange = (ranges: ChunkRange[], { index, count }: ChunkRange) =>
+    ranges.some(
+        (range) =>
+            range.index < index + count &&
+            index < range.index + range.count &&
+            (range.index !== index || range.count !== count)
+    );
+
+const removeEntries = async (entries: StorageEntry[]) => {
+    const { chunks } = getStorages();
+    for (const { key } of entries) {
+        await chunks.delete(key);
+    }
+};
+
+export const getSessionNamespace = (session: UploadSession) => session.namespace ?? '';
+
+// The most bytes the upload can end up with, `null` when the client announced neither the size nor the chunk size
+export const getDeclaredSize = ({
+    size,
+    totalChunks,
+    chunkSize,
+}: Pick<UploadSession, 'size' | 'totalChunks' | 'chunkSize'>) =>
+    size ?? (chunkSize === undefined ? null : totalChunks * chunkSize);
+
+export const removeSession = async (session: UploadSession) => {
+    const { uploadId } = session;
+    await removeEntries(await getStorages().chunks.list(uploadId));
+    publishEvent(getSessionNamespace(session), { type: 'upload-ended', data: { uploadId } });
+};
+
+// The entries of the chunk storage grouped by upload id, entries outside of an upload stand on their own
+const listUploadEntries = async () => {
+    const uploads = new Map<string, StorageEntry[]>();
+    for (const entry of await getStorages().chunks.list()) {
+        const [name] = entry.key.split('/');
+        uploads.set(name, [...(uploads.get(name) ?? []), entry]);
+    }
+    return uploads;
+};
+
+// When the last chunk was stored, or when the session was created
+const getUpdatedAt = (entries: StorageEntry[], session?: UploadSession | null) =>
+    Math.max(session?.createdAt ?? 0, ...entries.map(({ modifiedAt }) => modifiedAt.getTime()));
+
+export const listSessions = async (ttl = UPLOAD_SESSION_TTL): Promise<UploadSessionSummary[]> => {
+    const summaries: UploadSessionSummary[] = [];
+    for (const [uploadId, entries] of await listUploadEntries()) {
+        const session = await getSession(uploadId);
+        // Merged or removed in the meantime, or no session at all
+        if (!session) {
+            continue;
+        }
+
+        const updatedAt = getUpdatedAt(entries, session);
+        const ranges = await getReceivedRanges(uploadId);
+        summaries.push({
+            uploadId: session.uploadId,
+            fileName: session.fileName,
+            totalChunks: session.totalChunks,
+            size: session.size,
+            chunkSize: session.chunkSize,
+            namespace: getSessionNamespace(session),
+            createdAt: session.createdAt,
+            protocol: session.protocol ?? 'chunks',
+            receivedChunks: countReceivedChunks(ranges),
+            updatedAt,
+            expiresAt: updatedAt + ttl,
+        });
+    }
+
+    return summaries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Removes the uploads that did not receive a chunk for `ttl` milliseconds, along with anything else
+ * left in the chunk storage for as long. Hidden entries like `.gitkeep` are kept. Resolves with the removed names.
+ */
+export const removeExpiredUploads = async ({ ttl = UPLOAD_SESSION_TTL, now = Date.now() } = {}) => {
+    const removed: string[] = [];
+    for (const [name, entries] of await listUploadEntries()) {
+        // Entries that are no session, e.g. chunks stored by older versions, expire after their last change
+        const session = await getSession(name);
+        if (now - getUpdatedAt(entries, session) > ttl) {
+            await removeEntries(entries);
+            removed.push(name);
+            if (session) {
+                publishEvent(getSessionNamespace(session), { type: 'upload-ended', data: { uploadId: name } });
+            }
+        }
+    }
+
+    return removed;
+};
+// Removes expired uploads right away and then every `interval` milliseconds, until the returned function is called
+export const startUploadSweeper = ({ interval = UPLOAD_SWEEP_INTERVAL, ttl = UPLOAD_SESSION_TTL } = {}) => {
+    const sweep = () => {
+        removeExpiredUploads({ ttl })
+            .then((removed) => {
+                if (removed.length > 0) {
+                    console.log(`Removed ${removed.length} expired uploads`);
+                }
+            })
+            .catch((error: unknown) => console.error('Error removing expired uploads:', error));
+    };
+
+    sweep();
+    const timer = setInterval(sweep, interval);
+    // The sweeper alone does not keep the process alive
+    timer.unref();
+    return () => clearInterval(timer);
+};
@@ -0,0 +1,161 @@
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { createSignedToken, verifySignedToken } from './signing';
+import { getStorages } from './storage';
+
+// The link is not valid, was revoked, or its file is gone, responded with `404`
+export const SHARE_NOT_FOUND = 'SHARE_NOT_FOUND';
+// The link expired or was downloaded as often as it allows, responded with `410`
+export const SHARE_EXPIRED = 'SHARE_EXPIRED';
+
+// Where share links are downloaded from, without a token
+export const SHARE_PATH = '/api/shared';
+// Links expire after 30 days at the latest, in seconds
+export const MAX_SHARE_TTL = 30 * 24 * 60 * 60;
+
+export type ShareLink = {
+    id: string;
+    namespace: string;
+    // The file is looked up by its name on every download, so the link serves its current version
+    fileName: string;
+    // ISO 8601 timestamps
+    expiresAt: string;
+    createdAt: string;
+    // `null` for as many downloads as wanted until the link expires
+    maxDownloads: number | null;
+    downloads: number;
+};
+
+// A link as listed to the user who shared the file, with the URL to hand out
+export type ShareLinkSummary = Omit<ShareLink, 'namespace'> & { url: string };
+
+// What the signature covers, so none of it can be changed without the secret
+type SharePayload = Pick<ShareLink, 'id' | 'namespace' | 'fileName' | 'expiresAt' | 'maxDownloads'>;
+
+const SHARES_KEY = 'shares.json';
+
+const toPayload = ({ id, namespace, fileName, expiresAt, maxDownloads }: ShareLink): SharePayload => ({
+    id,
+    namespace,
+    fileName,
+    expiresAt,
+    maxDownloads,
+});
+
+const createShareToken = (link: ShareLink) => createSignedToken(toPayload(link));
+
+// Resolves to `null` when the token was not signed with the secret
+const verifyShareToken = async (token: string) => (await verifySignedToken(token)) as SharePayload | null;
+
+const toSummary = async (link: ShareLink): Promise<ShareLinkSummary> => {
+    const { namespace: _namespace, ...summary } = link;
+    return { ...summary, url: `${SHARE_PATH}/${await createShareToken(link)}` };
+};
+
+const isExpired = (link: ShareLink, now: number) => Date.parse(link.expiresAt) <= now;
+
+const createShareError = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+// Writes are chained, so concurrent downloads never lose each other's count
+let queue: Promise<unknown> = Promise.resolve();
+
+const readShares = async (): Promise<ShareLink[]> => {
+    const { data } = getStorages();
+    if (!(await data.stat(SHARES_KEY))) {
+        return [];
+    }
+    return JSON.parse(await text(await data.get(SHARES_KEY))) as ShareLink[];
+};
+
+// Expired links are dropped along with every change
+const updateShares = <T>(updater: (links: ShareLink[]) => { links: ShareLink[]; result: T }) => {
+    const next = queue.then(async () => {
+        const now = Date.now();
+        const current = await readShares();
+        const { links, result } = updater(current.filter((link) => !isExpired(link, now)));
+        await getStorages().data.put(SHARES_KEY, Readable.from([JSON.stringify(links, null, 2)]));
+        return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+};
+
+export const createShareLink = async (
+    namespace: string,
+    fileName: string,
+    { expiresIn, maxDownloads = null }: { expiresIn: number; maxDownloads?: number | null }
+) => {
+    const link = await updateShares((links) => {
+        const now = Date.now();
+        const created: ShareLink = {
+            id: randomUUID(),
+            namespace,
+            fileName,
+            expiresAt: new Date(now + expiresIn * 1000).toISOString(),
+            createdAt: new Date(now).toISOString(),
+            maxDownloads,
+            downloads: 0,
+        };
+        return { links: [...links, created], result: created };
+    });
+    return toSummary(link);
+};
+
+// The links of the namespace that did not expire yet, oldest first, only those of `fileName` when given
+export const listShareLinks = async (namespace: string, fileName?: string) => {
+    await queue;
+    const now = Date.now();
+    const links = await readShares();
+    return Promise.all(
+        links
+            .filter((link) => link.namespace === namespace && (fileName === undefined || link.fileName === fileName))
+            .filter((link) => !isExpired(link, now))
+            .map(toSummary)
+    );
+};
+
+// Resolves to `false` when the namespace has no link with the id
+export const revokeShareLink = (namespace: string, id: string) =>
+    updateShares((links) => {
+        const remaining = links.filter((link) => link.id !== id || link.namespace !== namespace);
+        return { links: remaining, result: remaining.length < links.length };
+    });
+
+/**
+ * Resolves with the link of a token, once it is verified, and counts the download when `count` is set.
+ * Fails with `SHARE_NOT_FOUND` for tokens that are not valid or revoked,
+ * and with `SHARE_EXPIRED` once the link expired or was downloaded as often as it allows.
+ */
+export const claimShareLink = async (token: string, { count = true } = {}) => {
+    const payload = await verifyShareToken(token);
+    if (!payload) {
+        throw createShareError('Share link not found', SHARE_NOT_FOUND);
+    }
+    if (Date.parse(payload.expiresAt) <= Date.now()) {
+        throw createShareError('The share link expired', SHARE_EXPIRED);
+    }
+
+    const findClaimable = (links: ShareLink[]) => {
+        const link = links.find((issued) => issued.id === payload.id && issued.namespace === payload.namespace);
+        if (!link) {
+            throw createShareError('Share link not found', SHARE_NOT_FOUND);
+        }
+        if (link.maxDownloads !== null && link.downloads >= link.maxDownloads) {
+            throw createShareError('The share link was downloaded as often as it allows', SHARE_EXPIRED);
+        }
+        return link;
+    };
+
+    // Nothing changes without counting, so nothing is written
+    if (!count) {
+        await queue;
+        return findClaimable(await readShares());
+    }
+    return updateShares((links) => {
+        const link = findClaimable(links);
+        const claimed = { ...link, downloads: link.downloads + 1 };
+        return { links: links.map((issued) => (issued === link ? claimed : issued)), result: claimed };
+    });
+};
@@ -0,0 +1,59 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { getStorages } from './storage';
+
+const SECRET_KEY = 'share-secret';
+
+let generatedSecret: Promise<string> | undefined;
+
+/**
+ * `SHARE_LINK_SECRET`, or a secret generated once and kept in the data storage. It signs share links and signed URLs,
+ * tokens signed with another secret are no longer valid, so changing it revokes all of them.
+ */
+const getSecret = (env = process.env) => {
+    if (env.SHARE_LINK_SECRET) {
+        return Promise.resolve(env.SHARE_LINK_SECRET);
+    }
+    generatedSecret ??= (async () => {
+        const { data } = getStorages();
+        if (await data.stat(SECRET_KEY)) {
+            return text(await data.get(SECRET_KEY));
+        }
+        const secret = randomBytes(32).toString('base64url');
+        await data.put(SECRET_KEY, Readable.from([secret]));
+        return secret;
+    })();
+    // Tried again on the next token when the storage failed
+    generatedSecret.catch(() => {
+        generatedSecret = undefined;
+    });
+    return generatedSecret;
+};
+
+const sign = (secret: string, value: string) => createHmac('sha256', secret).update(value).digest('base64url');
+
+// `<payload>.<signature>`, both base64url encoded. Signing the same payload again gives the same token.
+export const createSignedToken = async (payload: object) => {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${sign(await getSecret(), encoded)}`;
+};
+
+// Resolves with the payload, or `null` when the token was not signed with the secret
+export const verifySignedToken = async (token: string): Promise<unknown> => {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+        return null;
+    }
+    const expected = Buffer.from(sign(await getSecret(), payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+    }
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString()) as unknown;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,39 @@
+import { type Readable } from 'node:stream';
+
+// Keys are relative paths separated by `/`, e.g. `photos/beach.jpg`, whatever the driver stores them in
+export type StorageEntry = { key: string; size: number; modifiedAt: Date };
+
+// Inclusive byte offsets, like the ranges of HTTP requests
+export type StorageRange = { start: number; end: number };
+
+/**
+ * Where files, chunks and the server's own data are kept. Like on a disk, keys form a tree: a key cannot be
+ * the parent of other keys, which is reported as an `EEXIST` error. Keys with a segment starting with `.` are hidden.
+ */
+export type StorageAdapter = {
+    // Stores the data once it was fully read, so readers never see a half-written entry
+    put: (key: string, source: Readable, options?: { exclusive?: boolean }) => Promise<void>;
+    // Rejects with an `ENOENT` error when there is no entry
+    get: (key: string, range?: StorageRange) => Promise<Readable>;
+    // Resolves to `null` when there is no entry
+    stat: (key: string) => Promise<StorageEntry | null>;
+    // Every entry below `prefix`, at any depth, leaving out hidden ones
+    list: (prefix?: string) => Promise<StorageEntry[]>;
+    // Resolves to `false` when there was no entry
+    delete: (key: string) => Promise<boolean>;
+    // Rejects with an `ENOENT` error when `from` is missing, with an `EEXIST` error when `to` exists and is kept
+    move: (from: string, to: string, options?: { overwrite?: boolean }) => Promise<void>;
+};
+
+// The same codes as `node:fs`, so callers handle every driver alike
+export const createStorageError = (code: 'ENOENT' | 'EEXIST', message: string) =>
+    Object.assign(new Error(message), { code });
+
+// Keys are built by the server from sanitized names, anything leading out of the storage is a bug
+export const assertStorageKey = (key: string) => {
+    if (key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')) {
+        throw new Error(`Invalid storage key: ${key}`);
+    }
+};
+
+export const isHiddenKey = (key: string) => key.split('/').some((segment) => segment.startsWith('.'));
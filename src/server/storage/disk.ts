@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream, type Stats } from 'node:fs';
+import { link, mkdir, readdir, rename, rm, rmdir, stat, unlink } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+
+import { assertStorageKey, createStorageError, type StorageAdapter, type StorageEntry } from './adapter';
+
+const getErrorCode = (error: unknown) => (error as NodeJS.ErrnoException | null)?.code;
+
+// Stores every key as a file below `rootDir`, keys with several segments in nested directories
+export const createDiskStorage = (rootDir: string): StorageAdapter => {
+    const getPath = (key: string) => {
+        assertStorageKey(key);
+        return join(rootDir, ...key.split('/'));
+    };
+
+    // A file in place of one of the directories is reported as a name conflict
+    const createParentDirectories = async (key: string) => {
+        try {
+            await mkdir(dirname(getPath(key)), { recursive: true });
+        } catch (error) {
+            if (getErrorCode(error) === 'ENOTDIR' || getErrorCode(error) === 'EEXIST') {
+                throw createStorageError('EEXIST', `A file is in the way of the directories of ${key}`);
+            }
+            throw error;
+        }
+    };
+
+    // Removes the directories a deleted or moved file left empty, up to the root folder itself
+    const removeEmptyParentDirectories = async (key: string) => {
+        for (let directory = dirname(key); directory !== '.'; directory = dirname(directory)) {
+            try {
+                await rmdir(getPath(directory));
+            } catch {
+                // Not empty (anymore), so none of its parents is either
+                return;
+            }
+        }
+    };
+
+    // Resolves to `null` for missing files and directories
+    const statFile = async (key: string): Promise<Stats | null> => {
+        try {
+            const stats = await stat(getPath(key));
+            return stats.isFile() ? stats : null;
+        } catch (error) {
+            if (getErrorCode(error) === 'ENOENT' || getErrorCode(error) === 'ENOTDIR') {
+                return null;
+            }
+            throw error;
+        }
+    };
+
+    const toEntry = (key: string, stats: Stats): StorageEntry => ({ key, size: stats.size, modifiedAt: stats.mtime });
+
+    const moveFile = async (fromPath: string, to: string, overwrite: boolean) => {
+        try {
+            if (overwrite) {
+                await rename(fromPath, getPath(to));
+            } else {
+                // Linking fails when the target exists, unlike `rename` which would silently replace it
+                await link(fromPath, getPath(to));
+                await unlink(fromPath);
+            }
+        } catch (error) {
+            // A directory in place of the target
+            if (getErrorCode(error) === 'EISDIR' || getErrorCode(error) === 'EEXIST') {
+                throw createStorageError('EEXIST', `${to} already exists`);
+            }
+            throw error;
+        }
+    };
+
+    const listDirectory = async (directory: string): Promise<StorageEntry[]> => {
+        let names: string[];
+        try {
+            names = await readdir(directory ? getPath(directory) : rootDir);
+        } catch {
+            return [];
+        }
+
+        const entries: StorageEntry[] = [];
+        for (const name of names) {
+            if (name.startsWith('.')) {
+                continue;
+            }
+
+            const key = directory ? `${directory}/${name}` : name;
+            try {
+                const stats = await stat(getPath(key));
+                if (stats.isDirectory()) {
+                    entries.push(...(await listDirectory(key)));
+                } else if (stats.isFile()) {
+                    entries.push(toEntry(key, stats));
+                }
+            } catch (error) {
+                // Removed in the meantime
+                if (getErrorCode(error) !== 'ENOENT') {
+                    throw error;
+                }
+            }
+        }
+        return entries;
+    };
+
+    return {
+        put: async (key, source, { exclusive = false } = {}) => {
+            await createParentDirectories(key);
+            // Written next to the target under a random hidden name first, so concurrent writes never mix
+            const tempPath = join(dirname(getPath(key)), `.${randomUUID()}.tmp`);
+            try {
+                await pipeline(source, createWriteStream(tempPath));
+                await moveFile(tempPath, key, !exclusive);
+            } finally {
+                await rm(tempPath, { force: true });
+            }
+        },
+
+        get: async (key, range) => {
+            if (!(await statFile(key))) {
+                throw createStorageError('ENOENT', `${key} does not exist`);
+            }
+            return createReadStream(getPath(key), range);
+        },
+
+        stat: async (key) => {
+            const stats = await statFile(key);
+            return stats ? toEntry(key, stats) : null;
+        },
+
+        list: (prefix = '') => {
+            if (prefix) {
+                assertStorageKey(prefix);
+            }
+            return listDirectory(prefix);
+        },
+
+        delete: async (key) => {
+            if (!(await statFile(key))) {
+                return false;
+            }
+            try {
+                await unlink(getPath(key));
+            } catch (error) {
+                if (getErrorCode(error) === 'ENOENT') {
+                    return false;
+                }
+                throw error;
+            }
+            await removeEmptyParentDirectories(key);
+            return true;
+        },
+
+        move: async (from, to, { overwrite = false } = {}) => {
+            if (!(await statFile(from))) {
+                throw createStorageError('ENOENT', `${from} does not exist`);
+            }
+            await createParentDirectories(to);
+            await moveFile(getPath(from), to, overwrite);
+            await removeEmptyParentDirectories(from);
+        },
+    };
+};
@@ -0,0 +1,50 @@
+import { BLOB_DIR, CHUNK_DIR, DATA_DIR, STORAGE_DRIVER, UPLOAD_DIR } from '../config';
+
+import { type StorageAdapter } from './adapter';
+import { createDiskStorage } from './disk';
+import { createMemoryStorage } from './memory';
+
+export * from './adapter';
+export { createDiskStorage } from './disk';
+export { createMemoryStorage } from './memory';
+
+export type Storages = {
+    // The content of the stored files, keyed by its SHA-256 digest, so identical files are only stored once
+    blobs: StorageAdapter;
+    // Files put there by other means, moved to the blobs when the server starts, keyed by their path
+    files: StorageAdapter;
+    // Sessions and chunks of uploads in progress, keyed by upload id
+    chunks: StorageAdapter;
+    // The server's own data, such as the file metadata
+    data: StorageAdapter;
+};
+
+export const createMemoryStorages = (): Storages => ({
+    blobs: createMemoryStorage(),
+    files: createMemoryStorage(),
+    chunks: createMemoryStorage(),
+    data: createMemoryStorage(),
+});
+
+const createStorages = (): Storages =>
+    STORAGE_DRIVER === 'memory'
+        ? createMemoryStorages()
+        : {
+              blobs: createDiskStorage(BLOB_DIR),
+              files: createDiskStorage(UPLOAD_DIR),
+              chunks: createDiskStorage(CHUNK_DIR),
+              data: createDiskStorage(DATA_DIR),
+          };
+
+let storages: Storages | undefined;
+
+// Created on first use, so the storages can still be replaced before
+export const getStorages = () => {
+    storages ??= createStorages();
+    return storages;
+};
+
+// Replaces the storages of the whole server, e.g. with `createMemoryStorages()` in tests
+export const setStorages = (next: Storages) => {
+    storages = next;
+};
@@ -0,0 +1,90 @@
+import { Readable } from 'node:stream';
+
+import { assertStorageKey, createStorageError, isHiddenKey, type StorageAdapter, type StorageEntry } from './adapter';
+
+type MemoryEntry = { data: Buffer; modifiedAt: Date };
+
+// Runs `operation` as a promise, so errors it throws reject like the ones of other drivers
+const settle = <T>(operation: () => T) => new Promise<T>((resolve) => resolve(operation()));
+
+// Keeps everything in the process, for tests and for servers that need no persistence
+export const createMemoryStorage = (): StorageAdapter => {
+    const entries = new Map<string, MemoryEntry>();
+
+    const getEntry = (key: string) => {
+        assertStorageKey(key);
+        const entry = entries.get(key);
+        if (!entry) {
+            throw createStorageError('ENOENT', `${key} does not exist`);
+        }
+        return entry;
+    };
+
+    const toEntry = (key: string, { data, modifiedAt }: MemoryEntry): StorageEntry => ({
+        key,
+        size: data.length,
+        modifiedAt,
+    });
+
+    // Keys form a tree like on disk: an entry cannot take the place of a directory, nor be inside of a file
+    const assertWritable = (key: string, exclusive: boolean) => {
+        assertStorageKey(key);
+        const segments = key.split('/');
+        const isInTheWay =
+            segments.some((_, index) => index > 0 && entries.has(segments.slice(0, index).join('/'))) ||
+            [...entries.keys()].some((existing) => existing.startsWith(`${key}/`));
+        if (isInTheWay || (exclusive && entries.has(key))) {
+            throw createStorageError('EEXIST', `${key} already exists`);
+        }
+    };
+
+    return {
+        put: async (key, source, { exclusive = false } = {}) => {
+            const chunks: Buffer[] = [];
+            for await (const chunk of source) {
+                chunks.push(Buffer.from(chunk as Buffer));
+            }
+
+            assertWritable(key, exclusive);
+            entries.set(key, { data: Buffer.concat(chunks), modifiedAt: new Date() });
+        },
+
+        get: (key, range) =>
+            settle(() => {
+                const { data } = getEntry(key);
+                return Readable.from([range ? data.subarray(range.start, range.end + 1) : data]);
+            }),
+
+        stat: (key) =>
+            settle(() => {
+                assertStorageKey(key);
+                const entry = entries.get(key);
+                return entry ? toEntry(key, entry) : null;
+            }),
+
+        list: (prefix = '') =>
+            settle(() =>
+                [...entries]
+                    .filter(([key]) => (prefix ? key.startsWith(`${prefix}/`) : true) && !isHiddenKey(key))
+                    .map(([key, entry]) => toEntry(key, entry))
+                    .sort((a, b) => a.key.localeCompare(b.key))
+            ),
+
+        delete: (key) =>
+            settle(() => {
+                assertStorageKey(key);
+                return entries.delete(key);
+            }),
+
+        move: (from, to, { overwrite = false } = {}) =>
+            settle(() => {
+                const entry = getEntry(from);
+                if (from === to) {
+                    return;
+                }
+                assertWritable(to, !overwrite);
+                entries.delete(from);
+                entries.set(to, entry);
+            }),
+    };
+};
@@ -1,33 +1,59 @@
-import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync } from 'node:fs';
-import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
 
-import { beforeAll, describe, expect, it } from 'vitest';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { issueToken, revokeToken } from '../auth';
+import { registerProcessor, waitForProcessing } from '../processing';
 import { app } from '../server';
+import { removeExpiredUploads } from '../sessions';
+import { createMemoryStorages, setStorages, type StorageAdapter } from '../storage';
 
 const TESTING_PORT = 3001;
-const TESTING_UPLOADS_DIR = 'src/server/test/uploads';
-const TESTING_UPLOADS_CHUNKS_DIR = 'src/server/test/uploads-chunks';
+
+// Everything the server stores is kept in memory, so the tests never write into the repository
+const storages = createMemoryStorages();
+
+// Like listing a folder: the top-level keys and directories of a storage
+const listNames = async (storage: StorageAdapter) => {
+    const entries = await storage.list();
+    return [...new Set(entries.map(({ key }) => key.split('/')[0]))];
+};
+
+const readMetadata = async () =>
+    JSON.parse(await text(await storages.data.get('metadata.json'))) as Record<string, { sha256: string }>;
+
+// The stored files and the top directories of nested ones
+const listFileNames = async () => [...new Set(Object.keys(await readMetadata()).map((name) => name.split('/')[0]))];
+
+// Files are stored by their content, which their metadata points to
+const readUpload = async (fileName: string) => {
+    const metadata = await readMetadata();
+    const { sha256 } = metadata[fileName];
+    return text(await storages.blobs.get(`${sha256.slice(0, 2)}/${sha256}`));
+};
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+const createSession = async (fileName: string, totalChunks: number) => {
+    const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName, totalChunks }),
+    });
+    const { uploadId } = (await promise.json()) as { uploadId: string };
+    return uploadId;
+};
 
 describe('E2E', () => {
     beforeAll(() => {
-        if (existsSync(TESTING_UPLOADS_DIR)) {
-            const uploadedFiles = readdirSync(TESTING_UPLOADS_DIR);
-            for (const file of uploadedFiles) {
-                rmSync(join(TESTING_UPLOADS_DIR, file));
-            }
-        } else {
-            mkdirSync(TESTING_UPLOADS_DIR);
-        }
-
-        if (existsSync(TESTING_UPLOADS_CHUNKS_DIR)) {
-            const uploadedChunksFiles = readdirSync(TESTING_UPLOADS_CHUNKS_DIR);
-            for (const file of uploadedChunksFiles) {
-                rmSync(join(TESTING_UPLOADS_CHUNKS_DIR, file));
-            }
-        } else {
-            mkdirSync(TESTING_UPLOADS_CHUNKS_DIR);
-        }
+        setStorages(storages);
+        // Everybody shares one namespace, the tests of authentication turn it on
+        process.env.AUTH_REQUIRED = 'false';
+        // Processors update files in the background, the tests of processing turn them on
+        process.env.UPLOAD_PROCESSORS = '';
         app.listen(TESTING_PORT);
     });
 
@@ -52,12 +78,10 @@ describe('E2E', () => {
         expect(promise).toHaveProperty('status', 200);
         expect(data).toHaveProperty('message', 'File uploaded successfully');
 
-        const files = readdirSync(TESTING_UPLOADS_DIR);
+        const files = await listFileNames();
         expect(files).toContain(filename);
 
-        const content = new TextDecoder().decode(
-            new Uint8Array(new Uint8Array(readFileSync(`${TESTING_UPLOADS_DIR}/${filename}`)))
-        );
+        const content = await readUpload(filename);
         expect(content).toBe('Hello from Frontify!');
     });
 
@@ -67,7 +91,7 @@ describe('E2E', () => {
         formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), filename);
         formData.append('currentChunkIndex', '0');
         formData.append('totalChunks', '1');
-        formData.append('originalName', filename);
+        formData.append('uploadId', await createSession(filename, 1));
         const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
             method: 'POST',
             body: formData,
@@ -77,12 +101,10 @@ describe('E2E', () => {
         expect(promise).toHaveProperty('status', 200);
         expect(data).toHaveProperty('message', 'Chunked file uploaded successfully');
 
-        const files = readdirSync(TESTING_UPLOADS_DIR);
+        const files = await listFileNames();
         expect(files).toContain(filename);
 
-        const content = new TextDecoder().decode(
-            new Uint8Array(new Uint8Array(readFileSync(`${TESTING_UPLOADS_DIR}/${filename}`)))
-        );
+        const content = await readUpload(filename);
         expect(content).toBe('Hello from Frontify!');
     });
 
@@ -93,11 +115,13 @@ describe('E2E', () => {
 
         const chunk1 = file.slice(0, content.length / 2);
         const chunk2 = file.slice(content.length / 2);
+        const uploadId = await createSession(filename, 2);
 
         const formData1 = new FormData();
         formData1.append('file', chunk1, filename);
         formData1.append('currentChunkIndex', '0');
         formData1.append('totalChunks', '2');
+        formData1.append('uploadId', uploadId);
         const promise1 = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
             method: 'POST',
             body: formData1,
@@ -112,6 +136,7 @@ describe('E2E', () => {
         formData2.append('file', chunk2, filename);
         formData2.append('currentChunkIndex', '1');
         formData2.append('totalChunks', '2');
+        formData2.append('uploadId', uploadId);
         const promise2 = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
             method: 'POST',
             body: formData2,
@@ -122,12 +147,1931 @@ describe('E2E', () => {
         expect(promise2).toHaveProperty('status', 200);
         expect(data2).toHaveProperty('message', 'Chunked file uploaded successfully');
 
-        const files = readdirSync(TESTING_UPLOADS_DIR);
+        const files = await listFileNames();
         expect(files).toContain(filename);
 
-        const fileContent = new TextDecoder().decode(
-            new Uint8Array(new Uint8Array(readFileSync(`${TESTING_UPLOADS_DIR}/${filename}`)))
+        const fileContent = await readUpload(filename);
+        expect(fileContent).toBe('Hello from Frontify!');
+    });
+
+    it('should reject chunks without upload session', async () => {
+        const formData = new FormData();
+        formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), 'hello-no-session.txt');
+        formData.append('currentChunkIndex', '0');
+        formData.append('totalChunks', '1');
+        const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+            method: 'POST',
+            body: formData,
+        });
+        expect(promise).toHaveProperty('status', 400);
+        expect(await listNames(storages.chunks)).not.toContain('hello-no-session.txt.part_0');
+    });
+
+    it('should resume a chunked upload through an upload session', async () => {
+        const filename = 'hello-upload-session.txt';
+        const content = 'Hello from Frontify!';
+        const file = new Blob([content], { type: 'text/plain' });
+
+        const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ fileName: filename, totalChunks: 2, size: file.size }),
+        });
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const session = await sessionPromise.json();
+        expect(sessionPromise).toHaveProperty('status', 201);
+        expect(session).toHaveProperty('receivedChunks', []);
+
+        const formData1 = new FormData();
+        formData1.append('file', file.slice(0, content.length / 2), filename);
+        formData1.append('currentChunkIndex', '0');
+        formData1.append('totalChunks', '2');
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        formData1.append('uploadId', session.uploadId as string);
+        const promise1 = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+            method: 'POST',
+            body: formData1,
+        });
+        expect(promise1).toHaveProperty('status', 200);
+
+        const statePromise = await fetch(
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            `http://localhost:${TESTING_PORT}/api/upload-sessions/${session.uploadId as string}`
+        );
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const state = await statePromise.json();
+        expect(statePromise).toHaveProperty('status', 200);
+        expect(state).toHaveProperty('receivedChunks', [0]);
+
+        const formData2 = new FormData();
+        formData2.append('file', file.slice(content.length / 2), filename);
+        formData2.append('currentChunkIndex', '1');
+        formData2.append('totalChunks', '2');
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        formData2.append('uploadId', session.uploadId as string);
+        const promise2 = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+            method: 'POST',
+            body: formData2,
+        });
+        expect(promise2).toHaveProperty('status', 200);
+
+        const fileContent = await readUpload(filename);
+        expect(fileContent).toBe('Hello from Frontify!');
+
+        const mergedPromise = await fetch(
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            `http://localhost:${TESTING_PORT}/api/upload-sessions/${session.uploadId as string}`
         );
+        expect(mergedPromise).toHaveProperty('status', 404);
+    });
+
+    it('should reject chunks of an unknown upload session', async () => {
+        const formData = new FormData();
+        formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), 'unknown.txt');
+        formData.append('currentChunkIndex', '0');
+        formData.append('totalChunks', '1');
+        formData.append('uploadId', '00000000-0000-0000-0000-000000000000');
+        const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+            method: 'POST',
+            body: formData,
+        });
+        expect(promise).toHaveProperty('status', 404);
+    });
+
+    it('should merge chunks that arrive out of order', async () => {
+        const filename = 'hello-out-of-order.txt';
+        const content = 'Hello from Frontify!';
+        const file = new Blob([content], { type: 'text/plain' });
+        const chunks = [file.slice(0, 5), file.slice(5, 10), file.slice(10)];
+
+        const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ fileName: filename, totalChunks: chunks.length }),
+        });
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const session = await sessionPromise.json();
+
+        const uploadChunk = (index: number) => {
+            const formData = new FormData();
+            formData.append('file', chunks[index], filename);
+            formData.append('currentChunkIndex', index.toString());
+            formData.append('totalChunks', chunks.length.toString());
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            formData.append('uploadId', session.uploadId as string);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, { method: 'POST', body: formData });
+        };
+
+        const lastPromise = await uploadChunk(2);
+        expect(lastPromise).toHaveProperty('status', 200);
+        expect(await lastPromise.json()).toHaveProperty('complete', false);
+        expect(await listFileNames()).not.toContain(filename);
+
+        const promises = await Promise.all([uploadChunk(1), uploadChunk(0)]);
+        for (const promise of promises) {
+            expect(promise).toHaveProperty('status', 200);
+        }
+
+        const fileContent = await readUpload(filename);
         expect(fileContent).toBe('Hello from Frontify!');
     });
+
+    it('should merge chunks covering several chunk indexes', async () => {
+        const filename = 'hello-chunk-count.txt';
+        const content = 'Hello from Frontify!';
+        const file = new Blob([content], { type: 'text/plain' });
+
+        const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ fileName: filename, totalChunks: 4 }),
+        });
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const session = await sessionPromise.json();
+
+        // Chunk indexes are 5 bytes each
+        const uploadChunk = (index: number, chunkCount: number) => {
+            const formData = new FormData();
+            formData.append('file', file.slice(index * 5, (index + chunkCount) * 5), filename);
+            formData.append('currentChunkIndex', index.toString());
+            formData.append('chunkCount', chunkCount.toString());
+            formData.append('totalChunks', '4');
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            formData.append('uploadId', session.uploadId as string);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, { method: 'POST', body: formData });
+        };
+
+        expect(await uploadChunk(0, 1)).toHaveProperty('status', 200);
+        const overlapPromise = await uploadChunk(0, 2);
+        expect(overlapPromise).toHaveProperty('status', 409);
+        expect(await overlapPromise.json()).toHaveProperty('code', 'CHUNK_OVERLAP');
+        expect(await uploadChunk(3, 2)).toHaveProperty('status', 400);
+
+        const sessionStatePromise = await fetch(
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            `http://localhost:${TESTING_PORT}/api/upload-sessions/${session.uploadId as string}`
+        );
+        expect(await sessionStatePromise.json()).toHaveProperty('receivedChunks', [0]);
+
+        const lastPromise = await uploadChunk(1, 3);
+        expect(lastPromise).toHaveProperty('status', 200);
+        expect(await lastPromise.json()).toHaveProperty('complete', true);
+
+        const fileContent = await readUpload(filename);
+        expect(fileContent).toBe(content);
+    });
+
+    it('should verify the checksum of a single file', async () => {
+        const filename = 'hello-checksum.txt';
+        const formData = new FormData();
+        formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), filename);
+        formData.append('checksum', sha256('Hello from Frontify!'));
+        const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+            method: 'POST',
+            body: formData,
+        });
+        expect(promise).toHaveProperty('status', 200);
+        expect(await promise.json()).toHaveProperty('sha256', sha256('Hello from Frontify!'));
+
+        const filesPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files`);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const data = await filesPromise.json();
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        expect(data.files).toContainEqual(
+            expect.objectContaining({ name: filename, size: 20, sha256: sha256('Hello from Frontify!') })
+        );
+    });
+
+    it('should reject a single file with a wrong checksum', async () => {
+        const filename = 'hello-wrong-checksum.txt';
+        const formData = new FormData();
+        formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), filename);
+        formData.append('checksum', sha256('Hello from somewhere else!'));
+        const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+            method: 'POST',
+            body: formData,
+        });
+        expect(promise).toHaveProperty('status', 422);
+        expect(await promise.json()).toHaveProperty('code', 'CHECKSUM_MISMATCH');
+        expect(await listFileNames()).not.toContain(filename);
+    });
+
+    it('should reject a chunk with a wrong checksum and accept it again', async () => {
+        const filename = 'hello-chunk-checksum.txt';
+        const content = 'Hello from Frontify!';
+
+        const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                fileName: filename,
+                totalChunks: 1,
+                size: content.length,
+                checksum: sha256(content),
+            }),
+        });
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const session = await sessionPromise.json();
+
+        const uploadChunk = (checksum: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            formData.append('currentChunkIndex', '0');
+            formData.append('totalChunks', '1');
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            formData.append('uploadId', session.uploadId as string);
+            formData.append('checksum', checksum);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, { method: 'POST', body: formData });
+        };
+
+        const corruptedPromise = await uploadChunk(sha256('corrupted'));
+        expect(corruptedPromise).toHaveProperty('status', 422);
+        expect(await corruptedPromise.json()).toHaveProperty('code', 'CHECKSUM_MISMATCH');
+        expect(await listFileNames()).not.toContain(filename);
+
+        const promise = await uploadChunk(sha256(content));
+        expect(promise).toHaveProperty('status', 200);
+        expect(await readUpload(filename)).toBe(content);
+    });
+
+    it('should reject a merged file with a wrong checksum', async () => {
+        const filename = 'hello-file-checksum.txt';
+        const content = 'Hello from Frontify!';
+
+        const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ fileName: filename, totalChunks: 1, checksum: sha256('Hello from elsewhere!') }),
+        });
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const session = await sessionPromise.json();
+
+        const formData = new FormData();
+        formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+        formData.append('currentChunkIndex', '0');
+        formData.append('totalChunks', '1');
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        formData.append('uploadId', session.uploadId as string);
+        const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+            method: 'POST',
+            body: formData,
+        });
+        expect(promise).toHaveProperty('status', 422);
+        expect(await promise.json()).toHaveProperty('code', 'FILE_CHECKSUM_MISMATCH');
+        expect(await listFileNames()).not.toContain(filename);
+    });
+
+    describe('download', () => {
+        const filename = 'hello-download.txt';
+        const content = 'Hello from Frontify!';
+        const url = `http://localhost:${TESTING_PORT}/api/files/${filename}`;
+
+        beforeAll(async () => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        });
+
+        it('should stream a stored file', async () => {
+            const promise = await fetch(url);
+            expect(promise).toHaveProperty('status', 200);
+            expect(promise.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+            expect(promise.headers.get('content-length')).toBe(String(content.length));
+            expect(promise.headers.get('accept-ranges')).toBe('bytes');
+            expect(promise.headers.get('etag')).toBe(`"${sha256(content)}"`);
+            expect(promise.headers.get('content-disposition')).toBe(
+                `inline; filename="${filename}"; filename*=UTF-8''${filename}`
+            );
+            expect(promise.headers.get('x-content-type-options')).toBe('nosniff');
+            expect(promise.headers.get('content-security-policy')).toBe('sandbox');
+            expect(await promise.text()).toBe(content);
+        });
+
+        it('should send types that may run scripts as attachment', async () => {
+            const name = 'hello-download.html';
+            const formData = new FormData();
+            formData.append('file', new Blob(['<script>alert(1)</script>'], { type: 'text/html' }), name);
+            await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files/${name}`);
+            expect(promise).toHaveProperty('status', 200);
+            expect(promise.headers.get('content-disposition')).toMatch(/^attachment;/);
+            expect(promise.headers.get('x-content-type-options')).toBe('nosniff');
+            expect(promise.headers.get('content-security-policy')).toBe('sandbox');
+        });
+
+        it('should close the file when the client drops the download', async () => {
+            // A file that never ends, after its first byte
+            const file = new Readable({ read: () => undefined });
+            file.push('H');
+            const get = vi.spyOn(storages.blobs, 'get').mockResolvedValue(file);
+            try {
+                const controller = new AbortController();
+                const promise = await fetch(url, { signal: controller.signal });
+                expect(promise).toHaveProperty('status', 200);
+                controller.abort();
+                await vi.waitFor(() => expect(file.destroyed).toBe(true));
+            } finally {
+                get.mockRestore();
+            }
+        });
+
+        it('should send the file as attachment when downloading', async () => {
+            const promise = await fetch(`${url}?download`);
+            expect(promise.headers.get('content-disposition')).toMatch(/^attachment;/);
+        });
+
+        it('should respond with a single range', async () => {
+            const promise = await fetch(url, { headers: { Range: 'bytes=6-9' } });
+            expect(promise).toHaveProperty('status', 206);
+            expect(promise.headers.get('content-range')).toBe(`bytes 6-9/${content.length}`);
+            expect(await promise.text()).toBe('from');
+        });
+
+        it('should respond with a suffix range', async () => {
+            const promise = await fetch(url, { headers: { Range: 'bytes=-9' } });
+            expect(promise).toHaveProperty('status', 206);
+            expect(await promise.text()).toBe('Frontify!');
+        });
+
+        it('should respond with multiple ranges', async () => {
+            const promise = await fetch(url, { headers: { Range: 'bytes=0-4,11-18' } });
+            expect(promise).toHaveProperty('status', 206);
+            const contentType = promise.headers.get('content-type') ?? '';
+            expect(contentType).toMatch(/^multipart\/byteranges; boundary=/);
+
+            const boundary = contentType.split('boundary=')[1];
+            const body = await promise.text();
+            expect(body.length).toBe(Number(promise.headers.get('content-length')));
+            expect(body).toBe(
+                `--${boundary}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Range: bytes 0-4/20\r\n\r\nHello` +
+                    `\r\n--${boundary}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Range: bytes 11-18/20\r\n\r\nFrontify` +
+                    `\r\n--${boundary}--\r\n`
+            );
+        });
+
+        it('should reject unsatisfiable ranges', async () => {
+            const promise = await fetch(url, { headers: { Range: 'bytes=100-200' } });
+            expect(promise).toHaveProperty('status', 416);
+            expect(promise.headers.get('content-range')).toBe(`bytes */${content.length}`);
+        });
+
+        it('should respond with not modified when the ETag matches', async () => {
+            const promise = await fetch(url, { headers: { 'If-None-Match': `"${sha256(content)}"` } });
+            expect(promise).toHaveProperty('status', 304);
+        });
+
+        it('should ignore the range when If-Range does not match', async () => {
+            const promise = await fetch(url, { headers: { Range: 'bytes=0-4', 'If-Range': '"outdated"' } });
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.text()).toBe(content);
+
+            const matchingPromise = await fetch(url, {
+                headers: { Range: 'bytes=0-4', 'If-Range': `"${sha256(content)}"` },
+            });
+            expect(matchingPromise).toHaveProperty('status', 206);
+            expect(await matchingPromise.text()).toBe('Hello');
+        });
+
+        it('should respond with not found for unknown files', async () => {
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files/unknown.txt`);
+            expect(promise).toHaveProperty('status', 404);
+
+            const traversalPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files/..%2Fe2e.spec.ts`);
+            expect(traversalPromise).toHaveProperty('status', 404);
+        });
+    });
+
+    describe('file management', () => {
+        const upload = async (filename: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), filename);
+            await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        it('should delete a file', async () => {
+            await upload('hello-delete.txt');
+
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files/hello-delete.txt`, {
+                method: 'DELETE',
+            });
+            expect(promise).toHaveProperty('status', 204);
+            expect(await listFileNames()).not.toContain('hello-delete.txt');
+
+            const missingPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files/hello-delete.txt`, {
+                method: 'DELETE',
+            });
+            expect(missingPromise).toHaveProperty('status', 404);
+            expect(await missingPromise.json()).toHaveProperty('code', 'FILE_NOT_FOUND');
+        });
+
+        it('should rename a file', async () => {
+            await upload('hello-rename.txt');
+            await upload('hello-rename-taken.txt');
+
+            const rename = (from: string, to: string) =>
+                fetch(`http://localhost:${TESTING_PORT}/api/files/${from}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name: to }),
+                });
+
+            const conflictPromise = await rename('hello-rename.txt', 'hello-rename-taken.txt');
+            expect(conflictPromise).toHaveProperty('status', 409);
+            expect(await conflictPromise.json()).toHaveProperty('code', 'FILE_EXISTS');
+
+            const invalidPromise = await rename('hello-rename.txt', '../hello-rename.txt');
+            expect(invalidPromise).toHaveProperty('status', 400);
+
+            const promise = await rename('hello-rename.txt', 'hello-renamed.txt');
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toHaveProperty('name', 'hello-renamed.txt');
+
+            const files = await listFileNames();
+            expect(files).toContain('hello-renamed.txt');
+            expect(files).not.toContain('hello-rename.txt');
+
+            const missingPromise = await rename('hello-rename.txt', 'hello-renamed-again.txt');
+            expect(missingPromise).toHaveProperty('status', 404);
+        });
+
+        it('should copy a file', async () => {
+            await upload('hello-copy.txt');
+
+            const copy = () =>
+                fetch(`http://localhost:${TESTING_PORT}/api/files/hello-copy.txt/copy`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name: 'hello-copied.txt' }),
+                });
+
+            const promise = await copy();
+            expect(promise).toHaveProperty('status', 201);
+            expect(await readUpload('hello-copied.txt')).toBe('Hello from Frontify!');
+            expect(await listFileNames()).toContain('hello-copy.txt');
+
+            const conflictPromise = await copy();
+            expect(conflictPromise).toHaveProperty('status', 409);
+        });
+
+        it('should list the metadata of uploaded files', async () => {
+            const formData = new FormData();
+            formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), 'hello-metadata.txt');
+            formData.append('tags', 'greeting, test');
+            formData.append('description', 'A friendly file');
+            await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files`);
+            const { files } = (await promise.json()) as { files: Record<string, unknown>[] };
+            expect(files.find((file) => file.name === 'hello-metadata.txt')).toMatchObject({
+                size: 20,
+                mimeType: 'text/plain',
+                originalName: 'hello-metadata.txt',
+                sha256: sha256('Hello from Frontify!'),
+                uploadMethod: 'single',
+                tags: ['greeting', 'test'],
+                description: 'A friendly file',
+            });
+        });
+
+        it('should update the tags and description of a file', async () => {
+            await upload('hello-tags.txt');
+
+            const update = (body: Record<string, unknown>) =>
+                fetch(`http://localhost:${TESTING_PORT}/api/files/hello-tags.txt`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body),
+                });
+
+            const promise = await update({ tags: ['draft'], description: 'Work in progress' });
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toMatchObject({
+                name: 'hello-tags.txt',
+                tags: ['draft'],
+                description: 'Work in progress',
+            });
+
+            const invalidPromise = await update({ tags: 'a'.repeat(51) });
+            expect(invalidPromise).toHaveProperty('status', 400);
+
+            const metadata = JSON.parse(await text(await storages.data.get('metadata.json'))) as Record<
+                string,
+                unknown
+            >;
+            expect(metadata['hello-tags.txt']).toMatchObject({ tags: ['draft'] });
+        });
+
+        it('should paginate, sort and filter the listing', async () => {
+            await upload('hello-listing-1.txt');
+            await upload('hello-listing-2.txt');
+            await upload('hello-listing-3.txt');
+
+            const list = (query: string) => fetch(`http://localhost:${TESTING_PORT}/api/files?${query}`);
+
+            const promise = await list('q=hello-listing&sort=name&order=desc&limit=2&offset=1');
+            expect(promise).toHaveProperty('status', 200);
+            const page = (await promise.json()) as { files: { name: string }[]; total: number };
+            expect(page.files.map((file) => file.name)).toEqual(['hello-listing-2.txt', 'hello-listing-1.txt']);
+            expect(page).toMatchObject({ total: 3, offset: 1, limit: 2 });
+
+            const filteredPromise = await list('q=hello-listing&ext=png');
+            expect(await filteredPromise.json()).toMatchObject({ files: [], total: 0 });
+
+            const invalidPromise = await list('sort=owner');
+            expect(invalidPromise).toHaveProperty('status', 400);
+        });
+    });
+
+    describe('folders', () => {
+        const upload = (relativePath: string) => {
+            const formData = new FormData();
+            formData.append('relativePath', relativePath);
+            formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), 'ignored.txt');
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        it('should keep the directories of a relative path', async () => {
+            const promise = await upload('hello-folder/nested/hello.txt');
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toHaveProperty('fileName', 'hello-folder/nested/hello.txt');
+            expect(await readUpload('hello-folder/nested/hello.txt')).toBe('Hello from Frontify!');
+
+            const traversalPromise = await upload('hello-folder/../../../hello-folder-traversal.txt');
+            expect(await traversalPromise.json()).toHaveProperty('fileName', 'hello-folder/hello-folder-traversal.txt');
+        });
+
+        it('should list one directory or all of its files', async () => {
+            await upload('hello-listed/top.txt');
+            await upload('hello-listed/sub/deep.txt');
+
+            const list = (query: string) => fetch(`http://localhost:${TESTING_PORT}/api/files?${query}`);
+
+            const promise = await list('dir=hello-listed&recursive=false');
+            expect(await promise.json()).toMatchObject({
+                files: [expect.objectContaining({ name: 'hello-listed/top.txt' })],
+                directories: ['sub'],
+            });
+
+            const recursivePromise = await list('dir=hello-listed');
+            const { files } = (await recursivePromise.json()) as { files: { name: string }[] };
+            expect(files.map((file) => file.name)).toEqual(['hello-listed/sub/deep.txt', 'hello-listed/top.txt']);
+        });
+
+        it('should download, move and delete nested files', async () => {
+            await upload('hello-nested/file.txt');
+            const url = `http://localhost:${TESTING_PORT}/api/files/${encodeURIComponent('hello-nested/file.txt')}`;
+
+            const promise = await fetch(`${url}?download`);
+            expect(await promise.text()).toBe('Hello from Frontify!');
+            expect(promise.headers.get('Content-Disposition')).toContain('filename="file.txt"');
+
+            const movePromise = await fetch(url, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: 'hello-moved/file.txt' }),
+            });
+            expect(movePromise).toHaveProperty('status', 200);
+            // The directory left empty is removed along
+            expect(await listFileNames()).not.toContain('hello-nested');
+
+            const movedUrl = `http://localhost:${TESTING_PORT}/api/files/${encodeURIComponent('hello-moved/file.txt')}`;
+            const deletePromise = await fetch(movedUrl, { method: 'DELETE' });
+            expect(deletePromise).toHaveProperty('status', 204);
+            expect(await listFileNames()).not.toContain('hello-moved');
+        });
+    });
+
+    describe('file names', () => {
+        const upload = (filename: string, onConflict?: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([`Hello from ${filename}!`], { type: 'text/plain' }), filename);
+            if (onConflict) {
+                formData.append('onConflict', onConflict);
+            }
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        it('should not write outside of the upload folder', async () => {
+            const promise = await upload('../../hello-traversal.txt');
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toHaveProperty('fileName', 'hello-traversal.txt');
+            expect(await listFileNames()).toContain('hello-traversal.txt');
+            expect(existsSync('src/hello-traversal.txt')).toBe(false);
+        });
+
+        it('should rename colliding files by default', async () => {
+            await upload('hello-collision.txt');
+            const promise = await upload('hello-collision.txt');
+            expect(await promise.json()).toHaveProperty('fileName', 'hello-collision (1).txt');
+
+            const secondPromise = await upload('hello-collision.txt', 'rename');
+            expect(await secondPromise.json()).toHaveProperty('fileName', 'hello-collision (2).txt');
+        });
+
+        it('should reject colliding files', async () => {
+            await upload('hello-reject.txt');
+            const promise = await upload('hello-reject.txt', 'reject');
+            expect(promise).toHaveProperty('status', 409);
+            expect(await promise.json()).toHaveProperty('code', 'FILE_EXISTS');
+
+            const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fileName: 'hello-reject.txt', totalChunks: 1, onConflict: 'reject' }),
+            });
+            expect(sessionPromise).toHaveProperty('status', 409);
+        });
+
+        it('should overwrite colliding files', async () => {
+            await upload('hello-overwrite.txt');
+            const formData = new FormData();
+            formData.append('file', new Blob(['Overwritten'], { type: 'text/plain' }), 'hello-overwrite.txt');
+            formData.append('onConflict', 'overwrite');
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+                method: 'POST',
+                body: formData,
+            });
+            expect(await promise.json()).toHaveProperty('fileName', 'hello-overwrite.txt');
+            expect(await readUpload('hello-overwrite.txt')).toBe('Overwritten');
+        });
+
+        it('should reject unknown collision policies', async () => {
+            const promise = await upload('hello-policy.txt', 'ignore');
+            expect(promise).toHaveProperty('status', 400);
+        });
+
+        it('should store chunked uploads under a free name', async () => {
+            await upload('hello-chunked-collision.txt');
+
+            const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fileName: '../hello-chunked-collision.txt', totalChunks: 1 }),
+            });
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+            const session = await sessionPromise.json();
+            expect(session).toHaveProperty('fileName', 'hello-chunked-collision.txt');
+
+            const formData = new FormData();
+            formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), 'chunk');
+            formData.append('currentChunkIndex', '0');
+            formData.append('totalChunks', '1');
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            formData.append('uploadId', session.uploadId as string);
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+                method: 'POST',
+                body: formData,
+            });
+            expect(await promise.json()).toHaveProperty('fileName', 'hello-chunked-collision (1).txt');
+        });
+    });
+
+    describe('upload policy', () => {
+        const POLICY_VARIABLES = [
+            'UPLOAD_ALLOWED_TYPES',
+            'UPLOAD_ALLOWED_EXTENSIONS',
+            'UPLOAD_MAX_FILE_SIZE',
+            'UPLOAD_MAX_TOTAL_SIZE',
+            'UPLOAD_MAX_FILE_COUNT',
+        ];
+
+        afterEach(() => {
+            for (const variable of POLICY_VARIABLES) {
+                delete process.env[variable];
+            }
+        });
+
+        const upload = (content: string, filename: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content]), filename);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        it('should expose the policy', async () => {
+            process.env.UPLOAD_ALLOWED_EXTENSIONS = 'png,txt';
+            process.env.UPLOAD_MAX_FILE_SIZE = '100';
+
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/config`);
+            expect(await promise.json()).toEqual({
+                uploadPolicy: {
+                    allowedMimeTypes: [],
+                    allowedExtensions: ['.png', '.txt'],
+                    maxFileSize: 100,
+                    maxTotalSize: null,
+                    maxFileCount: null,
+                },
+            });
+        });
+
+        it('should reject files with other extensions or content', async () => {
+            process.env.UPLOAD_ALLOWED_TYPES = 'image/*,text/plain';
+            process.env.UPLOAD_ALLOWED_EXTENSIONS = 'png,txt';
+
+            const extensionPromise = await upload('MZ', 'policy-setup.exe');
+            expect(extensionPromise).toHaveProperty('status', 415);
+            expect(await extensionPromise.json()).toHaveProperty('code', 'UNSUPPORTED_FILE_TYPE');
+
+            // An executable renamed to look like an image
+            const renamedPromise = await upload('MZ\u0090\u0000', 'policy-setup.png');
+            expect(renamedPromise).toHaveProperty('status', 415);
+            expect(await listFileNames()).not.toContain('policy-setup.png');
+
+            expect(await upload('Hello from Frontify!', 'policy-hello.txt')).toHaveProperty('status', 200);
+        });
+
+        it('should reject files that are too large', async () => {
+            process.env.UPLOAD_MAX_FILE_SIZE = '10';
+
+            const promise = await upload('Hello from Frontify!', 'policy-large.txt');
+            expect(promise).toHaveProperty('status', 413);
+            expect(await promise.json()).toHaveProperty('code', 'FILE_TOO_LARGE');
+            expect(await listFileNames()).not.toContain('policy-large.txt');
+
+            const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fileName: 'policy-large.txt', totalChunks: 2, size: 20 }),
+            });
+            expect(sessionPromise).toHaveProperty('status', 413);
+        });
+
+        it('should check merged chunks against the policy', async () => {
+            process.env.UPLOAD_ALLOWED_TYPES = 'text/plain';
+
+            // The size is not announced, only the merged file tells it is an executable
+            const sessionPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fileName: 'policy-chunked.txt', totalChunks: 1 }),
+            });
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+            const session = await sessionPromise.json();
+
+            const formData = new FormData();
+            formData.append('file', new Blob(['\u007FELF']), 'chunk');
+            formData.append('currentChunkIndex', '0');
+            formData.append('totalChunks', '1');
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            formData.append('uploadId', session.uploadId as string);
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+                method: 'POST',
+                body: formData,
+            });
+            expect(promise).toHaveProperty('status', 415);
+            expect(await listFileNames()).not.toContain('policy-chunked.txt');
+        });
+
+        it('should limit the stored files', async () => {
+            const filesPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files?limit=1`);
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+            const { total } = await filesPromise.json();
+            process.env.UPLOAD_MAX_FILE_COUNT = String(total);
+
+            const promise = await upload('Hello from Frontify!', 'policy-one-too-many.txt');
+            expect(promise).toHaveProperty('status', 413);
+            expect(await promise.json()).toHaveProperty('code', 'TOO_MANY_FILES');
+        });
+    });
+
+    describe('events', () => {
+        type ReceivedEvent = { id: string; event: string; data: Record<string, unknown> };
+
+        // Connects to the event stream, runs `action` and resolves with the first `count` events
+        const receiveEvents = async (
+            count: number,
+            headers: Record<string, string> = {},
+            action?: () => Promise<unknown>
+        ) => {
+            const controller = new AbortController();
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/events`, {
+                headers,
+                signal: controller.signal,
+            });
+            expect(promise.headers.get('Content-Type')).toContain('text/event-stream');
+            if (!promise.body) {
+                throw new Error('The event stream has no body');
+            }
+            const reader = promise.body.pipeThrough(new TextDecoderStream()).getReader();
+            await action?.();
+
+            const events: ReceivedEvent[] = [];
+            let buffer = '';
+            while (events.length < count) {
+                const { value, done } = await reader.read();
+                if (done) {
+                    break;
+                }
+                buffer += value;
+                const blocks = buffer.split('\n\n');
+                buffer = blocks.pop() ?? '';
+                for (const block of blocks) {
+                    const fields = Object.fromEntries(
+                        block
+                            .split('\n')
+                            .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+                    );
+                    if (fields.event) {
+                        events.push({
+                            id: fields.id,
+                            event: fields.event,
+                            data: JSON.parse(fields.data) as Record<string, unknown>,
+                        });
+                    }
+                }
+            }
+            controller.abort();
+            return events.slice(0, count);
+        };
+
+        const upload = (filename: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), filename);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        it('should stream file changes', async () => {
+            const [connected, added] = await receiveEvents(2, {}, () => upload('hello-events.txt'));
+            expect(connected).toHaveProperty('event', 'connected');
+            expect(added).toMatchObject({ event: 'file-added', data: { file: { name: 'hello-events.txt' } } });
+
+            const [, renamed] = await receiveEvents(2, {}, () =>
+                fetch(`http://localhost:${TESTING_PORT}/api/files/hello-events.txt`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name: 'hello-events-renamed.txt' }),
+                })
+            );
+            expect(renamed).toMatchObject({
+                event: 'file-renamed',
+                data: { from: 'hello-events.txt', file: { name: 'hello-events-renamed.txt' } },
+            });
+        });
+
+        it('should stream the progress of chunked uploads', async () => {
+            const uploadId = await createSession('hello-events-chunked.txt', 2);
+            const sendChunk = (index: number) => {
+                const formData = new FormData();
+                formData.append('file', new Blob(['Hello']), 'chunk');
+                formData.append('currentChunkIndex', `${index}`);
+                formData.append('totalChunks', '2');
+                formData.append('uploadId', uploadId);
+                return fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, { method: 'POST', body: formData });
+            };
+
+            const events = await receiveEvents(5, {}, async () => {
+                await sendChunk(0);
+                await sendChunk(1);
+            });
+            expect(events.map(({ event }) => event)).toEqual([
+                'connected',
+                'upload-progress',
+                'upload-progress',
+                'file-added',
+                'upload-ended',
+            ]);
+            expect(events[2]).toHaveProperty('data', {
+                uploadId,
+                fileName: 'hello-events-chunked.txt',
+                receivedChunks: 2,
+                totalChunks: 2,
+            });
+        });
+
+        it('should replay the events missed while disconnected', async () => {
+            const [connected] = await receiveEvents(1);
+            await fetch(`http://localhost:${TESTING_PORT}/api/files/hello-events-renamed.txt`, { method: 'DELETE' });
+
+            const [deleted] = await receiveEvents(1, { 'Last-Event-ID': connected.id });
+            expect(deleted).toMatchObject({ event: 'file-deleted', data: { name: 'hello-events-renamed.txt' } });
+
+            const [reset] = await receiveEvents(1, { 'Last-Event-ID': 'another-server:1' });
+            expect(reset).toHaveProperty('event', 'reset');
+        });
+    });
+
+    describe('upload administration', () => {
+        const uploadFirstChunk = (uploadId: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob(['Hello']), 'chunk');
+            formData.append('currentChunkIndex', '0');
+            formData.append('totalChunks', '2');
+            formData.append('uploadId', uploadId);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, { method: 'POST', body: formData });
+        };
+
+        it('should list and abort uploads in progress', async () => {
+            const uploadId = await createSession('hello-admin.txt', 2);
+            await uploadFirstChunk(uploadId);
+
+            const listPromise = await fetch(`http://localhost:${TESTING_PORT}/api/admin/uploads`);
+            expect(listPromise).toHaveProperty('status', 200);
+            const { uploads } = (await listPromise.json()) as { uploads: { uploadId: string }[] };
+            expect(uploads).toContainEqual(
+                expect.objectContaining({
+                    uploadId,
+                    fileName: 'hello-admin.txt',
+                    totalChunks: 2,
+                    receivedChunks: 1,
+                    expiresAt: expect.any(Number) as number,
+                })
+            );
+
+            const deletePromise = await fetch(`http://localhost:${TESTING_PORT}/api/admin/uploads/${uploadId}`, {
+                method: 'DELETE',
+            });
+            expect(deletePromise).toHaveProperty('status', 204);
+            expect(await listNames(storages.chunks)).not.toContain(uploadId);
+            expect(await uploadFirstChunk(uploadId)).toHaveProperty('status', 404);
+
+            const missingPromise = await fetch(`http://localhost:${TESTING_PORT}/api/admin/uploads/${uploadId}`, {
+                method: 'DELETE',
+            });
+            expect(missingPromise).toHaveProperty('status', 404);
+        });
+
+        it('should not take an unreadable upload session for a missing one', async () => {
+            const uploadId = await createSession('hello-unreadable.txt', 2);
+            const get = vi.spyOn(storages.chunks, 'get').mockRejectedValue(new Error('Disk failure'));
+            try {
+                const deletePromise = await fetch(`http://localhost:${TESTING_PORT}/api/admin/uploads/${uploadId}`, {
+                    method: 'DELETE',
+                });
+                expect(deletePromise).toHaveProperty('status', 500);
+            } finally {
+                get.mockRestore();
+            }
+            expect(await listNames(storages.chunks)).toContain(uploadId);
+        });
+
+        it('should remove expired uploads', async () => {
+            const uploadId = await createSession('hello-expired.txt', 2);
+            await uploadFirstChunk(uploadId);
+            // Left behind by a version that stored chunks outside of sessions
+            await storages.chunks.put('hello-legacy.txt.part_0', Readable.from(['Hello']));
+            await storages.chunks.put('.gitkeep', Readable.from([]));
+
+            expect(await removeExpiredUploads({ ttl: 60_000 })).toEqual([]);
+
+            const removed = await removeExpiredUploads({ ttl: 60_000, now: Date.now() + 60_001 });
+            expect(removed).toContain(uploadId);
+            expect(removed).toContain('hello-legacy.txt.part_0');
+            expect(await storages.chunks.list()).toEqual([]);
+            expect(await storages.chunks.stat('.gitkeep')).not.toBeNull();
+        });
+    });
+
+    describe('deduplication', () => {
+        const upload = (filename: string, content: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        const remove = (filename: string) =>
+            fetch(`http://localhost:${TESTING_PORT}/api/files/${filename}`, { method: 'DELETE' });
+
+        const uploadByHash = (body: Record<string, unknown>) =>
+            fetch(`http://localhost:${TESTING_PORT}/api/upload-by-hash`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+        const getUsage = async () => {
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files`);
+            const { usage } = (await promise.json()) as { usage: { logicalSize: number; diskUsage: number } };
+            return usage;
+        };
+
+        it('should store the same content once, until no file has it anymore', async () => {
+            const content = 'Hello from deduplication!';
+            const blobKey = `${sha256(content).slice(0, 2)}/${sha256(content)}`;
+            const usage = await getUsage();
+
+            await upload('dedup-1.txt', content);
+            await upload('dedup-2.txt', content);
+            expect(await storages.blobs.stat(blobKey)).toHaveProperty('size', content.length);
+            expect(await getUsage()).toEqual({
+                logicalSize: usage.logicalSize + 2 * content.length,
+                diskUsage: usage.diskUsage + content.length,
+            });
+
+            expect(await remove('dedup-1.txt')).toHaveProperty('status', 204);
+            expect(await readUpload('dedup-2.txt')).toBe(content);
+
+            expect(await remove('dedup-2.txt')).toHaveProperty('status', 204);
+            expect(await storages.blobs.stat(blobKey)).toBeNull();
+            expect(await getUsage()).toEqual(usage);
+        });
+
+        it('should keep the content of overwritten files that others share', async () => {
+            await upload('dedup-shared.txt', 'Hello from the original!');
+            await fetch(`http://localhost:${TESTING_PORT}/api/files/dedup-shared.txt/copy`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: 'dedup-shared-copy.txt' }),
+            });
+
+            const formData = new FormData();
+            formData.append(
+                'file',
+                new Blob(['Hello from the replacement!'], { type: 'text/plain' }),
+                'dedup-shared.txt'
+            );
+            formData.append('onConflict', 'overwrite');
+            await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+
+            expect(await readUpload('dedup-shared.txt')).toBe('Hello from the replacement!');
+            expect(await readUpload('dedup-shared-copy.txt')).toBe('Hello from the original!');
+        });
+
+        it('should tell whether content is stored already', async () => {
+            const content = 'Hello from the blob check!';
+            await upload('dedup-check.txt', content);
+
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/blobs/${sha256(content)}`);
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toEqual({ sha256: sha256(content), size: content.length });
+
+            const missingPromise = await fetch(`http://localhost:${TESTING_PORT}/api/blobs/${sha256('unknown')}`);
+            expect(missingPromise).toHaveProperty('status', 404);
+            expect(await missingPromise.json()).toHaveProperty('code', 'BLOB_NOT_FOUND');
+
+            const invalidPromise = await fetch(`http://localhost:${TESTING_PORT}/api/blobs/not-a-digest`);
+            expect(invalidPromise).toHaveProperty('status', 400);
+        });
+
+        it('should add a file by the digest of stored content', async () => {
+            const content = 'Hello from upload by hash!';
+            await upload('dedup-by-hash.txt', content);
+
+            const promise = await uploadByHash({
+                sha256: sha256(content),
+                fileName: 'dedup-by-hash.txt',
+                tags: ['copy'],
+            });
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toEqual({
+                message: 'File uploaded successfully',
+                fileName: 'dedup-by-hash (1).txt',
+                sha256: sha256(content),
+            });
+            expect(await readUpload('dedup-by-hash (1).txt')).toBe(content);
+            const metadata = await readMetadata();
+            expect(metadata['dedup-by-hash (1).txt']).toMatchObject({
+                size: content.length,
+                uploadMethod: 'by-hash',
+                tags: ['copy'],
+            });
+
+            const conflictPromise = await uploadByHash({
+                sha256: sha256(content),
+                fileName: 'dedup-by-hash.txt',
+                onConflict: 'reject',
+            });
+            expect(conflictPromise).toHaveProperty('status', 409);
+
+            const missingPromise = await uploadByHash({ sha256: sha256('unknown'), fileName: 'dedup-unknown.txt' });
+            expect(missingPromise).toHaveProperty('status', 404);
+            expect(await missingPromise.json()).toHaveProperty('code', 'BLOB_NOT_FOUND');
+
+            const invalidPromise = await uploadByHash({ sha256: 'not-a-digest', fileName: 'dedup-invalid.txt' });
+            expect(invalidPromise).toHaveProperty('status', 400);
+        });
+    });
+
+    describe('tus', () => {
+        const TUS_URL = `http://localhost:${TESTING_PORT}/api/tus`;
+        const TUS_HEADERS = { 'Tus-Resumable': '1.0.0' };
+
+        const encodeMetadata = (metadata: Record<string, string>) =>
+            Object.entries(metadata)
+                .map(([key, value]) => `${key} ${Buffer.from(value).toString('base64')}`)
+                .join(',');
+
+        const create = async (length: number, metadata: Record<string, string>) => {
+            const promise = await fetch(TUS_URL, {
+                method: 'POST',
+                headers: {
+                    ...TUS_HEADERS,
+                    'Upload-Length': String(length),
+                    'Upload-Metadata': encodeMetadata(metadata),
+                },
+            });
+            expect(promise).toHaveProperty('status', 201);
+            return `http://localhost:${TESTING_PORT}${promise.headers.get('Location')}`;
+        };
+
+        const patch = (url: string, offset: number, content: string, headers: Record<string, string> = {}) =>
+            fetch(url, {
+                method: 'PATCH',
+                headers: {
+                    ...TUS_HEADERS,
+                    'Content-Type': 'application/offset+octet-stream',
+                    'Upload-Offset': String(offset),
+                    ...headers,
+                },
+                body: content,
+            });
+
+        const getOffset = async (url: string) => {
+            const promise = await fetch(url, { method: 'HEAD', headers: TUS_HEADERS });
+            return promise.status === 200 ? Number(promise.headers.get('Upload-Offset')) : promise.status;
+        };
+
+        it('should tell its version and extensions', async () => {
+            const promise = await fetch(TUS_URL, { method: 'OPTIONS' });
+            expect(promise).toHaveProperty('status', 204);
+            expect(promise.headers.get('Tus-Version')).toBe('1.0.0');
+            expect(promise.headers.get('Tus-Extension')).toBe('creation,termination,checksum');
+            expect(promise.headers.get('Tus-Checksum-Algorithm')).toContain('sha1');
+
+            const unversionedPromise = await fetch(TUS_URL, { method: 'POST', headers: { 'Upload-Length': '1' } });
+            expect(unversionedPromise).toHaveProperty('status', 412);
+            expect(unversionedPromise.headers.get('Tus-Version')).toBe('1.0.0');
+        });
+
+        it('should store an upload sent in several requests', async () => {
+            const content = 'Hello from a tus client!';
+            const url = await create(content.length, { filename: 'tus-hello.txt', tags: 'tus' });
+            const headPromise = await fetch(url, { method: 'HEAD', headers: TUS_HEADERS });
+            expect(headPromise.headers.get('Upload-Length')).toBe(String(content.length));
+            expect(headPromise.headers.get('Upload-Metadata')).toBe(
+                encodeMetadata({ filename: 'tus-hello.txt', tags: 'tus' })
+            );
+            expect(await getOffset(url)).toBe(0);
+
+            const sha1 = createHash('sha1').update(content.slice(0, 10)).digest('base64');
+            const promise = await patch(url, 0, content.slice(0, 10), { 'Upload-Checksum': `sha1 ${sha1}` });
+            expect(promise).toHaveProperty('status', 204);
+            expect(promise.headers.get('Upload-Offset')).toBe('10');
+            expect(promise.headers.get('Tus-Resumable')).toBe('1.0.0');
+
+            const conflictPromise = await patch(url, 0, content.slice(0, 10));
+            expect(conflictPromise).toHaveProperty('status', 409);
+
+            const corruptedPromise = await patch(url, 10, content.slice(10), { 'Upload-Checksum': `sha1 ${sha1}` });
+            expect(corruptedPromise).toHaveProperty('status', 460);
+            expect(await getOffset(url)).toBe(10);
+
+            // Clients that cannot send `PATCH` override the method
+            const lastPromise = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    ...TUS_HEADERS,
+                    'X-HTTP-Method-Override': 'PATCH',
+                    'Content-Type': 'application/offset+octet-stream',
+                    'Upload-Offset': '10',
+                },
+                body: content.slice(10),
+            });
+            expect(lastPromise).toHaveProperty('status', 204);
+            expect(lastPromise.headers.get('Upload-Offset')).toBe(String(content.length));
+
+            expect(await readUpload('tus-hello.txt')).toBe(content);
+            const metadata = await readMetadata();
+            expect(metadata['tus-hello.txt']).toMatchObject({ uploadMethod: 'tus', tags: ['tus'] });
+            expect(await getOffset(url)).toBe(404);
+        });
+
+        it('should refuse requests that do not fit the upload', async () => {
+            const url = await create(5, { filename: 'tus-refused.txt' });
+
+            const typePromise = await patch(url, 0, 'Hello', { 'Content-Type': 'text/plain' });
+            expect(typePromise).toHaveProperty('status', 415);
+
+            const tooLongPromise = await patch(url, 0, 'Hello from too far!');
+            expect(tooLongPromise).toHaveProperty('status', 413);
+            expect(await getOffset(url)).toBe(0);
+
+            const algorithmPromise = await patch(url, 0, 'Hello', { 'Upload-Checksum': 'crc32 AAAA' });
+            expect(algorithmPromise).toHaveProperty('status', 400);
+
+            const missingNamePromise = await fetch(TUS_URL, {
+                method: 'POST',
+                headers: { ...TUS_HEADERS, 'Upload-Length': '5' },
+            });
+            expect(missingNamePromise).toHaveProperty('status', 400);
+        });
+
+        it('should terminate an upload', async () => {
+            const url = await create(10, { filename: 'tus-terminated.txt' });
+            await patch(url, 0, 'Hello');
+
+            const promise = await fetch(url, { method: 'DELETE', headers: TUS_HEADERS });
+            expect(promise).toHaveProperty('status', 204);
+            expect(await getOffset(url)).toBe(404);
+            expect(await storages.chunks.list(url.split('/').pop())).toEqual([]);
+        });
+
+        it('should store empty files right away', async () => {
+            await create(0, { filename: 'tus-empty.txt' });
+            expect(await readUpload('tus-empty.txt')).toBe('');
+        });
+    });
+
+    describe('versions', () => {
+        afterEach(() => {
+            delete process.env.FILE_VERSION_LIMIT;
+        });
+
+        const upload = (filename: string, content: string) => {
+            const formData = new FormData();
+            formData.append('onConflict', 'overwrite');
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        const getVersionsUrl = (fileName: string) =>
+            `http://localhost:${TESTING_PORT}/api/files/${encodeURIComponent(fileName)}/versions`;
+
+        const listVersions = async (fileName: string) => {
+            const promise = await fetch(getVersionsUrl(fileName));
+            const { versions } = (await promise.json()) as { versions: { version: number; size: number }[] };
+            return versions;
+        };
+
+        it('should keep every overwritten content as a version', async () => {
+            await upload('versioned.txt', 'First');
+            await upload('versioned.txt', 'Second!');
+
+            expect(await listVersions('versioned.txt')).toMatchObject([
+                { version: 2, size: 7 },
+                { version: 1, size: 5 },
+            ]);
+            const promise = await fetch(`${getVersionsUrl('versioned.txt')}/1?download`);
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.text()).toBe('First');
+            expect(await readUpload('versioned.txt')).toBe('Second!');
+
+            const missingPromise = await fetch(`${getVersionsUrl('versioned.txt')}/3`);
+            expect(missingPromise).toHaveProperty('status', 404);
+            expect(await missingPromise.json()).toHaveProperty('code', 'VERSION_NOT_FOUND');
+        });
+
+        it('should restore a previous version as a new one', async () => {
+            await upload('restored.txt', 'First');
+            await upload('restored.txt', 'Second!');
+
+            const promise = await fetch(`${getVersionsUrl('restored.txt')}/1/restore`, { method: 'POST' });
+            expect(promise).toHaveProperty('status', 200);
+            expect(await promise.json()).toMatchObject({ name: 'restored.txt', version: 3, size: 5 });
+            expect(await readUpload('restored.txt')).toBe('First');
+            const versions = await listVersions('restored.txt');
+            expect(versions.map(({ version }) => version)).toEqual([3, 2, 1]);
+        });
+
+        it('should only keep as many versions as the limit', async () => {
+            process.env.FILE_VERSION_LIMIT = '2';
+            await upload('limited.txt', 'Limited first');
+            await upload('limited.txt', 'Limited second');
+            await upload('limited.txt', 'Limited third');
+
+            const versions = await listVersions('limited.txt');
+            expect(versions.map(({ version }) => version)).toEqual([3, 2]);
+            // The content of the dropped version is deleted, as nothing else has it
+            const blobs = await storages.blobs.list();
+            expect(blobs.map(({ key }) => key.split('/')[1])).not.toContain(sha256('Limited first'));
+            expect(blobs.map(({ key }) => key.split('/')[1])).toContain(sha256('Limited second'));
+        });
+    });
+
+    describe('archive', () => {
+        const ARCHIVE_URL = `http://localhost:${TESTING_PORT}/api/archive`;
+
+        const upload = (relativePath: string, content: string) => {
+            const formData = new FormData();
+            formData.append('relativePath', relativePath);
+            formData.append('file', new Blob([content], { type: 'text/plain' }), 'ignored.txt');
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, { method: 'POST', body: formData });
+        };
+
+        // The names of the entries, in the order of the central directory
+        const readEntryNames = (archive: Buffer) => {
+            const end = archive.length - 22;
+            let offset = archive.readUInt32LE(end + 16);
+            return Array.from({ length: archive.readUInt16LE(end + 10) }, () => {
+                const nameLength = archive.readUInt16LE(offset + 28);
+                const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+                offset += 46 + nameLength + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+                return name;
+            });
+        };
+
+        it('should stream a directory as a ZIP archive', async () => {
+            await upload('archive-dir/a.txt', 'Hello from Frontify!');
+            await upload('archive-dir/sub/b.txt', 'Hello again!');
+
+            const promise = await fetch(`${ARCHIVE_URL}?dir=archive-dir`);
+            expect(promise).toHaveProperty('status', 200);
+            expect(promise.headers.get('Content-Type')).toBe('application/zip');
+            expect(promise.headers.get('Content-Disposition')).toContain('filename="archive-dir.zip"');
+            const archive = Buffer.from(await promise.arrayBuffer());
+            expect(readEntryNames(archive)).toEqual(['archive-dir/a.txt', 'archive-dir/sub/b.txt']);
+        });
+
+        it('should archive the files selected in a form', async () => {
+            await upload('archive-selected.txt', 'Hello from Frontify!');
+            await upload('archive-dir/a.txt', 'Hello from Frontify!');
+
+            const promise = await fetch(ARCHIVE_URL, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams([
+                    ['files', 'archive-selected.txt'],
+                    ['files', 'archive-dir/a.txt'],
+                ]).toString(),
+            });
+            expect(promise).toHaveProperty('status', 200);
+            expect(promise.headers.get('Content-Disposition')).toContain('filename="files.zip"');
+            const archive = Buffer.from(await promise.arrayBuffer());
+            expect(readEntryNames(archive)).toEqual(['archive-dir/a.txt', 'archive-selected.txt']);
+        });
+
+        it('should reject unknown files and empty selections', async () => {
+            const missingPromise = await fetch(`${ARCHIVE_URL}?files=archive-missing.txt`);
+            expect(missingPromise).toHaveProperty('status', 404);
+            expect(await missingPromise.json()).toHaveProperty('code', 'FILE_NOT_FOUND');
+
+            const emptyPromise = await fetch(ARCHIVE_URL);
+            expect(emptyPromise).toHaveProperty('status', 400);
+        });
+    });
+
+    describe('authentication', () => {
+        const authorize = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+        const upload = (filename: string, content: string, token: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+                method: 'POST',
+                headers: authorize(token),
+                body: formData,
+            });
+        };
+
+        const listFiles = async (token: string) => {
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files`, { headers: authorize(token) });
+            const { files } = (await promise.json()) as { files: { name: string }[] };
+            return files.map(({ name }) => name);
+        };
+
+        beforeEach(() => {
+            process.env.AUTH_REQUIRED = 'true';
+        });
+
+        afterEach(() => {
+            process.env.AUTH_REQUIRED = 'false';
+        });
+
+        it('should require a valid token', async () => {
+            const missingPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files`);
+            expect(missingPromise).toHaveProperty('status', 401);
+            expect(missingPromise.headers.get('WWW-Authenticate')).toBe('Bearer');
+            expect(await missingPromise.json()).toHaveProperty('code', 'UNAUTHORIZED');
+
+            const invalidPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files`, {
+                headers: authorize('not-a-token'),
+            });
+            expect(invalidPromise).toHaveProperty('status', 401);
+
+            const { token } = await issueToken('auth-reader');
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files`, { headers: authorize(token) });
+            expect(promise).toHaveProperty('status', 200);
+            // Tokens in URLs end up in logs and histories
+            const queryPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files?access_token=${token}`);
+            expect(queryPromise).toHaveProperty('status', 401);
+        });
+
+        it('should serve signed URLs for a while, and only the request they were signed for', async () => {
+            const { id, token } = await issueToken('auth-signer');
+            expect(await upload('auth-signed.txt', 'Hello from the link!', token)).toHaveProperty('status', 200);
+            const sign = (urls: unknown, method?: string) =>
+                fetch(`http://localhost:${TESTING_PORT}/api/signed-urls`, {
+                    method: 'POST',
+                    headers: { ...authorize(token), 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ urls, method }),
+                });
+
+            const signPromise = await sign(['/api/files/auth-signed.txt?download', '/api/archive?dir=']);
+            expect(signPromise).toHaveProperty('status', 200);
+            const signed = (await signPromise.json()) as { urls: string[]; expiresAt: string };
+            const [fileUrl] = signed.urls;
+            expect(fileUrl).toMatch(/^\/api\/files\/auth-signed\.txt\?download=&signature=/);
+            expect(fileUrl).not.toContain(token);
+
+            const downloadPromise = await fetch(`http://localhost:${TESTING_PORT}${fileUrl}`);
+            expect(downloadPromise).toHaveProperty('status', 200);
+            expect(await downloadPromise.text()).toBe('Hello from the link!');
+            expect(downloadPromise.headers.get('Content-Disposition')).toContain('attachment');
+
+            // Neither another file, another method nor another query are covered by the signature
+            const signature = new URL(fileUrl, 'http://localhost').searchParams.get('signature') ?? '';
+            const otherUrl = `http://localhost:${TESTING_PORT}/api/files/other.txt?signature=${signature}`;
+            expect(await fetch(otherUrl)).toHaveProperty('status', 401);
+            const deleteUrl = `http://localhost:${TESTING_PORT}${fileUrl}`;
+            expect(await fetch(deleteUrl, { method: 'DELETE' })).toHaveProperty('status', 401);
+            const inlineUrl = `http://localhost:${TESTING_PORT}/api/files/auth-signed.txt?signature=${signature}`;
+            expect(await fetch(inlineUrl)).toHaveProperty('status', 401);
+
+            // Only archives are read by posting
+            expect(await sign(['/api/files/auth-signed.txt'], 'POST')).toHaveProperty('status', 400);
+            expect(await sign(['/api/signed-urls'], 'POST')).toHaveProperty('status', 400);
+            expect(await sign(['https://example.com/api/files'])).toHaveProperty('status', 400);
+            const archiveSignPromise = await sign(['/api/archive'], 'POST');
+            const [archiveUrl] = ((await archiveSignPromise.json()) as { urls: string[] }).urls;
+            const archivePromise = await fetch(`http://localhost:${TESTING_PORT}${archiveUrl}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams({ files: 'auth-signed.txt' }),
+            });
+            expect(archivePromise).toHaveProperty('status', 200);
+
+            const now = Date.now();
+            const later = vi.spyOn(Date, 'now').mockReturnValue(now + 16 * 60 * 1000);
+            try {
+                expect(await fetch(`http://localhost:${TESTING_PORT}${fileUrl}`)).toHaveProperty('status', 401);
+            } finally {
+                later.mockRestore();
+            }
+
+            // Revoking the token revokes the URLs it signed
+            expect(await fetch(`http://localhost:${TESTING_PORT}${fileUrl}`)).toHaveProperty('status', 200);
+            await revokeToken(id);
+            expect(await fetch(`http://localhost:${TESTING_PORT}${fileUrl}`)).toHaveProperty('status', 401);
+        });
+
+        it('should keep the files of each user to themselves', async () => {
+            const { token: aliceToken } = await issueToken('auth-alice');
+            const { token: bobToken } = await issueToken('auth-bob');
+            const content = 'Hello from Alice!';
+            expect(await upload('auth-private.txt', content, aliceToken)).toHaveProperty('status', 200);
+
+            expect(await listFiles(aliceToken)).toEqual(['auth-private.txt']);
+            expect(await listFiles(bobToken)).toEqual([]);
+            expect(Object.keys(await readMetadata())).not.toContain('auth-private.txt');
+            expect(await storages.data.stat('namespaces/auth-alice/metadata.json')).not.toBeNull();
+
+            const downloadPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files/auth-private.txt`, {
+                headers: authorize(aliceToken),
+            });
+            expect(await downloadPromise.text()).toBe(content);
+            const otherPromise = await fetch(`http://localhost:${TESTING_PORT}/api/files/auth-private.txt`, {
+                headers: authorize(bobToken),
+            });
+            expect(otherPromise).toHaveProperty('status', 404);
+
+            // Knowing the digest gives no access to the content of other users
+            const blobPromise = await fetch(`http://localhost:${TESTING_PORT}/api/blobs/${sha256(content)}`, {
+                headers: authorize(bobToken),
+            });
+            expect(blobPromise).toHaveProperty('status', 404);
+            const byHashPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-by-hash`, {
+                method: 'POST',
+                headers: { ...authorize(bobToken), 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sha256: sha256(content), fileName: 'auth-stolen.txt' }),
+            });
+            expect(byHashPromise).toHaveProperty('status', 404);
+            expect(await listFiles(bobToken)).toEqual([]);
+        });
+
+        it('should let administrators issue and revoke tokens', async () => {
+            const { token: adminToken } = await issueToken('auth-admin', { admin: true });
+            const { token: userToken } = await issueToken('auth-user');
+            const TOKENS_URL = `http://localhost:${TESTING_PORT}/api/admin/tokens`;
+            const issue = (token: string) =>
+                fetch(TOKENS_URL, {
+                    method: 'POST',
+                    headers: { ...authorize(token), 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ user: 'auth-issued' }),
+                });
+
+            const forbiddenPromise = await issue(userToken);
+            expect(forbiddenPromise).toHaveProperty('status', 403);
+            expect(await forbiddenPromise.json()).toHaveProperty('code', 'FORBIDDEN');
+            expect(
+                await fetch(`http://localhost:${TESTING_PORT}/api/admin/uploads`, { headers: authorize(userToken) })
+            ).toHaveProperty('status', 403);
+
+            const issuePromise = await issue(adminToken);
+            expect(issuePromise).toHaveProperty('status', 201);
+            const issued = (await issuePromise.json()) as { id: string; token: string };
+            expect(issued).toMatchObject({ user: 'auth-issued', admin: false });
+            expect(await listFiles(issued.token)).toEqual([]);
+
+            const listPromise = await fetch(TOKENS_URL, { headers: authorize(adminToken) });
+            const { tokens } = (await listPromise.json()) as { tokens: Record<string, unknown>[] };
+            const listed = tokens.find(({ id }) => id === issued.id);
+            expect(listed).toHaveProperty('user', 'auth-issued');
+            expect(listed).not.toHaveProperty('tokenHash');
+
+            const revoke = () =>
+                fetch(`${TOKENS_URL}/${issued.id}`, { method: 'DELETE', headers: authorize(adminToken) });
+            expect(await revoke()).toHaveProperty('status', 204);
+            expect(
+                await fetch(`http://localhost:${TESTING_PORT}/api/files`, { headers: authorize(issued.token) })
+            ).toHaveProperty('status', 401);
+            expect(await revoke()).toHaveProperty('status', 404);
+        });
+    });
+
+    describe('quotas', () => {
+        const QUOTA_VARIABLES = ['QUOTA_TOTAL_BYTES', 'QUOTA_NAMESPACE_BYTES', 'QUOTA_NAMESPACES'];
+        const authorize = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+        type Usage = {
+            availableBytes: number | null;
+            namespace: { usedBytes: number; reservedBytes: number; availableBytes: number | null; fileCount: number };
+            total: { usedBytes: number; reservedBytes: number; availableBytes: number | null };
+            largestFiles: { name: string; size: number }[];
+        };
+
+        const fetchUsage = async (token: string) => {
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/usage`, { headers: authorize(token) });
+            return (await promise.json()) as Usage;
+        };
+
+        const upload = (filename: string, content: string, token: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            return fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+                method: 'POST',
+                headers: authorize(token),
+                body: formData,
+            });
+        };
+
+        const createSession = (token: string, body: Record<string, unknown>) =>
+            fetch(`http://localhost:${TESTING_PORT}/api/upload-sessions`, {
+                method: 'POST',
+                headers: { ...authorize(token), 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+        beforeEach(() => {
+            // Every test stores into namespaces of its own, which start out empty
+            process.env.AUTH_REQUIRED = 'true';
+        });
+
+        afterEach(() => {
+            process.env.AUTH_REQUIRED = 'false';
+            for (const variable of QUOTA_VARIABLES) {
+                delete process.env[variable];
+            }
+        });
+
+        it('should keep every namespace within its quota', async () => {
+            process.env.QUOTA_NAMESPACE_BYTES = '1000';
+            process.env.QUOTA_NAMESPACES = 'quota-alice=30';
+            const { token } = await issueToken('quota-alice');
+
+            const content = 'Hello from Frontify!';
+            expect(await upload('quota-hello.txt', content, token)).toHaveProperty('status', 200);
+            expect(await fetchUsage(token)).toMatchObject({
+                availableBytes: 10,
+                namespace: { usedBytes: 20, reservedBytes: 0, availableBytes: 10, fileCount: 1 },
+                largestFiles: [{ name: 'quota-hello.txt', size: 20 }],
+            });
+
+            const promise = await upload('quota-large.txt', 'Too much for the quota', token);
+            expect(promise).toHaveProperty('status', 413);
+            expect(await promise.json()).toEqual({
+                error: 'The upload exceeds your storage quota, 10 of 30 bytes are left.',
+                code: 'QUOTA_EXCEEDED',
+            });
+
+            // Content that is stored already takes no more bytes
+            const byHashPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-by-hash`, {
+                method: 'POST',
+                headers: { ...authorize(token), 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sha256: sha256(content), fileName: 'quota-copy.txt' }),
+            });
+            expect(byHashPromise).toHaveProperty('status', 200);
+            expect(await upload('quota-again.txt', content, token)).toHaveProperty('status', 200);
+            expect(await fetchUsage(token)).toHaveProperty('namespace.usedBytes', 20);
+        });
+
+        it('should check chunked and tus uploads before they start', async () => {
+            process.env.QUOTA_NAMESPACES = 'quota-bob=30';
+            const { token } = await issueToken('quota-bob');
+
+            const sizedPromise = await createSession(token, { fileName: 'quota-sized.txt', totalChunks: 1, size: 31 });
+            expect(sizedPromise).toHaveProperty('status', 413);
+            expect(await sizedPromise.json()).toHaveProperty('code', 'QUOTA_EXCEEDED');
+            const chunkedPromise = await createSession(token, {
+                fileName: 'quota-chunked.txt',
+                totalChunks: 4,
+                chunkSize: 8,
+            });
+            expect(chunkedPromise).toHaveProperty('status', 413);
+
+            // Uploads in progress reserve their bytes
+            const reservedPromise = await createSession(token, {
+                fileName: 'quota-reserved.txt',
+                totalChunks: 2,
+                chunkSize: 10,
+            });
+            expect(reservedPromise).toHaveProperty('status', 201);
+            expect(await fetchUsage(token)).toHaveProperty('namespace.reservedBytes', 20);
+
+            const tusPromise = await fetch(`http://localhost:${TESTING_PORT}/api/tus`, {
+                method: 'POST',
+                headers: {
+                    ...authorize(token),
+                    'Tus-Resumable': '1.0.0',
+                    'Upload-Length': '11',
+                    'Upload-Metadata': `filename ${Buffer.from('quota-tus.txt').toString('base64')}`,
+                },
+            });
+            expect(tusPromise).toHaveProperty('status', 413);
+
+            // Without an announced size, the merged file is checked
+            const unsizedPromise = await createSession(token, { fileName: 'quota-unsized.txt', totalChunks: 1 });
+            const { uploadId } = (await unsizedPromise.json()) as { uploadId: string };
+            const formData = new FormData();
+            formData.append('file', new Blob(['Too much for the quota']), 'chunk');
+            formData.append('currentChunkIndex', '0');
+            formData.append('totalChunks', '1');
+            formData.append('uploadId', uploadId);
+            const chunkPromise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+                method: 'POST',
+                headers: authorize(token),
+                body: formData,
+            });
+            expect(chunkPromise).toHaveProperty('status', 413);
+            expect(await fetchUsage(token)).toMatchObject({ namespace: { usedBytes: 0, fileCount: 0 } });
+        });
+
+        it('should stop chunks beyond what the upload has left', async () => {
+            process.env.QUOTA_NAMESPACES = 'quota-dave=30';
+            const { token } = await issueToken('quota-dave');
+            const sendChunk = (uploadId: string, index: number, content: string) => {
+                const formData = new FormData();
+                formData.append('file', new Blob([content]), 'chunk');
+                formData.append('currentChunkIndex', String(index));
+                formData.append('totalChunks', '3');
+                formData.append('uploadId', uploadId);
+                return fetch(`http://localhost:${TESTING_PORT}/api/upload-chunk`, {
+                    method: 'POST',
+                    headers: authorize(token),
+                    body: formData,
+                });
+            };
+
+            // Chunks are no larger than announced
+            const sizedPromise = await createSession(token, {
+                fileName: 'quota-sized.txt',
+                totalChunks: 3,
+                chunkSize: 4,
+            });
+            const sized = (await sizedPromise.json()) as { uploadId: string };
+            expect(await sendChunk(sized.uploadId, 0, 'Hello')).toHaveProperty('status', 413);
+            expect(await sendChunk(sized.uploadId, 0, 'Hell')).toHaveProperty('status', 200);
+
+            // Without an announced size, the chunks together fit the quota
+            const unsizedPromise = await createSession(token, { fileName: 'quota-unsized.txt', totalChunks: 3 });
+            const unsized = (await unsizedPromise.json()) as { uploadId: string };
+            expect(await sendChunk(unsized.uploadId, 0, 'Twelve bytes')).toHaveProperty('status', 200);
+            const promise = await sendChunk(unsized.uploadId, 1, 'Six more');
+            expect(promise).toHaveProperty('status', 413);
+            expect(await promise.json()).toHaveProperty('code', 'QUOTA_EXCEEDED');
+        });
+
+        it('should keep all namespaces together within the total quota', async () => {
+            const { token } = await issueToken('quota-carol');
+            const { total } = await fetchUsage(token);
+            expect(total.availableBytes).toBeNull();
+            process.env.QUOTA_TOTAL_BYTES = String(total.usedBytes + total.reservedBytes + 5);
+
+            expect(await fetchUsage(token)).toMatchObject({ availableBytes: 5, namespace: { availableBytes: null } });
+            const promise = await upload('quota-total.txt', 'Hello from the total quota!', token);
+            expect(promise).toHaveProperty('status', 413);
+            expect(await promise.json()).toHaveProperty(
+                'error',
+                `The upload exceeds the storage quota of the server, 5 of ${process.env.QUOTA_TOTAL_BYTES} bytes are left.`
+            );
+            expect(await upload('quota-small.txt', 'Hello', token)).toHaveProperty('status', 200);
+        });
+    });
+
+    describe('share links', () => {
+        const authorize = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+        type ShareLink = { id: string; url: string; fileName: string; maxDownloads: number | null; downloads: number };
+
+        const SHARE_URL = `http://localhost:${TESTING_PORT}/api/shared`;
+
+        const share = (token: string, fileName: string, body: Record<string, unknown>) =>
+            fetch(`http://localhost:${TESTING_PORT}/api/files/${encodeURIComponent(fileName)}/shares`, {
+                method: 'POST',
+                headers: { ...authorize(token), 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+        const setup = async (user: string) => {
+            const { token } = await issueToken(user);
+            const formData = new FormData();
+            formData.append('file', new Blob(['Hello from Frontify!'], { type: 'text/plain' }), 'shared.txt');
+            await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+                method: 'POST',
+                headers: authorize(token),
+                body: formData,
+            });
+            return token;
+        };
+
+        beforeEach(() => {
+            process.env.AUTH_REQUIRED = 'true';
+        });
+
+        afterEach(() => {
+            process.env.AUTH_REQUIRED = 'false';
+            vi.restoreAllMocks();
+        });
+
+        it('should download the file without a token until the link is revoked', async () => {
+            const token = await setup('share-alice');
+            const promise = await share(token, 'shared.txt', { expiresIn: 3600 });
+            expect(promise).toHaveProperty('status', 201);
+            const link = (await promise.json()) as ShareLink;
+            expect(link).toMatchObject({ fileName: 'shared.txt', maxDownloads: null, downloads: 0 });
+            expect(link.url).toMatch(/^\/api\/shared\//);
+
+            const downloadPromise = await fetch(`http://localhost:${TESTING_PORT}${link.url}`);
+            expect(downloadPromise).toHaveProperty('status', 200);
+            expect(downloadPromise.headers.get('x-content-type-options')).toBe('nosniff');
+            expect(downloadPromise.headers.get('content-security-policy')).toBe('sandbox');
+            expect(await downloadPromise.text()).toBe('Hello from Frontify!');
+
+            // Ranges and checks whether the file changed are no downloads of their own, and change no link
+            const put = vi.spyOn(storages.data, 'put');
+            try {
+                const rangePromise = await fetch(`http://localhost:${TESTING_PORT}${link.url}`, {
+                    headers: { Range: 'bytes=0-4' },
+                });
+                expect(rangePromise).toHaveProperty('status', 206);
+                const notModifiedPromise = await fetch(`http://localhost:${TESTING_PORT}${link.url}`, {
+                    headers: { 'If-None-Match': downloadPromise.headers.get('etag') ?? '' },
+                });
+                expect(notModifiedPromise).toHaveProperty('status', 304);
+                expect(put).not.toHaveBeenCalled();
+            } finally {
+                put.mockRestore();
+            }
+
+            // Neither the file name nor the expiry can be changed without breaking the signature
+            const [payload, signature] = link.url.split('/').pop().split('.');
+            const changed = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Record<string, unknown>;
+            changed.expiresAt = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString();
+            const forgedUrl = `${SHARE_URL}/${Buffer.from(JSON.stringify(changed)).toString('base64url')}.${signature}`;
+            const forgedPromise = await fetch(forgedUrl);
+            expect(forgedPromise).toHaveProperty('status', 404);
+            expect(await forgedPromise.json()).toHaveProperty('code', 'SHARE_NOT_FOUND');
+
+            const listPromise = await fetch(`http://localhost:${TESTING_PORT}/api/shares?file=shared.txt`, {
+                headers: authorize(token),
+            });
+            const { shares } = (await listPromise.json()) as { shares: ShareLink[] };
+            expect(shares).toEqual([{ ...link, downloads: 1 }]);
+            // The links of other users are unknown
+            const otherToken = await setup('share-bob');
+            const revoke = (user: string) =>
+                fetch(`http://localhost:${TESTING_PORT}/api/shares/${link.id}`, {
+                    method: 'DELETE',
+                    headers: authorize(user),
+                });
+            expect(await revoke(otherToken)).toHaveProperty('status', 404);
+
+            expect(await revoke(token)).toHaveProperty('status', 204);
+            expect(await fetch(`http://localhost:${TESTING_PORT}${link.url}`)).toHaveProperty('status', 404);
+        });
+
+        it('should stop serving the file once the link expired or was used up', async () => {
+            const token = await setup('share-carol');
+            expect(await share(token, 'shared.txt', { expiresIn: 0 })).toHaveProperty('status', 400);
+            expect(await share(token, 'missing.txt', { expiresIn: 60 })).toHaveProperty('status', 404);
+
+            const oncePromise = await share(token, 'shared.txt', { expiresIn: 60, maxDownloads: 1 });
+            const once = (await oncePromise.json()) as ShareLink;
+            const partPromise = await fetch(`http://localhost:${TESTING_PORT}${once.url}`, {
+                headers: { Range: 'bytes=0-4' },
+            });
+            expect(partPromise).toHaveProperty('status', 206);
+            expect(await fetch(`http://localhost:${TESTING_PORT}${once.url}`)).toHaveProperty('status', 200);
+            const usedPromise = await fetch(`http://localhost:${TESTING_PORT}${once.url}`);
+            expect(usedPromise).toHaveProperty('status', 410);
+            expect(await usedPromise.json()).toHaveProperty('code', 'SHARE_EXPIRED');
+
+            const expiringPromise = await share(token, 'shared.txt', { expiresIn: 60 });
+            const expiring = (await expiringPromise.json()) as ShareLink;
+            const now = Date.now();
+            vi.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+            expect(await fetch(`http://localhost:${TESTING_PORT}${expiring.url}`)).toHaveProperty('status', 410);
+        });
+    });
+
+    describe('processing', () => {
+        const authorize = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+        type ProcessedFile = {
+            name: string;
+            sha256: string;
+            size: number;
+            processing?: { status: string; results: Record<string, unknown>; errors: Record<string, string> };
+        };
+
+        const upload = async (filename: string, content: string, token: string) => {
+            const formData = new FormData();
+            formData.append('file', new Blob([content], { type: 'text/plain' }), filename);
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/upload-single`, {
+                method: 'POST',
+                headers: authorize(token),
+                body: formData,
+            });
+            return (await promise.json()) as { fileName: string; sha256: string };
+        };
+
+        const fetchFile = async (filename: string, token: string) => {
+            const promise = await fetch(`http://localhost:${TESTING_PORT}/api/files`, { headers: authorize(token) });
+            const { files } = (await promise.json()) as { files: ProcessedFile[] };
+            return files.find((file) => file.name === filename);
+        };
+
+        beforeAll(() => {
+            registerProcessor({
+                name: 'test-shout',
+                changesContent: true,
+                process: async ({ read }) => {
+                    const content = await text(await read());
+                    return { result: { shouted: true }, content: Readable.from([content.toUpperCase()]) };
+                },
+            });
+            registerProcessor({
+                name: 'test-failing',
+                process: () => Promise.reject(new Error('The processor broke')),
+            });
+        });
+
+        beforeEach(() => {
+            // Every test stores into namespaces of its own, which start out empty
+            process.env.AUTH_REQUIRED = 'true';
+        });
+
+        afterEach(() => {
+            process.env.AUTH_REQUIRED = 'false';
+            process.env.UPLOAD_PROCESSORS = '';
+        });
+
+        it('should process uploads in the background and save the results with the file', async () => {
+            process.env.UPLOAD_PROCESSORS = 'mime-type,hash,image-size,line-count';
+            const { token } = await issueToken('processing-alice');
+
+            const { fileName } = await upload('processed.txt', 'Hello\nfrom Frontify!', token);
+            await waitForProcessing();
+
+            expect(await fetchFile(fileName, token)).toHaveProperty('processing', {
+                status: 'done',
+                results: {
+                    'mime-type': { mimeType: null },
+                    hash: {
+                        md5: createHash('md5').update('Hello\nfrom Frontify!').digest('hex'),
+                        sha1: createHash('sha1').update('Hello\nfrom Frontify!').digest('hex'),
+                    },
+                    'line-count': { lines: 2 },
+                },
+                errors: {},
+            });
+
+            // Without processors, files are not processed at all
+            process.env.UPLOAD_PROCESSORS = '';
+            await upload('unprocessed.txt', 'Hello', token);
+            expect(await fetchFile('unprocessed.txt', token)).not.toHaveProperty('processing');
+        });
+
+        it('should replace the content and keep the results of the processors that did not fail', async () => {
+            process.env.UPLOAD_PROCESSORS = 'test-shout,test-failing,line-count';
+            const { token } = await issueToken('processing-bob');
+
+            const uploaded = await upload('shouted.txt', 'Hello from Frontify!', token);
+            await waitForProcessing();
+
+            const file = await fetchFile('shouted.txt', token);
+            expect(file).toMatchObject({
+                sha256: sha256('HELLO FROM FRONTIFY!'),
+                processing: {
+                    status: 'failed',
+                    results: { 'test-shout': { shouted: true }, 'line-count': { lines: 1 } },
+                    errors: { 'test-failing': 'The processor broke' },
+                },
+            });
+            expect(uploaded.sha256).toBe(sha256('Hello from Frontify!'));
+
+            const download = await fetch(`http://localhost:${TESTING_PORT}/api/files/shouted.txt`, {
+                headers: authorize(token),
+            });
+            expect(await download.text()).toBe('HELLO FROM FRONTIFY!');
+        });
+    });
 });
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { isStoredFilePath, resolveFileName, sanitizeFileName, sanitizeFilePath } from '../files';
+
+describe('sanitizeFileName', () => {
+    it('should keep safe file names untouched', () => {
+        expect(sanitizeFileName('hello from Frontify.txt')).toBe('hello from Frontify.txt');
+    });
+
+    it('should strip directories', () => {
+        expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+        expect(sanitizeFileName('..\\..\\windows\\system.ini')).toBe('system.ini');
+        expect(sanitizeFileName('..')).toBeNull();
+    });
+
+    it('should replace control and reserved characters', () => {
+        expect(sanitizeFileName('a<b>c:d"e|f?g*h\u0000.txt')).toBe('a_b_c_d_e_f_g_h_.txt');
+    });
+
+    it('should not allow hidden files and trailing dots', () => {
+        expect(sanitizeFileName('.env')).toBe('env');
+        expect(sanitizeFileName('  report.pdf. . ')).toBe('report.pdf');
+    });
+
+    it('should normalize unicode', () => {
+        expect(sanitizeFileName('cafe\u0301.txt')).toBe('caf\u00E9.txt');
+    });
+
+    it('should escape reserved Windows names', () => {
+        expect(sanitizeFileName('CON')).toBe('_CON');
+        expect(sanitizeFileName('nul.tar.gz')).toBe('_nul.tar.gz');
+        expect(sanitizeFileName('console.log')).toBe('console.log');
+    });
+
+    it('should truncate long names but keep the extension', () => {
+        const fileName = sanitizeFileName(`${'ä'.repeat(200)}.txt`) ?? '';
+        expect(Buffer.byteLength(fileName)).toBeLessThanOrEqual(255);
+        expect(fileName.endsWith('.txt')).toBe(true);
+    });
+});
+
+describe('sanitizeFilePath', () => {
+    it('should keep the directories of a relative path', () => {
+        expect(sanitizeFilePath('photos/2024/beach.jpg')).toBe('photos/2024/beach.jpg');
+        expect(sanitizeFilePath('photos\\2024\\beach.jpg')).toBe('photos/2024/beach.jpg');
+    });
+
+    it('should not lead out of the upload folder', () => {
+        expect(sanitizeFilePath('../../etc/passwd')).toBe('etc/passwd');
+        expect(sanitizeFilePath('/photos/./beach.jpg')).toBe('photos/beach.jpg');
+        expect(sanitizeFilePath('photos/..')).toBeNull();
+    });
+
+    it('should sanitize every segment', () => {
+        expect(sanitizeFilePath('.git/CON/a:b.txt')).toBe('git/_CON/a_b.txt');
+    });
+
+    it('should reject deeply nested paths', () => {
+        expect(sanitizeFilePath(`${'a/'.repeat(40)}b.txt`)).toBeNull();
+    });
+});
+
+describe('isStoredFilePath', () => {
+    it('should only accept sanitized paths', () => {
+        expect(isStoredFilePath('hello.txt')).toBe(true);
+        expect(isStoredFilePath('photos/hello.txt')).toBe(true);
+        expect(isStoredFilePath('../hello.txt')).toBe(false);
+        expect(isStoredFilePath('photos//hello.txt')).toBe(false);
+        expect(isStoredFilePath('.gitkeep')).toBe(false);
+        expect(isStoredFilePath(undefined)).toBe(false);
+    });
+});
+
+describe('resolveFileName', () => {
+    const fileNames = { 'hello.txt': true, 'hello (1).txt': true, 'photos/beach.jpg': true };
+
+    it('should resolve collisions with the policy', () => {
+        expect(resolveFileName(fileNames, 'new.txt', 'reject')).toBe('new.txt');
+        expect(resolveFileName(fileNames, 'hello.txt', 'rename')).toBe('hello (2).txt');
+        expect(resolveFileName(fileNames, 'hello.txt', 'overwrite')).toBe('hello.txt');
+        expect(() => resolveFileName(fileNames, 'hello.txt', 'reject')).toThrow('hello.txt already exists');
+    });
+
+    it('should not use names that directories are in the way of', () => {
+        expect(() => resolveFileName(fileNames, 'photos', 'overwrite')).toThrow('Directories are in the way');
+        expect(() => resolveFileName(fileNames, 'hello.txt/nested.txt', 'rename')).toThrow(
+            'Directories are in the way'
+        );
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+
+import { getUsage, parseArchiveSelection, parseListQuery, queryFiles, selectFiles, type ListQuery } from '../listing';
+import { type FileMetadata } from '../metadata';
+
+const createFile = (name: string, size: number, uploadedAt: string): FileMetadata => ({
+    name,
+    size,
+    mimeType: 'application/octet-stream',
+    uploadedAt,
+    originalName: name,
+    sha256: name,
+    tags: [],
+    description: '',
+    version: 1,
+    previousVersions: [],
+});
+
+const files = [
+    createFile('b.png', 300, '2024-01-02T00:00:00.000Z'),
+    createFile('a.txt', 100, '2024-01-03T00:00:00.000Z'),
+    createFile('c.PNG', 200, '2024-01-01T00:00:00.000Z'),
+    createFile('report.pdf', 5000, '2024-01-04T00:00:00.000Z'),
+];
+
+const query = (parameters: Record<string, string>) => {
+    const parsed = parseListQuery(parameters);
+    if (typeof parsed === 'string') {
+        throw new TypeError(parsed);
+    }
+    return parsed;
+};
+
+const names = (listQuery: ListQuery) => queryFiles(files, listQuery).files.map((file) => file.name);
+
+describe('parseListQuery', () => {
+    it('should fall back to the defaults', () => {
+        expect(parseListQuery({})).toEqual({
+            sort: 'name',
+            order: 'asc',
+            offset: 0,
+            limit: 100,
+            directory: '',
+            recursive: true,
+        });
+    });
+
+    it('should reject invalid parameters', () => {
+        expect(parseListQuery({ sort: 'owner' })).toEqual(expect.any(String));
+        expect(parseListQuery({ order: 'up' })).toEqual(expect.any(String));
+        expect(parseListQuery({ offset: '-1' })).toEqual(expect.any(String));
+        expect(parseListQuery({ limit: '0' })).toEqual(expect.any(String));
+        expect(parseListQuery({ limit: '5000' })).toEqual(expect.any(String));
+        expect(parseListQuery({ minSize: '1kb' })).toEqual(expect.any(String));
+        expect(parseListQuery({ dir: '../etc' })).toEqual(expect.any(String));
+        expect(parseListQuery({ recursive: 'yes' })).toEqual(expect.any(String));
+    });
+
+    it('should normalize the extensions', () => {
+        expect(query({ ext: '.PNG, txt,' }).extensions).toEqual(['png', 'txt']);
+    });
+});
+
+describe('queryFiles', () => {
+    it('should sort by name, size or date', () => {
+        expect(names(query({}))).toEqual(['a.txt', 'b.png', 'c.PNG', 'report.pdf']);
+        expect(names(query({ sort: 'size', order: 'desc' }))).toEqual(['report.pdf', 'b.png', 'c.PNG', 'a.txt']);
+        expect(names(query({ sort: 'date' }))).toEqual(['c.PNG', 'b.png', 'a.txt', 'report.pdf']);
+    });
+
+    it('should filter by name, extension and size', () => {
+        expect(names(query({ q: 'REP' }))).toEqual(['report.pdf']);
+        expect(names(query({ ext: 'png' }))).toEqual(['b.png', 'c.PNG']);
+        expect(names(query({ minSize: '200', maxSize: '300' }))).toEqual(['b.png', 'c.PNG']);
+    });
+
+    it('should list one directory or all of its files', () => {
+        const nestedFiles = [
+            ...files,
+            createFile('photos/beach.jpg', 100, '2024-01-05T00:00:00.000Z'),
+            createFile('photos/2024/city.jpg', 100, '2024-01-06T00:00:00.000Z'),
+            createFile('photos-old.zip', 100, '2024-01-07T00:00:00.000Z'),
+        ];
+        const list = (parameters: Record<string, string>) => {
+            const page = queryFiles(nestedFiles, query(parameters));
+            return { files: page.files.map((file) => file.name), directories: page.directories };
+        };
+
+        expect(list({ recursive: 'false' })).toEqual({
+            files: ['a.txt', 'b.png', 'c.PNG', 'photos-old.zip', 'report.pdf'],
+            directories: ['photos'],
+        });
+        expect(list({ dir: 'photos', recursive: 'false' })).toEqual({
+            files: ['photos/beach.jpg'],
+            directories: ['2024'],
+        });
+        expect(list({ dir: 'photos' })).toEqual({
+            files: ['photos/2024/city.jpg', 'photos/beach.jpg'],
+            directories: ['2024'],
+        });
+    });
+
+    it('should paginate the matching files', () => {
+        const page = queryFiles(files, query({ offset: '1', limit: '2' }));
+        expect(page.files.map((file) => file.name)).toEqual(['b.png', 'c.PNG']);
+        expect(page).toMatchObject({ total: 4, offset: 1, limit: 2 });
+    });
+});
+
+describe('getUsage', () => {
+    it('should count the content shared by files once', () => {
+        const copy = { ...createFile('b-copy.png', 300, '2024-01-05T00:00:00.000Z'), sha256: 'b.png' };
+        expect(getUsage([...files, copy])).toEqual({ logicalSize: 5900, diskUsage: 5600 });
+    });
+
+    it('should count the content of previous versions on disk only', () => {
+        const previous = { ...createFile('a.txt', 50, '2024-01-01T00:00:00.000Z'), sha256: 'a-1' };
+        const versioned = { ...files[1], version: 2, previousVersions: [{ ...previous, version: 1 }] };
+        expect(getUsage([versioned])).toEqual({ logicalSize: 100, diskUsage: 150 });
+    });
+});
+
+describe('parseArchiveSelection', () => {
+    it('should accept single and repeated parameters', () => {
+        expect(parseArchiveSelection({ files: 'a.txt' })).toEqual({ names: ['a.txt'], directories: [] });
+        expect(parseArchiveSelection({ files: ['a.txt', 'b.png'], dir: 'photos' })).toEqual({
+            names: ['a.txt', 'b.png'],
+            directories: ['photos'],
+        });
+    });
+
+    it('should reject invalid paths and empty selections', () => {
+        expect(parseArchiveSelection({ files: '../a.txt' })).toEqual(expect.any(String));
+        expect(parseArchiveSelection({ dir: '' })).toEqual(expect.any(String));
+        expect(parseArchiveSelection({})).toEqual(expect.any(String));
+    });
+});
+
+describe('selectFiles', () => {
+    const nestedFiles = [
+        ...files,
+        createFile('photos/beach.jpg', 100, '2024-01-05T00:00:00.000Z'),
+        createFile('photos/2024/city.jpg', 100, '2024-01-06T00:00:00.000Z'),
+        createFile('photos-old.zip', 100, '2024-01-07T00:00:00.000Z'),
+    ];
+    const select = (names: string[], directories: string[]) =>
+        selectFiles(nestedFiles, { names, directories })?.map((file) => file.name);
+
+    it('should select named files and every file of a directory once', () => {
+        expect(select(['photos/beach.jpg', 'a.txt'], ['photos'])).toEqual([
+            'a.txt',
+            'photos/2024/city.jpg',
+            'photos/beach.jpg',
+        ]);
+    });
+
+    it('should fail for unknown files and directories', () => {
+        expect(selectFiles(nestedFiles, { names: ['missing.txt'], directories: [] })).toBeNull();
+        expect(selectFiles(nestedFiles, { names: [], directories: ['photos-old'] })).toBeNull();
+    });
+});
@@ -0,0 +1,50 @@
+import { createHash } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { receiveBlob } from '../blobs';
+import { addFile, getMetadata, listMetadata, removeFile } from '../metadata';
+import { createMemoryStorages, setStorages } from '../storage';
+
+const storages = createMemoryStorages();
+
+describe('metadata', () => {
+    beforeAll(() => {
+        setStorages(storages);
+    });
+
+    it('should keep the blobs when the metadata cannot be read', async () => {
+        const sha256 = createHash('sha256').update('Hello').digest('hex');
+        await storages.blobs.put(`${sha256.slice(0, 2)}/${sha256}`, Readable.from(['Hello']));
+        await storages.data.put('metadata.json', Readable.from(['{"hello.txt": {']));
+
+        await expect(listMetadata('')).rejects.toThrow(SyntaxError);
+        expect(await storages.blobs.stat(`${sha256.slice(0, 2)}/${sha256}`)).not.toBeNull();
+        expect(await text(await storages.data.get('metadata.json'))).toBe('{"hello.txt": {');
+        // So the store loads for the tests after
+        await storages.data.delete('metadata.json');
+    });
+
+    it('should keep the metadata as it was when storing an update fails', async () => {
+        const received = await receiveBlob(Readable.from(['Hello again']));
+        const file = await addFile('', 'hello-again.txt', received, 'rename', {
+            mimeType: 'text/plain',
+            originalName: 'hello-again.txt',
+        });
+
+        const put = vi.spyOn(storages.data, 'put').mockRejectedValue(new Error('Disk full'));
+        try {
+            await expect(removeFile('', 'hello-again.txt')).rejects.toThrow('Disk full');
+        } finally {
+            put.mockRestore();
+        }
+        expect(await getMetadata('', 'hello-again.txt')).toEqual(file);
+        expect(await storages.blobs.stat(`${file.sha256.slice(0, 2)}/${file.sha256}`)).not.toBeNull();
+
+        // Still referenced once, so removing the file again deletes its content
+        expect(await removeFile('', 'hello-again.txt')).toBe(true);
+        expect(await storages.blobs.stat(`${file.sha256.slice(0, 2)}/${file.sha256}`)).toBeNull();
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+
+import { type FileMetadata } from '../metadata';
+import { checkFileSize, checkFileType, checkStorageLimits, getUploadPolicy, sniffMimeType } from '../policy';
+
+const createFile = (name: string, size: number): FileMetadata => ({
+    name,
+    size,
+    mimeType: 'application/octet-stream',
+    uploadedAt: '2024-01-01T00:00:00.000Z',
+    originalName: name,
+    sha256: name,
+    tags: [],
+    description: '',
+    version: 1,
+    previousVersions: [],
+});
+
+describe('getUploadPolicy', () => {
+    it('allows everything without configuration', () => {
+        expect(getUploadPolicy({})).toEqual({
+            allowedMimeTypes: [],
+            allowedExtensions: [],
+            maxFileSize: null,
+            maxTotalSize: null,
+            maxFileCount: null,
+        });
+    });
+
+    it('parses lists and limits', () => {
+        expect(
+            getUploadPolicy({
+                UPLOAD_ALLOWED_TYPES: 'image/*, application/PDF',
+                UPLOAD_ALLOWED_EXTENSIONS: 'png,.Pdf',
+                UPLOAD_MAX_FILE_SIZE: '1024',
+                UPLOAD_MAX_TOTAL_SIZE: 'a lot',
+                UPLOAD_MAX_FILE_COUNT: '10',
+            })
+        ).toEqual({
+            allowedMimeTypes: ['image/*', 'application/pdf'],
+            allowedExtensions: ['.png', '.pdf'],
+            maxFileSize: 1024,
+            maxTotalSize: null,
+            maxFileCount: 10,
+        });
+    });
+});
+
+describe('sniffMimeType', () => {
+    it('recognizes files from their first bytes', () => {
+        expect(sniffMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+        expect(sniffMimeType(Buffer.from('MZ\u0090\u0000', 'latin1'))).toBe('application/x-msdownload');
+        expect(sniffMimeType(Buffer.from('RIFF\u0000\u0000\u0000\u0000WEBPVP8 ', 'latin1'))).toBe('image/webp');
+    });
+
+    it('does not recognize plain text', () => {
+        expect(sniffMimeType(Buffer.from('Hello from Frontify!'))).toBeUndefined();
+        expect(sniffMimeType(Buffer.alloc(0))).toBeUndefined();
+    });
+});
+
+describe('checkFileType', () => {
+    const policy = getUploadPolicy({ UPLOAD_ALLOWED_TYPES: 'image/*', UPLOAD_ALLOWED_EXTENSIONS: 'png,jpg' });
+
+    it('accepts allowed files', () => {
+        expect(checkFileType(policy, 'photos/beach.PNG', { mimeType: 'image/png' })).toBeNull();
+    });
+
+    it('rejects other extensions', () => {
+        expect(checkFileType(policy, 'setup.exe', { mimeType: 'application/octet-stream' })).toEqual(
+            expect.objectContaining({ status: 415, code: 'UNSUPPORTED_FILE_TYPE' })
+        );
+        expect(checkFileType(policy, 'README', { mimeType: 'application/octet-stream' })).toHaveProperty('status', 415);
+    });
+
+    it('trusts the content over the extension', () => {
+        expect(
+            checkFileType(policy, 'setup.png', { mimeType: 'image/png', sniffedMimeType: 'application/x-msdownload' })
+        ).toEqual({
+            status: 415,
+            error: 'Files of type application/x-msdownload are not allowed.',
+            code: 'UNSUPPORTED_FILE_TYPE',
+        });
+    });
+
+    it('checks the content against the extension when only extensions are allowed', () => {
+        const extensionPolicy = getUploadPolicy({ UPLOAD_ALLOWED_EXTENSIONS: 'png,bin' });
+        expect(
+            checkFileType(extensionPolicy, 'setup.png', {
+                mimeType: 'image/png',
+                sniffedMimeType: 'application/x-msdownload',
+            })
+        ).toEqual({
+            status: 415,
+            error: 'Files of type application/x-msdownload are not allowed as .png files.',
+            code: 'UNSUPPORTED_FILE_TYPE',
+        });
+        expect(
+            checkFileType(extensionPolicy, 'logo.png', { mimeType: 'image/png', sniffedMimeType: 'image/png' })
+        ).toBeNull();
+        // The extension tells nothing about the content
+        expect(
+            checkFileType(extensionPolicy, 'data.bin', {
+                mimeType: 'application/octet-stream',
+                sniffedMimeType: 'application/zip',
+            })
+        ).toBeNull();
+    });
+});
+
+describe('checkFileSize', () => {
+    it('rejects files above the limit', () => {
+        const policy = getUploadPolicy({ UPLOAD_MAX_FILE_SIZE: '10' });
+        expect(checkFileSize(policy, 10)).toBeNull();
+        expect(checkFileSize(policy, 11)).toEqual(expect.objectContaining({ status: 413, code: 'FILE_TOO_LARGE' }));
+    });
+});
+
+describe('checkStorageLimits', () => {
+    const files = [createFile('a.txt', 40), createFile('b.txt', 50)];
+
+    it('limits the number of files', () => {
+        const policy = getUploadPolicy({ UPLOAD_MAX_FILE_COUNT: '2' });
+        expect(checkStorageLimits(policy, files, { size: 1 })).toEqual(
+            expect.objectContaining({ status: 413, code: 'TOO_MANY_FILES' })
+        );
+        expect(checkStorageLimits(policy, files, { size: 1, replaces: files[0] })).toBeNull();
+    });
+
+    it('limits the size of all files together', () => {
+        const policy = getUploadPolicy({ UPLOAD_MAX_TOTAL_SIZE: '100' });
+        expect(checkStorageLimits(policy, files, { size: 10 })).toBeNull();
+        expect(checkStorageLimits(policy, files, { size: 11 })).toEqual(
+            expect.objectContaining({ status: 413, code: 'TOTAL_SIZE_EXCEEDED' })
+        );
+        expect(checkStorageLimits(policy, files, { size: 50, replaces: files[0] })).toBeNull();
+    });
+});
@@ -0,0 +1,166 @@
+import { Readable } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+
+import { describe, expect, it } from 'vitest';
+
+import { getEnabledProcessors, type ProcessorInput } from '../processing';
+import {
+    exifGpsProcessor,
+    getImageSize,
+    hashProcessor,
+    imageSizeProcessor,
+    lineCountProcessor,
+    mimeTypeProcessor,
+    removeGpsInfo,
+} from '../processors';
+
+// The latitude 47° 22' 30", as EXIF rationals
+const LATITUDE = [47, 1, 22, 1, 3000, 100];
+
+/**
+ * A JPEG header with a start of frame of 32×16 pixels, and with EXIF data whose GPS directory holds the latitude.
+ * Little endian, directories follow each other: the first one at 8, the GPS one at 26, its latitude at 44.
+ */
+const createJpeg = () => {
+    const tiff = Buffer.alloc(68);
+    tiff.write('II', 0, 'latin1');
+    tiff.writeUInt16LE(42, 2);
+    tiff.writeUInt32LE(8, 4);
+    tiff.writeUInt16LE(1, 8);
+    tiff.writeUInt16LE(0x88_25, 10);
+    tiff.writeUInt16LE(4, 12);
+    tiff.writeUInt32LE(1, 14);
+    tiff.writeUInt32LE(26, 18);
+    tiff.writeUInt16LE(1, 26);
+    tiff.writeUInt16LE(2, 28);
+    tiff.writeUInt16LE(5, 30);
+    tiff.writeUInt32LE(3, 32);
+    tiff.writeUInt32LE(44, 36);
+    for (const [index, value] of LATITUDE.entries()) {
+        tiff.writeUInt32LE(value, 44 + index * 4);
+    }
+
+    const app1 = Buffer.concat([
+        Buffer.from('\xFF\xE1\x00', 'latin1'),
+        Buffer.from([2 + 6 + tiff.length]),
+        Buffer.from('Exif\0\0'),
+        tiff,
+    ]);
+    // 8 bit samples, 16 pixels high and 32 wide, one component
+    const frame = Buffer.from('\xFF\xC0\x00\x0B\x08\x00\x10\x00\x20\x01\x01\x11\x00', 'latin1');
+    return Buffer.concat([Buffer.from('\xFF\xD8', 'latin1'), app1, frame, Buffer.from('\xFF\xD9', 'latin1')]);
+};
+
+const createPng = (width: number, height: number) => {
+    const header = Buffer.alloc(24);
+    header.write('\x89PNG\r\n\x1A\n', 0, 'latin1');
+    header.write('IHDR', 12, 'latin1');
+    header.writeUInt32BE(width, 16);
+    header.writeUInt32BE(height, 20);
+    return header;
+};
+
+const createInput = (content: Buffer, mimeType = 'application/octet-stream'): ProcessorInput => ({
+    file: {
+        name: 'file',
+        size: content.length,
+        mimeType,
+        uploadedAt: new Date().toISOString(),
+        originalName: 'file',
+        sha256: '',
+        tags: [],
+        description: '',
+        version: 1,
+        previousVersions: [],
+    },
+    size: content.length,
+    read: (range) => Promise.resolve(Readable.from([range ? content.subarray(range.start, range.end + 1) : content])),
+});
+
+describe('getEnabledProcessors', () => {
+    it('enables every processor that leaves the content as it is unless they are named', () => {
+        expect(getEnabledProcessors({}).map(({ name }) => name)).toEqual([
+            'mime-type',
+            'hash',
+            'image-size',
+            'line-count',
+        ]);
+        expect(getEnabledProcessors({ UPLOAD_PROCESSORS: 'exif-gps,hash' }).map(({ name }) => name)).toEqual([
+            'exif-gps',
+            'hash',
+        ]);
+        expect(getEnabledProcessors({ UPLOAD_PROCESSORS: 'line-count, unknown,hash' }).map(({ name }) => name)).toEqual(
+            ['line-count', 'hash']
+        );
+        expect(getEnabledProcessors({ UPLOAD_PROCESSORS: '' })).toEqual([]);
+    });
+});
+
+describe('processors', () => {
+    it('tells the type and the digests of the content', async () => {
+        const input = createInput(createPng(1, 1));
+
+        await expect(mimeTypeProcessor.process(input)).resolves.toEqual({ result: { mimeType: 'image/png' } });
+        await expect(mimeTypeProcessor.process(createInput(Buffer.from('Hello')))).resolves.toEqual({
+            result: { mimeType: null },
+        });
+        await expect(hashProcessor.process(createInput(Buffer.from('Hello')))).resolves.toEqual({
+            result: {
+                md5: '8b1a9953c4611296a827abf8c47804d7',
+                sha1: 'f7ff9e8b7bb2e09b70935a5d785e0cc5d9d0abf0',
+            },
+        });
+    });
+
+    it('reads the size of images from their header', async () => {
+        const gif = Buffer.from('GIF89a\x40\x01\xF0\x00', 'latin1');
+        const webp = Buffer.alloc(30);
+        webp.write('RIFF', 0, 'latin1');
+        webp.write('WEBPVP8X', 8, 'latin1');
+        webp.writeUIntLE(639, 24, 3);
+        webp.writeUIntLE(479, 27, 3);
+
+        expect(getImageSize('image/png', createPng(800, 600))).toEqual({ width: 800, height: 600 });
+        expect(getImageSize('image/gif', gif)).toEqual({ width: 320, height: 240 });
+        expect(getImageSize('image/webp', webp)).toEqual({ width: 640, height: 480 });
+        expect(getImageSize('image/jpeg', createJpeg())).toEqual({ width: 32, height: 16 });
+
+        await expect(imageSizeProcessor.process(createInput(createJpeg()))).resolves.toEqual({
+            result: { width: 32, height: 16 },
+        });
+        await expect(imageSizeProcessor.process(createInput(Buffer.from('Hello')))).resolves.toBeNull();
+        await expect(
+            imageSizeProcessor.process(createInput(Buffer.from('\x89PNG\r\n\x1A\n', 'latin1')))
+        ).rejects.toThrow('has no size');
+    });
+
+    it('removes the location from the EXIF data of photos', async () => {
+        const jpeg = createJpeg();
+        const output = await exifGpsProcessor.process(createInput(jpeg));
+
+        expect(output).toHaveProperty('result', { removed: true });
+        const stripped = await buffer(output?.content ?? Readable.from([]));
+        expect(stripped).toHaveLength(jpeg.length);
+        // Only the GPS directory and the values it points to are blanked
+        expect(stripped.readUInt32LE(2 + 4 + 6 + 44)).toBe(0);
+        expect(stripped.readUInt16LE(2 + 4 + 6 + 26)).toBe(0);
+        expect(stripped.subarray(0, 2 + 4 + 6 + 26)).toEqual(jpeg.subarray(0, 2 + 4 + 6 + 26));
+        expect(getImageSize('image/jpeg', stripped)).toEqual({ width: 32, height: 16 });
+
+        expect(removeGpsInfo(Buffer.from(stripped))).toBe(false);
+        await expect(exifGpsProcessor.process(createInput(createPng(1, 1)))).resolves.toBeNull();
+    });
+
+    it('counts the lines of text files only', async () => {
+        const count = async (content: string, mimeType = 'text/plain') => {
+            const output = await lineCountProcessor.process(createInput(Buffer.from(content), mimeType));
+            return output?.result;
+        };
+
+        await expect(count('one\ntwo\nthree')).resolves.toEqual({ lines: 3 });
+        await expect(count('one\ntwo\n')).resolves.toEqual({ lines: 2 });
+        await expect(count('')).resolves.toEqual({ lines: 0 });
+        await expect(count('{}\n', 'application/json')).resolves.toEqual({ lines: 1 });
+        await expect(count('one\ntwo', 'image/png')).resolves.toBeUndefined();
+    });
+});
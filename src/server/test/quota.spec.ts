@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkQuota, getAvailableBytes, getNamespaceQuota, getQuotaPolicy, type QuotaUsage } from '../quota';
+
+const createUsage = (usedBytes: number, quotaBytes: number | null, reservedBytes = 0): QuotaUsage => ({
+    usedBytes,
+    reservedBytes,
+    quotaBytes,
+    availableBytes: quotaBytes === null ? null : Math.max(0, quotaBytes - usedBytes - reservedBytes),
+    fileCount: 1,
+});
+
+describe('getQuotaPolicy', () => {
+    it('has no quotas without configuration', () => {
+        expect(getQuotaPolicy({})).toEqual({ totalBytes: null, namespaceBytes: null, namespaces: {} });
+    });
+
+    it('parses the quotas of single namespaces', () => {
+        const policy = getQuotaPolicy({
+            QUOTA_TOTAL_BYTES: '1000',
+            QUOTA_NAMESPACE_BYTES: '100',
+            QUOTA_NAMESPACES: 'alice=50, bob = 0,carol=lots,=10',
+        });
+
+        expect(policy).toEqual({ totalBytes: 1000, namespaceBytes: 100, namespaces: { alice: 50, bob: 0 } });
+        expect(getNamespaceQuota(policy, 'alice')).toBe(50);
+        expect(getNamespaceQuota(policy, 'bob')).toBe(0);
+        expect(getNamespaceQuota(policy, 'carol')).toBe(100);
+    });
+});
+
+describe('checkQuota', () => {
+    it('accepts uploads that fit both quotas', () => {
+        const status = { namespace: createUsage(60, 100, 20), total: createUsage(500, null) };
+
+        expect(checkQuota(status, 20)).toBeNull();
+        expect(getAvailableBytes(status)).toBe(20);
+        expect(getAvailableBytes({ namespace: createUsage(0, null), total: createUsage(0, null) })).toBeNull();
+    });
+
+    it('rejects uploads exceeding the quota of the namespace or of all namespaces', () => {
+        expect(checkQuota({ namespace: createUsage(60, 100, 20), total: createUsage(500, null) }, 21)).toEqual({
+            status: 413,
+            error: 'The upload exceeds your storage quota, 20 of 100 bytes are left.',
+            code: 'QUOTA_EXCEEDED',
+        });
+
+        const status = { namespace: createUsage(0, 100), total: createUsage(990, 1000) };
+        expect(getAvailableBytes(status)).toBe(10);
+        expect(checkQuota(status, 20)).toHaveProperty('code', 'QUOTA_EXCEEDED');
+        // Content other namespaces stored already takes no more bytes of the storage
+        expect(checkQuota(status, 20, 0)).toBeNull();
+    });
+});
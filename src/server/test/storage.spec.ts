@@ -0,0 +1,136 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { createDiskStorage, createMemoryStorage, type StorageAdapter } from '../storage';
+
+const rootDir = mkdtempSync(join(tmpdir(), 'storage-spec-'));
+
+afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+});
+
+const drivers: [string, () => StorageAdapter][] = [
+    ['disk', () => createDiskStorage(mkdtempSync(join(rootDir, 'disk-')))],
+    ['memory', createMemoryStorage],
+];
+
+const read = async (storage: StorageAdapter, key: string, range?: { start: number; end: number }) =>
+    text(await storage.get(key, range));
+
+describe.each(drivers)('%s storage', (_name, createStorage) => {
+    it('should store and read entries', async () => {
+        const storage = createStorage();
+        await storage.put('hello.txt', Readable.from(['Hello ', 'from Frontify!']));
+
+        expect(await read(storage, 'hello.txt')).toBe('Hello from Frontify!');
+        expect(await read(storage, 'hello.txt', { start: 6, end: 9 })).toBe('from');
+        expect(await storage.stat('hello.txt')).toEqual({
+            key: 'hello.txt',
+            size: 20,
+            modifiedAt: expect.any(Date) as Date,
+        });
+    });
+
+    it('should report missing entries', async () => {
+        const storage = createStorage();
+
+        expect(await storage.stat('missing.txt')).toBeNull();
+        expect(await storage.delete('missing.txt')).toBe(false);
+        await expect(storage.get('missing.txt')).rejects.toHaveProperty('code', 'ENOENT');
+        await expect(storage.move('missing.txt', 'moved.txt')).rejects.toHaveProperty('code', 'ENOENT');
+    });
+
+    it('should only replace entries when allowed', async () => {
+        const storage = createStorage();
+        await storage.put('hello.txt', Readable.from(['Hello']));
+
+        await expect(storage.put('hello.txt', Readable.from(['Bye']), { exclusive: true })).rejects.toHaveProperty(
+            'code',
+            'EEXIST'
+        );
+        expect(await read(storage, 'hello.txt')).toBe('Hello');
+
+        await storage.put('hello.txt', Readable.from(['Bye']));
+        expect(await read(storage, 'hello.txt')).toBe('Bye');
+    });
+
+    it('should keep keys a tree', async () => {
+        const storage = createStorage();
+        await storage.put('photos/beach.jpg', Readable.from(['Beach']));
+        await storage.put('file.txt', Readable.from(['File']));
+
+        await expect(storage.put('photos', Readable.from(['Photos']))).rejects.toHaveProperty('code', 'EEXIST');
+        await expect(storage.put('file.txt/nested.txt', Readable.from(['Nested']))).rejects.toHaveProperty(
+            'code',
+            'EEXIST'
+        );
+        await expect(storage.move('file.txt', 'photos')).rejects.toHaveProperty('code', 'EEXIST');
+        expect(await storage.stat('photos')).toBeNull();
+    });
+
+    it('should list entries at any depth without hidden ones', async () => {
+        const storage = createStorage();
+        await storage.put('a.txt', Readable.from(['a']));
+        await storage.put('photos/2024/beach.jpg', Readable.from(['b']));
+        await storage.put('photos/.hidden.tmp', Readable.from(['c']));
+
+        const entries = await storage.list();
+        expect(entries.map(({ key }) => key).sort()).toEqual(['a.txt', 'photos/2024/beach.jpg']);
+
+        const photos = await storage.list('photos');
+        expect(photos.map(({ key }) => key)).toEqual(['photos/2024/beach.jpg']);
+        expect(await storage.list('missing')).toEqual([]);
+    });
+
+    it('should move entries', async () => {
+        const storage = createStorage();
+        await storage.put('a.txt', Readable.from(['a']));
+        await storage.put('b.txt', Readable.from(['b']));
+
+        await expect(storage.move('a.txt', 'b.txt')).rejects.toHaveProperty('code', 'EEXIST');
+        await storage.move('a.txt', 'nested/a.txt');
+        expect(await storage.stat('a.txt')).toBeNull();
+        expect(await read(storage, 'nested/a.txt')).toBe('a');
+
+        await storage.move('nested/a.txt', 'b.txt', { overwrite: true });
+        expect(await read(storage, 'b.txt')).toBe('a');
+        expect(await storage.list()).toHaveLength(1);
+    });
+
+    it('should not store anything when the source fails', async () => {
+        const storage = createStorage();
+        const source = new Readable({
+            read() {
+                this.destroy(new Error('Connection lost'));
+            },
+        });
+
+        await expect(storage.put('broken.txt', source)).rejects.toThrow('Connection lost');
+        expect(await storage.stat('broken.txt')).toBeNull();
+    });
+
+    it('should reject keys leading out of the storage', async () => {
+        const storage = createStorage();
+
+        await expect(storage.put('../escape.txt', Readable.from(['x']))).rejects.toThrow('Invalid storage key');
+        await expect(storage.stat('photos//beach.jpg')).rejects.toThrow('Invalid storage key');
+    });
+});
+
+describe('disk storage', () => {
+    it('should remove the directories left empty', async () => {
+        const directory = mkdtempSync(join(rootDir, 'cleanup-'));
+        const storage = createDiskStorage(directory);
+        await storage.put('photos/2024/beach.jpg', Readable.from(['Beach']));
+        await storage.move('photos/2024/beach.jpg', 'beach.jpg');
+        expect(readdirSync(directory)).toEqual(['beach.jpg']);
+
+        await storage.delete('beach.jpg');
+        expect(readdirSync(directory)).toEqual([]);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseByteCount, parseUploadChecksum, parseUploadMetadata } from '../tus';
+
+describe('parseUploadMetadata', () => {
+    it('should decode the values', () => {
+        expect(parseUploadMetadata('filename aGVsbG8udHh0,is_confidential')).toEqual({
+            filename: 'hello.txt',
+            is_confidential: '',
+        });
+        expect(parseUploadMetadata(undefined)).toEqual({});
+    });
+
+    it('should reject invalid metadata', () => {
+        expect(parseUploadMetadata('filename not base64!')).toBeNull();
+        expect(parseUploadMetadata('filename aGVsbG8udHh0,filename aGVsbG8udHh0')).toBeNull();
+        expect(parseUploadMetadata('filename a b')).toBeNull();
+    });
+});
+
+describe('parseUploadChecksum', () => {
+    it('should only accept the supported algorithms', () => {
+        expect(parseUploadChecksum('sha1 Kq5sNclPz7QV2+lfQIuc6R7oRu0=')).toEqual({
+            algorithm: 'sha1',
+            digest: 'Kq5sNclPz7QV2+lfQIuc6R7oRu0=',
+        });
+        expect(parseUploadChecksum('crc32 AAAA')).toBeNull();
+        expect(parseUploadChecksum('sha1')).toBeNull();
+    });
+});
+
+describe('parseByteCount', () => {
+    it('should only accept non-negative integers', () => {
+        expect(parseByteCount('0')).toBe(0);
+        expect(parseByteCount('1024')).toBe(1024);
+        expect(parseByteCount('-1')).toBeNull();
+        expect(parseByteCount('1.5')).toBeNull();
+        expect(parseByteCount(undefined)).toBeNull();
+    });
+});
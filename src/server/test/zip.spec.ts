@@ -0,0 +1,105 @@
+import { Readable } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+import { inflateRawSync } from 'node:zlib';
+
+import { describe, expect, it } from 'vitest';
+
+import { createZipArchive, type ZipEntry } from '../zip';
+
+type ReadEntry = { name: string; crc32: number; content: string; zip64: boolean };
+
+// Just enough of a ZIP reader to check the archives: the central directory, its ZIP64 records and the entries
+const readArchive = (archive: Buffer) => {
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).toBe(Number.parseInt('06054b50', 16));
+
+    let count = archive.readUInt16LE(end + 10);
+    let offset = archive.readUInt32LE(end + 16);
+    const isZip64 = offset === 2 ** 32 - 1;
+    if (isZip64) {
+        const locator = end - 20;
+        expect(archive.readUInt32LE(locator)).toBe(Number.parseInt('07064b50', 16));
+        const zip64End = Number(archive.readBigUInt64LE(locator + 8));
+        expect(archive.readUInt32LE(zip64End)).toBe(Number.parseInt('06064b50', 16));
+        count = Number(archive.readBigUInt64LE(zip64End + 32));
+        offset = Number(archive.readBigUInt64LE(zip64End + 48));
+    }
+
+    const entries: ReadEntry[] = [];
+    for (let index = 0; index < count; index++) {
+        expect(archive.readUInt32LE(offset)).toBe(Number.parseInt('02014b50', 16));
+        const crc32 = archive.readUInt32LE(offset + 16);
+        let compressedSize = archive.readUInt32LE(offset + 20);
+        let size = archive.readUInt32LE(offset + 24);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        let localOffset = archive.readUInt32LE(offset + 42);
+        const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        // The ZIP64 extra field holds the values that do not fit, in this order
+        const extra = offset + 46 + nameLength;
+        let position = extra + 4;
+        const readZip64 = (value: number) => {
+            if (value !== 2 ** 32 - 1) {
+                return value;
+            }
+            position += 8;
+            return Number(archive.readBigUInt64LE(position - 8));
+        };
+        size = readZip64(size);
+        compressedSize = readZip64(compressedSize);
+        localOffset = readZip64(localOffset);
+
+        expect(archive.readUInt32LE(localOffset)).toBe(Number.parseInt('04034b50', 16));
+        const dataOffset =
+            localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const content = inflateRawSync(archive.subarray(dataOffset, dataOffset + compressedSize));
+        expect(content).toHaveLength(size);
+
+        entries.push({ name, crc32, content: content.toString(), zip64: extraLength > 0 });
+        offset = extra + extraLength;
+    }
+    return { entries, isZip64 };
+};
+
+const createEntry = (name: string, content: string): ZipEntry => ({
+    name,
+    size: Buffer.byteLength(content),
+    modifiedAt: new Date('2024-01-01T12:00:00.000Z'),
+    open: () => Promise.resolve(Readable.from([Buffer.from(content)])),
+});
+
+const contents = {
+    'hello.txt': 'hello',
+    'photos/café.txt': 'Hello from Frontify! '.repeat(1000),
+    'empty.txt': '',
+};
+const entries = Object.entries(contents).map(([name, content]) => createEntry(name, content));
+
+describe('createZipArchive', () => {
+    it('should write every entry with its checksum', async () => {
+        const { entries: read, isZip64 } = readArchive(await buffer(createZipArchive(entries)));
+
+        expect(isZip64).toBe(false);
+        expect(Object.fromEntries(read.map(({ name, content }) => [name, content]))).toEqual(contents);
+        // CRC-32 of "hello" and of no data
+        expect(read[0].crc32).toBe(Number.parseInt('3610a686', 16));
+        expect(read[2].crc32).toBe(0);
+    });
+
+    it('should write the ZIP64 records for sizes and offsets reaching the limit', async () => {
+        const { entries: read, isZip64 } = readArchive(await buffer(createZipArchive(entries, { zip64Limit: 0 })));
+
+        expect(isZip64).toBe(true);
+        expect(read.every((entry) => entry.zip64)).toBe(true);
+        expect(read.map((entry) => entry.content)).toEqual(Object.values(contents));
+    });
+
+    it('should fail when an entry cannot be read', async () => {
+        const archive = createZipArchive([
+            createEntry('hello.txt', 'hello'),
+            { ...createEntry('gone.txt', ''), open: () => Promise.reject(new Error('Gone')) },
+        ]);
+        await expect(buffer(archive)).rejects.toThrow('Gone');
+    });
+});
@@ -0,0 +1,49 @@
+import { isUserName, issueToken, listTokens, revokeToken } from './auth';
+import { STORAGE_DRIVER } from './config';
+
+const USAGE = `Usage:
+  npm run tokens -- issue <user> [--admin]
+  npm run tokens -- list
+  npm run tokens -- revoke <id>`;
+
+// Issues and revokes tokens in the data folder, the running server picks the changes up on its next request
+const run = async ([command, ...args]: string[]) => {
+    if (STORAGE_DRIVER === 'memory') {
+        throw new Error(
+            'The `memory` storage driver keeps tokens in the server process, manage them with the `disk` driver'
+        );
+    }
+    if (command === 'issue' && isUserName(args[0]) && args.slice(1).every((arg) => arg === '--admin')) {
+        const { token, id } = await issueToken(args[0], { admin: args.includes('--admin') });
+        console.log(`Issued token ${id} for ${args[0]}, it is not shown again:\n${token}`);
+        return true;
+    }
+    if (command === 'list' && args.length === 0) {
+        for (const { id, user, admin, createdAt } of await listTokens()) {
+            console.log(`${id}  ${user}${admin ? ' (admin)' : ''}  issued ${createdAt}`);
+        }
+        return true;
+    }
+    if (command === 'revoke' && args.length === 1) {
+        if (await revokeToken(args[0])) {
+            console.log(`Revoked token ${args[0]}`);
+        } else {
+            console.error(`There is no token ${args[0]}`);
+            process.exitCode = 1;
+        }
+        return true;
+    }
+    return false;
+};
+
+run(process.argv.slice(2))
+    .then((isKnownCommand) => {
+        if (!isKnownCommand) {
+            console.error(USAGE);
+            process.exitCode = 1;
+        }
+    })
+    .catch((error: unknown) => {
+        console.error('Error managing tokens:', error);
+        process.exitCode = 1;
+    });
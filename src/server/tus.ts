@@ -0,0 +1,91 @@
+import { Transform } from 'node:stream';
+
+import { type NextFunction, type Request, type Response } from 'express';
+
+// See https://tus.io/protocols/resumable-upload
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'termination', 'checksum'];
+// The checksum extension requires `sha1`, the others are supported by Node.js as well
+export const TUS_CHECKSUM_ALGORITHMS = ['sha1', 'sha256', 'md5'];
+// Content type of the bytes sent by `PATCH` requests
+export const TUS_CONTENT_TYPE = 'application/offset+octet-stream';
+// Status the checksum extension responds with when the bytes do not match their checksum
+export const CHECKSUM_MISMATCH_STATUS = 460;
+
+// A `PATCH` request sent more bytes than the upload has left
+export const UPLOAD_LENGTH_EXCEEDED = 'UPLOAD_LENGTH_EXCEEDED';
+
+/**
+ * Answers every tus request with the protocol version, and refuses requests of other versions.
+ * `X-HTTP-Method-Override` replaces the method, for clients that cannot send `PATCH` or `DELETE`.
+ */
+export const tusProtocol = (req: Request, res: Response, next: NextFunction) => {
+    const methodOverride = req.get('X-HTTP-Method-Override');
+    if (methodOverride) {
+        req.method = methodOverride.toUpperCase();
+    }
+
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+    // Clients learn the supported versions through `OPTIONS`, which is the only request without a version
+    if (req.method !== 'OPTIONS' && req.get('Tus-Resumable') !== TUS_VERSION) {
+        res.setHeader('Tus-Version', TUS_VERSION);
+        return res.status(412).json({ error: `\`Tus-Resumable\` must be ${TUS_VERSION}.` });
+    }
+    next();
+};
+
+// `Upload-Length` and `Upload-Offset`, resolves to `null` when not a non-negative integer
+export const parseByteCount = (value: string | undefined) =>
+    value !== undefined && /^\d+$/.test(value) && Number.isSafeInteger(Number(value)) ? Number(value) : null;
+
+const BASE64_REGEX = /^[\d+/A-Za-z]*={0,2}$/;
+
+/**
+ * `Upload-Metadata` holds comma separated pairs of a key and its base64 encoded value, separated by a space.
+ * Values may be left out. Resolves to `null` when the header is not valid.
+ */
+export const parseUploadMetadata = (value: string | undefined): Record<string, string> | null => {
+    const metadata: Record<string, string> = {};
+    if (!value?.trim()) {
+        return metadata;
+    }
+
+    for (const pair of value.split(',')) {
+        const [key, encoded = '', ...rest] = pair.trim().split(' ');
+        if (!key || key in metadata || rest.length > 0 || !BASE64_REGEX.test(encoded)) {
+            return null;
+        }
+        metadata[key] = Buffer.from(encoded, 'base64').toString('utf8');
+    }
+    return metadata;
+};
+
+/**
+ * `Upload-Checksum` holds the algorithm and the base64 encoded digest of the sent bytes, separated by a space.
+ * Resolves to `null` when the header is not valid or the algorithm is not supported.
+ */
+export const parseUploadChecksum = (value: string) => {
+    const [algorithm, digest, ...rest] = value.trim().split(' ');
+    return TUS_CHECKSUM_ALGORITHMS.includes(algorithm) && digest && BASE64_REGEX.test(digest) && rest.length === 0
+        ? { algorithm, digest }
+        : null;
+};
+
+// Passes data through untouched, and fails once more than `maxBytes` passed
+export const createLengthLimitStream = (maxBytes: number) => {
+    let size = 0;
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            if (size > maxBytes) {
+                callback(
+                    Object.assign(new Error(`The upload has only ${maxBytes} bytes left`), {
+                        code: UPLOAD_LENGTH_EXCEEDED,
+                    })
+                );
+                return;
+            }
+            callback(null, chunk);
+        },
+    });
+};
@@ -0,0 +1,243 @@
+import { Readable, Transform } from 'node:stream';
+import { createDeflateRaw } from 'node:zlib';
+
+import { pipeThrough } from './blobs';
+
+export type ZipEntry = {
+    // Path inside the archive, separated by `/`
+    name: string;
+    size: number;
+    modifiedAt: Date;
+    open: () => Promise<Readable>;
+};
+
+// Sizes and offsets from this one on, and counts from `MAX_UINT16` on, only fit into the ZIP64 records
+export const ZIP64_LIMIT = 2 ** 32 - 1;
+const MAX_UINT16 = 2 ** 16 - 1;
+
+const signature = (hex: string) => Number.parseInt(hex, 16);
+const LOCAL_FILE_HEADER = signature('04034b50');
+const DATA_DESCRIPTOR = signature('08074b50');
+const CENTRAL_DIRECTORY_HEADER = signature('02014b50');
+const ZIP64_END_OF_CENTRAL_DIRECTORY = signature('06064b50');
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = signature('07064b50');
+const END_OF_CENTRAL_DIRECTORY = signature('06054b50');
+const ZIP64_EXTRA_FIELD = 1;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+// The sizes and the checksum follow the data, and names are UTF-8
+const FLAGS = 8 | 2048;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? (value >>> 1) ^ signature('edb88320') : value >>> 1;
+    }
+    return value >>> 0;
+});
+
+// Passes data through untouched while computing its CRC-32, which ZIP archives store for every entry
+const createCrc32Stream = () => {
+    let crc = ~0;
+    const stream = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            for (const byte of chunk) {
+                crc = CRC_TABLE[(crc ^ byte) & 255] ^ (crc >>> 8);
+            }
+            callback(null, chunk);
+        },
+    });
+    return { stream, getCrc32: () => ~crc >>> 0 };
+};
+
+// In local time, with a precision of two seconds, and nothing before 1980
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date:
+        date.getFullYear() < 1980
+            ? (1 << 5) | 1
+            : ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Writes the values one after the other, each taking as many bytes as given
+const pack = (...fields: [value: number, bytes: 2 | 4 | 8][]) => {
+    const buffer = Buffer.alloc(fields.reduce((total, [, bytes]) => total + bytes, 0));
+    let offset = 0;
+    for (const [value, bytes] of fields) {
+        if (bytes === 2) {
+            buffer.writeUInt16LE(value, offset);
+        } else if (bytes === 4) {
+            buffer.writeUInt32LE(value, offset);
+        } else {
+            buffer.writeBigUInt64LE(BigInt(value), offset);
+        }
+        offset += bytes;
+    }
+    return buffer;
+};
+
+type CentralDirectoryRecord = {
+    name: Buffer;
+    time: number;
+    date: number;
+    crc32: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+    zip64: boolean;
+};
+
+const writeCentralDirectoryHeader = (record: CentralDirectoryRecord, zip64Limit: number) => {
+    const { name, time, date, crc32, compressedSize, size, offset, zip64 } = record;
+    const zip64Offset = offset >= zip64Limit;
+    // Only the values that do not fit into their regular field
+    const zip64Values = [...(zip64 ? [size, compressedSize] : []), ...(zip64Offset ? [offset] : [])];
+    const extra =
+        zip64Values.length > 0
+            ? pack(
+                  [ZIP64_EXTRA_FIELD, 2],
+                  [zip64Values.length * 8, 2],
+                  ...zip64Values.map((value) => [value, 8] as [number, 8])
+              )
+            : Buffer.alloc(0);
+    const version = extra.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+    return Buffer.concat([
+        pack(
+            [CENTRAL_DIRECTORY_HEADER, 4],
+            [version, 2],
+            [version, 2],
+            [FLAGS, 2],
+            [METHOD_DEFLATE, 2],
+            [time, 2],
+            [date, 2],
+            [crc32, 4],
+            [zip64 ? ZIP64_LIMIT : compressedSize, 4],
+            [zip64 ? ZIP64_LIMIT : size, 4],
+            [name.length, 2],
+            [extra.length, 2],
+            // Comment length, disk number, internal and external attributes
+            [0, 2],
+            [0, 2],
+            [0, 2],
+            [0, 4],
+            [zip64Offset ? ZIP64_LIMIT : offset, 4]
+        ),
+        name,
+        extra,
+    ]);
+};
+
+const writeEndOfCentralDirectory = (count: number, size: number, offset: number, zip64Limit: number) => {
+    const end = (fieldCount: number, fieldSize: number, fieldOffset: number) =>
+        pack(
+            [END_OF_CENTRAL_DIRECTORY, 4],
+            // Number of this disk and of the disk with the central directory
+            [0, 2],
+            [0, 2],
+            [fieldCount, 2],
+            [fieldCount, 2],
+            [fieldSize, 4],
+            [fieldOffset, 4],
+            // Comment length
+            [0, 2]
+        );
+    if (count < MAX_UINT16 && size < zip64Limit && offset < zip64Limit) {
+        return end(count, size, offset);
+    }
+
+    const zip64EndOffset = offset + size;
+    return Buffer.concat([
+        pack(
+            [ZIP64_END_OF_CENTRAL_DIRECTORY, 4],
+            // Size of the rest of the record
+            [44, 8],
+            [VERSION_ZIP64, 2],
+            [VERSION_ZIP64, 2],
+            [0, 4],
+            [0, 4],
+            [count, 8],
+            [count, 8],
+            [size, 8],
+            [offset, 8]
+        ),
+        pack([ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR, 4], [0, 4], [zip64EndOffset, 8], [1, 4]),
+        end(MAX_UINT16, ZIP64_LIMIT, ZIP64_LIMIT),
+    ]);
+};
+
+async function* writeArchive(entries: Iterable<ZipEntry>, zip64Limit: number) {
+    const records: CentralDirectoryRecord[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name);
+        const { time, date } = toDosDateTime(entry.modifiedAt);
+        // The sizes are only known once written, and incompressible data grows a little when deflated
+        const zip64 = entry.size + Math.ceil(entry.size / 1000) + 1024 >= zip64Limit;
+
+        const extra = zip64 ? pack([ZIP64_EXTRA_FIELD, 2], [16, 2], [0, 8], [0, 8]) : Buffer.alloc(0);
+        const header = Buffer.concat([
+            pack(
+                [LOCAL_FILE_HEADER, 4],
+                [zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 2],
+                [FLAGS, 2],
+                [METHOD_DEFLATE, 2],
+                [time, 2],
+                [date, 2],
+                // The checksum and sizes follow in the data descriptor
+                [0, 4],
+                [zip64 ? ZIP64_LIMIT : 0, 4],
+                [zip64 ? ZIP64_LIMIT : 0, 4],
+                [name.length, 2],
+                [extra.length, 2]
+            ),
+            name,
+            extra,
+        ]);
+        yield header;
+
+        const crc = createCrc32Stream();
+        let size = 0;
+        let compressedSize = 0;
+        const countSize = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                size += chunk.length;
+                callback(null, chunk);
+            },
+        });
+        for await (const chunk of pipeThrough(await entry.open(), countSize, crc.stream, createDeflateRaw())) {
+            compressedSize += (chunk as Buffer).length;
+            yield chunk as Buffer;
+        }
+        if (!zip64 && compressedSize >= zip64Limit) {
+            throw new Error(`${entry.name} grew bigger than announced while archiving it`);
+        }
+
+        const crc32 = crc.getCrc32();
+        yield zip64
+            ? pack([DATA_DESCRIPTOR, 4], [crc32, 4], [compressedSize, 8], [size, 8])
+            : pack([DATA_DESCRIPTOR, 4], [crc32, 4], [compressedSize, 4], [size, 4]);
+
+        records.push({ name, time, date, crc32, compressedSize, size, offset, zip64 });
+        offset += header.length + compressedSize + (zip64 ? 24 : 16);
+    }
+
+    const centralDirectoryOffset = offset;
+    let centralDirectorySize = 0;
+    for (const record of records) {
+        const header = writeCentralDirectoryHeader(record, zip64Limit);
+        centralDirectorySize += header.length;
+        yield header;
+    }
+    yield writeEndOfCentralDirectory(records.length, centralDirectorySize, centralDirectoryOffset, zip64Limit);
+}
+
+/**
+ * Streams a ZIP archive of the entries, deflating each of them while it is read, so neither the entries nor the
+ * archive are ever held in memory. ZIP64 records are written for the sizes and offsets reaching `zip64Limit`.
+ */
+export const createZipArchive = (entries: Iterable<ZipEntry>, { zip64Limit = ZIP64_LIMIT } = {}) =>
+    Readable.from(writeArchive(entries, zip64Limit));